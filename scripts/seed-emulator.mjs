@@ -0,0 +1,45 @@
+/**
+ * Seed the local Firestore emulator with the catalogue and intake calendar data the portal reads.
+ *
+ * Usage:
+ *   firebase emulators:start --only firestore
+ *   npm run seed:emulator
+ *
+ * FIRESTORE_EMULATOR_HOST (default 127.0.0.1:8080) and NEXT_PUBLIC_FIREBASE_PROJECT_ID
+ * (default demo-iuea) select the emulator instance.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { initializeApp } from 'firebase/app';
+import { getFirestore, connectFirestoreEmulator, doc, writeBatch } from 'firebase/firestore';
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+const [host, port] = emulatorHost.split(':');
+const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'demo-iuea';
+
+const app = initializeApp({ projectId, apiKey: 'emulator' });
+const db = getFirestore(app);
+connectFirestoreEmulator(db, host, Number(port));
+
+const readSeed = async (fileName) =>
+  JSON.parse(await readFile(new URL(`../src/data/${fileName}`, import.meta.url), 'utf8'));
+
+const seedCollection = async (collectionName, records) => {
+  const batch = writeBatch(db);
+
+  records.forEach(({ id, ...data }) => {
+    batch.set(doc(db, collectionName, id), data);
+  });
+
+  await batch.commit();
+  console.log(`✅ Seeded ${records.length} documents into ${collectionName}`);
+};
+
+try {
+  await seedCollection('programs', await readSeed('programs.seed.json'));
+  await seedCollection('intakes', await readSeed('intakes.seed.json'));
+  process.exit(0);
+} catch (error) {
+  console.error('❌ Failed to seed Firestore emulator:', error);
+  process.exit(1);
+}
@@ -0,0 +1,9 @@
+import ProtectedRoute from "@/components/ProtectedRoute";
+
+interface AgentLayoutProps {
+  children: React.ReactNode;
+}
+
+export default function AgentLayout({ children }: AgentLayoutProps) {
+  return <ProtectedRoute requireEmailVerification={true}>{children}</ProtectedRoute>;
+}
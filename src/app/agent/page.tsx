@@ -0,0 +1,277 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import agentReferralService from '@/services/agentReferralService';
+import { intakeCalendarService } from '@/lib/intakeCalendarService';
+import { programCatalogService } from '@/lib/programCatalogService';
+import type { IntakeCalendarEntry } from '@/lib/intakeCalendar';
+import type { ProgramCatalogEntry } from '@/lib/programCatalog';
+import {
+  REFERRAL_STATUS_STYLES,
+  getOutstandingDocuments,
+  getReferralIntake,
+  getReferralStatusLabel,
+  summarizeReferrals,
+  type AgentProfile,
+  type AgentReferral,
+} from '@/lib/agentReferrals';
+
+type PageState = 'loading' | 'ready' | 'not-agent' | 'error';
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : '';
+
+/**
+ * Agent and counsellor area: the applicants who signed up through the agent's link, how far
+ * they have got and what they still need to upload. Scoping is enforced by the backend.
+ */
+export default function AgentReferralsPage() {
+  const router = useRouter();
+  const { signOut } = useAuth();
+  const [pageState, setPageState] = useState<PageState>('loading');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [agent, setAgent] = useState<AgentProfile | null>(null);
+  const [referrals, setReferrals] = useState<AgentReferral[]>([]);
+  const [intakes, setIntakes] = useState<IntakeCalendarEntry[]>([]);
+  const [programs, setPrograms] = useState<ProgramCatalogEntry[]>([]);
+  const [intakeFilter, setIntakeFilter] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  useEffect(() => {
+    const loadReferrals = async () => {
+      const [result, intakeCalendar, programCatalog] = await Promise.all([
+        agentReferralService.getMyReferrals(),
+        // Intake labels fall back to the stored intake name while the calendar is unavailable
+        intakeCalendarService.getIntakes().catch(() => []),
+        programCatalogService.getPrograms(),
+      ]);
+
+      setIntakes(intakeCalendar);
+      setPrograms(programCatalog);
+
+      if (result.success && result.data) {
+        setAgent(result.data.agent);
+        setReferrals(result.data.referrals);
+        setPageState('ready');
+      } else if (result.notAgent) {
+        setPageState('not-agent');
+      } else {
+        setErrorMessage(result.error || result.message);
+        setPageState('error');
+      }
+    };
+
+    void loadReferrals();
+  }, []);
+
+  const summary = useMemo(() => summarizeReferrals(referrals, intakes, programs), [referrals, intakes, programs]);
+
+  const visibleReferrals = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return referrals.filter((referral) => {
+      if (intakeFilter && getReferralIntake(referral, intakes) !== intakeFilter) return false;
+      if (!term) return true;
+      return referral.name.toLowerCase().includes(term) || referral.email.toLowerCase().includes(term);
+    });
+  }, [referrals, intakes, intakeFilter, searchTerm]);
+
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      router.push('/login');
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-white border-b border-slate-200 py-3 px-4 flex items-center justify-between">
+        <Image
+          src="https://iuea.ac.ug/sitepad-data/uploads/2020/11/Website-Logo.png"
+          alt="IUEA Logo"
+          width={120}
+          height={48}
+          className="h-10 sm:h-12 w-auto object-contain"
+        />
+        <div className="flex items-center gap-3">
+          {agent && (
+            <span className="hidden sm:inline text-sm text-slate-600">
+              <span className="font-medium text-slate-700">{agent.name}</span> · Agent code {agent.code}
+            </span>
+          )}
+          <button
+            onClick={handleLogout}
+            className="flex items-center px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+          >
+            <i className="ri-logout-box-line mr-2"></i>
+            Sign out
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-4 sm:p-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">My Referrals</h1>
+          <p className="text-sm text-slate-600">Applicants who signed up through your agent link.</p>
+        </div>
+
+        {pageState === 'loading' && (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-[#780000]"></div>
+          </div>
+        )}
+
+        {pageState === 'not-agent' && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+            <i className="ri-user-forbid-line text-3xl text-slate-400"></i>
+            <p className="font-medium text-slate-900 mt-2">This account is not registered as an agent</p>
+            <p className="text-sm text-slate-600 mt-1">
+              Contact the admissions office if you refer applicants to IUEA and need an agent account.
+            </p>
+          </div>
+        )}
+
+        {pageState === 'error' && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">
+            <i className="ri-error-warning-line mr-2"></i>
+            {errorMessage}
+          </div>
+        )}
+
+        {pageState === 'ready' && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+              {[
+                { label: 'Referred', value: summary.total, icon: 'ri-user-shared-line' },
+                { label: 'Applied', value: summary.applied, icon: 'ri-file-list-3-line' },
+                { label: 'Admitted', value: summary.admitted, icon: 'ri-award-line' },
+                { label: 'Enrolled', value: summary.enrolled, icon: 'ri-graduation-cap-line' },
+                { label: 'Conversion', value: `${summary.conversionRate}%`, icon: 'ri-line-chart-line' },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+                  <div className="flex items-center text-slate-500 text-sm">
+                    <i className={`${stat.icon} mr-2`}></i>
+                    {stat.label}
+                  </div>
+                  <p className="text-2xl font-bold text-slate-900 mt-1">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* Conversion by intake */}
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-bold text-slate-900 mb-4">Conversion by Intake</h2>
+              {summary.byIntake.length === 0 ? (
+                <p className="text-sm text-slate-600">No referrals yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-500 border-b border-slate-200">
+                        <th className="py-2 pr-4 font-medium">Intake</th>
+                        <th className="py-2 pr-4 font-medium">Referred</th>
+                        <th className="py-2 pr-4 font-medium">Applied</th>
+                        <th className="py-2 pr-4 font-medium">Admitted</th>
+                        <th className="py-2 pr-4 font-medium">Enrolled</th>
+                        <th className="py-2 font-medium">Conversion</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summary.byIntake.map((row) => (
+                        <tr key={row.intake} className="border-b border-slate-100 last:border-0">
+                          <td className="py-2 pr-4 font-medium text-slate-900">{row.intake}</td>
+                          <td className="py-2 pr-4 text-slate-700">{row.referred}</td>
+                          <td className="py-2 pr-4 text-slate-700">{row.applied}</td>
+                          <td className="py-2 pr-4 text-slate-700">{row.admitted}</td>
+                          <td className="py-2 pr-4 text-slate-700">{row.enrolled}</td>
+                          <td className="py-2 text-slate-700">{row.conversionRate}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Referred applicants */}
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                <h2 className="text-lg font-bold text-slate-900">Referred Applicants</h2>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Search by name or email"
+                    className="px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+                  />
+                  <select
+                    value={intakeFilter}
+                    onChange={(e) => setIntakeFilter(e.target.value)}
+                    className="px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-white"
+                  >
+                    <option value="">All intakes</option>
+                    {summary.byIntake.map((row) => (
+                      <option key={row.intake} value={row.intake}>{row.intake}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {visibleReferrals.length === 0 ? (
+                <p className="text-sm text-slate-600">No applicants match.</p>
+              ) : (
+                <div className="space-y-3">
+                  {visibleReferrals.map((referral) => {
+                    const outstanding = getOutstandingDocuments(referral, programs);
+                    return (
+                      <div key={referral.leadId} className="p-4 border border-slate-200 rounded-lg">
+                        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                          <div>
+                            <p className="font-medium text-slate-900">{referral.name || referral.email}</p>
+                            <p className="text-xs text-slate-500">
+                              {referral.email}
+                              {referral.phone && ` · ${referral.phone}`}
+                              {` · signed up ${formatDate(referral.createdAt)}`}
+                            </p>
+                            <p className="text-sm text-slate-700 mt-1">
+                              {referral.application?.preferredProgram || referral.program || 'No program chosen yet'}
+                              {' · '}
+                              {getReferralIntake(referral, intakes)}
+                            </p>
+                          </div>
+                          <span className={`self-start text-xs px-2 py-0.5 rounded-full font-medium ${
+                            REFERRAL_STATUS_STYLES[referral.leadStatus] || 'bg-slate-100 text-slate-700'
+                          }`}>
+                            {getReferralStatusLabel(referral.leadStatus)}
+                          </span>
+                        </div>
+
+                        {outstanding.length > 0 && (
+                          <p className="mt-2 text-xs text-amber-700">
+                            <i className="ri-error-warning-line mr-1"></i>
+                            Outstanding: {outstanding.join(', ')}
+                          </p>
+                        )}
+                        {!referral.application && (
+                          <p className="mt-2 text-xs text-slate-500">Has not started an application.</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
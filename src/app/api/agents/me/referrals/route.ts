@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  AgentReferralError,
+  agentReferralDirectoryService,
+  authenticateAgent,
+} from '@/lib/agentReferralDirectoryService';
+
+export const runtime = 'nodejs';
+
+const failure = (status: number, message: string) =>
+  NextResponse.json({ success: false, message, error: message }, { status });
+
+/**
+ * The signed-in agent's referrals. Expects the agent's Firebase ID token as a bearer token;
+ * responds with `{ success, agent, referrals }`, or 403 when the account is not an agent.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const agent = await authenticateAgent(request.headers.get('authorization'));
+    const referrals = await agentReferralDirectoryService.getReferrals(agent);
+    return NextResponse.json({ success: true, agent, referrals });
+  } catch (error) {
+    if (error instanceof AgentReferralError) {
+      return failure(error.status, error.message);
+    }
+
+    console.error('❌ Error loading agent referrals:', error);
+    return failure(500, 'We could not load your referrals. Please try again.');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { parseApplicationSubmission, type FieldError } from '@/lib/formValidation';
+import {
+  ApplicationSubmissionError,
+  applicationSubmissionService,
+  assertApplicantEmail,
+  authenticateApplicant,
+} from '@/lib/applicationSubmissionService';
+
+export const runtime = 'nodejs';
+
+const failure = (status: number, message: string, errors?: FieldError[]) =>
+  NextResponse.json({ success: false, message, ...(errors ? { errors } : {}) }, { status });
+
+/**
+ * Update a submitted application. Expects `{ data }` and the applicant's Firebase ID token as a
+ * bearer token; the data is validated exactly as on submission.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ applicationId: string }> }) {
+  try {
+    const submitter = await authenticateApplicant(request.headers.get('authorization'), 'update your application');
+    const { applicationId } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return failure(400, 'Invalid request body');
+    }
+
+    const { payload, errors } = parseApplicationSubmission(body);
+    if (errors.length > 0) {
+      return failure(400, 'Please correct the following and save again', errors);
+    }
+    assertApplicantEmail(submitter, payload.data);
+
+    return NextResponse.json(await applicationSubmissionService.update(submitter, applicationId, payload.data));
+  } catch (error) {
+    if (error instanceof ApplicationSubmissionError) {
+      return failure(error.status, error.message, error.errors);
+    }
+
+    console.error('❌ Error updating application:', error);
+    return failure(500, 'We could not update your application. Please try again.');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ApplicationSubmissionError, authenticateApplicant } from '@/lib/applicationSubmissionService';
+import { applicantTimelineService } from '@/lib/applicantTimelineService';
+
+export const runtime = 'nodejs';
+
+const failure = (status: number, message: string) =>
+  NextResponse.json({ success: false, message }, { status });
+
+/**
+ * The applicant-facing status history of an application. Expects the applicant's Firebase ID
+ * token as a bearer token; responds with `{ success, timeline }`.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ applicationId: string }> }) {
+  try {
+    const applicant = await authenticateApplicant(request.headers.get('authorization'), 'view your application');
+    const { applicationId } = await params;
+
+    const timeline = await applicantTimelineService.getTimeline(applicant, applicationId);
+    return NextResponse.json({ success: true, timeline });
+  } catch (error) {
+    if (error instanceof ApplicationSubmissionError) {
+      return failure(error.status, error.message);
+    }
+
+    console.error('❌ Error loading application timeline:', error);
+    return failure(500, 'We could not load your application history. Please try again.');
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { parseApplicationSubmission, type FieldError } from '@/lib/formValidation';
+import {
+  ApplicationSubmissionError,
+  applicationSubmissionService,
+  assertApplicantEmail,
+  authenticateApplicant,
+  isValidIdempotencyKey,
+} from '@/lib/applicationSubmissionService';
+
+export const runtime = 'nodejs';
+
+const failure = (status: number, message: string, errors?: FieldError[]) =>
+  NextResponse.json({ success: false, message, ...(errors ? { errors } : {}) }, { status });
+
+/**
+ * Submit an application. Expects `{ draftId, data }`, the applicant's Firebase ID token as a
+ * bearer token and an `Idempotency-Key` header; responds with a `DirectApplicationResponse`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const submitter = await authenticateApplicant(request.headers.get('authorization'), 'submit your application');
+
+    const idempotencyKey = request.headers.get('idempotency-key');
+    if (!isValidIdempotencyKey(idempotencyKey)) {
+      return failure(400, 'Missing or invalid Idempotency-Key header');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return failure(400, 'Invalid request body');
+    }
+
+    const { payload, errors } = parseApplicationSubmission(body);
+    if (errors.length > 0) {
+      return failure(400, 'Please correct the following and submit again', errors);
+    }
+    assertApplicantEmail(submitter, payload.data);
+
+    const response = await applicationSubmissionService.submit(submitter, payload, idempotencyKey);
+    return NextResponse.json(response, { status: response.replayed ? 200 : 201 });
+  } catch (error) {
+    if (error instanceof ApplicationSubmissionError) {
+      return failure(error.status, error.message, error.errors);
+    }
+
+    console.error('❌ Error submitting application:', error);
+    return failure(500, 'We could not submit your application. Please try again.');
+  }
+}
@@ -1,11 +1,12 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
 import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
 import PhoneInput from 'react-phone-number-input';
-import { isValidPhoneNumber } from 'react-phone-number-input';
 import 'react-phone-number-input/style.css';
 import { useAuth } from '@/contexts/AuthContext';
+import { useApplications } from '@/contexts/ApplicationsContext';
 import { studentApplicationService, type Application, type StudentApplicationData, type DraftDocumentMetadata, type DocumentUpload, type ApplicationDraft } from '@/lib/applicationService';
 import { ApplicationSkeleton, ApplicationViewSkeleton } from '@/components/skeletons/ApplicationSkeleton';
 import { ToastContainer, useToast } from '@/components/Toast';
@@ -14,6 +15,39 @@ import { FileSizePreview } from '@/components/FileSizePreview';
 import { useUploadProgress } from '@/hooks/useUploadProgress';
 import { compressApplicationDocuments } from '@/lib/fileCompressionService';
 import metaPixel from '@/lib/metaPixel';
+import {
+  filterPrograms,
+  findProgramByName,
+  getProgramIntakes,
+  getProgramModes,
+  groupProgramsByFaculty,
+  type ProgramCatalogEntry,
+} from '@/lib/programCatalog';
+import { ELIGIBILITY_STATUS_LABELS, evaluateEligibility, type EligibilityResult } from '@/lib/programEligibility';
+import { useProgramCatalog } from '@/hooks/useProgramCatalog';
+import { findOpenIntake, formatIntakeLabel, getIntakeDeadline } from '@/lib/intakeCalendar';
+import { useIntakeCalendar } from '@/hooks/useIntakeCalendar';
+import { applicationRequestService } from '@/lib/applicationRequestService';
+import ApplicationRequestActions from '../components/ApplicationRequestActions';
+import EducationHistoryForm from '../components/EducationHistoryForm';
+import ApplicationSwitcher from '../components/ApplicationSwitcher';
+import DraftConflictDialog from '../components/DraftConflictDialog';
+import ApplicationSummaryButton from '../components/ApplicationSummaryButton';
+import {
+  findDraftConflicts,
+  getChangedFields,
+  mergeDraftFormData,
+  type ConflictChoice,
+  type DraftFieldConflict,
+} from '@/lib/draftConflicts';
+import { DOCUMENT_DEFINITIONS } from '@/lib/documentRequirements';
+import { offlineDraftQueue, type QueuedDraftChange, type ReplayOutcome } from '@/lib/offlineDraftQueue';
+import {
+  describeQualification,
+  normalizeEducationHistory,
+  type QualificationEntry,
+} from '@/lib/educationHistory';
+import { APPLICATION_SECTION_FIELDS, validateStudentApplicationData } from '@/lib/formValidation';
 // import { type PaymentResponse } from '@/components/FlutterwavePayment'; // DISABLED - Components show "not ready" message
 
 // Form data interface for the application form
@@ -28,8 +62,12 @@ interface FormData {
   gender: string;
   postalAddress: string;
   
-  // Academic preferences
+  // Previous qualifications
+  educationHistory: QualificationEntry[];
+  
+  // Academic preferences (ranked choices)
   program: string;
+  secondaryProgram: string;
   modeOfStudy: string;
   intake: string;
   
@@ -40,6 +78,48 @@ interface FormData {
   additionalNotes: string;
 }
 
+// Fields that belong to one application, cleared when switching to another draft
+const EMPTY_FORM_DATA: FormData = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  countryOfBirth: '',
+  dateOfBirth: '',
+  gender: '',
+  postalAddress: '',
+  educationHistory: [],
+  program: '',
+  secondaryProgram: '',
+  modeOfStudy: '',
+  intake: '',
+  sponsorTelephone: '',
+  sponsorEmail: '',
+  howDidYouHear: '',
+  additionalNotes: '',
+};
+
+// The form names the first choice `program` and the intake `intake`
+const toStudentApplicationData = (formData: FormData): StudentApplicationData => ({
+  firstName: formData.firstName,
+  lastName: formData.lastName,
+  email: formData.email,
+  phone: formData.phone,
+  countryOfBirth: formData.countryOfBirth,
+  dateOfBirth: formData.dateOfBirth,
+  gender: formData.gender,
+  postalAddress: formData.postalAddress,
+  educationHistory: formData.educationHistory,
+  preferredProgram: formData.program,
+  secondaryProgram: formData.secondaryProgram || undefined,
+  modeOfStudy: formData.modeOfStudy,
+  preferredIntake: formData.intake,
+  sponsorTelephone: formData.sponsorTelephone,
+  sponsorEmail: formData.sponsorEmail,
+  howDidYouHear: formData.howDidYouHear,
+  additionalNotes: formData.additionalNotes,
+});
+
 // Extended application type with progress
 interface ApplicationWithProgress extends Application {
   progress?: {
@@ -63,10 +143,18 @@ interface UserDataWithOptionalPhone {
   phone?: string;
 }
 
-export default function ApplicationPage() {
+function ApplicationPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // `?application=<id>` views a submitted application, `?draft=<id>` edits one of several drafts
+  const requestedApplicationId = searchParams.get('application');
+  const requestedDraftId = searchParams.get('draft');
   const { user, userData, refreshUser } = useAuth();
   const { toasts, removeToast, showSuccess, showError, showWarning } = useToast();
   const { progress, startProgress, updateFileProgress, updateStage, reset: resetProgress } = useUploadProgress();
+  const { programs: programCatalog, loading: programCatalogLoading } = useProgramCatalog();
+  const { intakes: intakeCalendar, error: intakeCalendarError, refetch: refetchIntakeCalendar } = useIntakeCalendar();
+  const { applications: liveApplications } = useApplications();
   
   // State declarations first
   const [activeSection, setActiveSection] = useState('personal');
@@ -93,15 +181,30 @@ export default function ApplicationPage() {
   });
   const [draftApplication, setDraftApplication] = useState<ApplicationDraft | null>(null);
   const [draftId, setDraftId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<ApplicationDraft[]>([]);
+  const [isCreatingApplication, setIsCreatingApplication] = useState(false);
   const [isLoadingDraftDocuments, setIsLoadingDraftDocuments] = useState(false);
   const [draftDocuments, setDraftDocuments] = useState<{
     passportPhoto?: DraftDocumentMetadata;
     identificationDocument?: DraftDocumentMetadata;
     academicDocuments: DraftDocumentMetadata[];
   }>({ academicDocuments: [] });
-  const [autosaveStatus, setAutosaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [autosaveStatus, setAutosaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error' | 'offline'>('idle');
+  const [pendingOfflineChanges, setPendingOfflineChanges] = useState(0);
   const [lastAutosaveAt, setLastAutosaveAt] = useState<Date | null>(null);
   const autosaveTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Revision and form values this device last saved or loaded, the base for conflict checks
+  const draftRevisionRef = useRef<number | undefined>(undefined);
+  const syncedFormDataRef = useRef<Partial<FormData>>({});
+  // Idempotency key for submitting without a draft, kept across retries until one succeeds
+  const submissionKeyRef = useRef<string | null>(null);
+  // Set synchronously so a double tap cannot start a second submission before re-render
+  const isSubmittingRef = useRef(false);
+  const [draftConflict, setDraftConflict] = useState<{
+    remote: ApplicationDraft;
+    local: FormData;
+    conflicts: DraftFieldConflict[];
+  } | null>(null);
   const [isDraftLoading, setIsDraftLoading] = useState<boolean>(true);
   const [draftError, setDraftError] = useState<string | null>(null);
   
@@ -118,6 +221,7 @@ export default function ApplicationPage() {
   
   // Application status management
   const [submittedApplication, setSubmittedApplication] = useState<ApplicationWithProgress | null>(null);
+  const isApplicationLocked = applicationRequestService.isApplicationLocked(submittedApplication);
   const [isLoadingApplication, setIsLoadingApplication] = useState(false);
   const [applicationMode, setApplicationMode] = useState<'form' | 'view'>('form'); // form = editing, view = viewing submitted
   
@@ -149,8 +253,12 @@ export default function ApplicationPage() {
       gender: '',
       postalAddress: '',
       
+      // Education History
+      educationHistory: [],
+      
       // Program Selection
       program: '',
+      secondaryProgram: '',
       modeOfStudy: '',
       intake: '',
       
@@ -164,6 +272,11 @@ export default function ApplicationPage() {
     console.log('🎯 Initializing application data:', initialData);
     return initialData;
   });
+  // Latest form values for async work such as replaying offline changes
+  const applicationDataRef = useRef(applicationData);
+  useEffect(() => {
+    applicationDataRef.current = applicationData;
+  }, [applicationData]);
 
   // Helper function to format file names for better display
   const formatFileName = (fileName: string): string => {
@@ -183,72 +296,26 @@ export default function ApplicationPage() {
     return formattedName;
   };
 
-  // Section-specific validation functions (moved after state to avoid hoisting issues)
-  const validatePersonalSection = (formData: FormData): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-    
-    if (!formData.firstName.trim()) errors.push('First name is required');
-    if (!formData.lastName.trim()) errors.push('Last name is required');
-    if (!formData.email.trim()) errors.push('Email is required');
-    if (!formData.phone.trim()) errors.push('Phone number is required');
-    if (!formData.countryOfBirth.trim()) errors.push('Country of birth is required');
-    if (!formData.dateOfBirth.trim()) errors.push('Date of birth is required');
-    if (!formData.gender.trim()) errors.push('Gender is required');
-    if (!formData.postalAddress.trim()) errors.push('Physical address is required');
-    
-    // Email validation
-    if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      errors.push('Please enter a valid email address');
-    }
-    
-    // Phone number validation
-    if (formData.phone && !isValidPhoneNumber(formData.phone)) {
-      errors.push('Please enter a valid phone number with country code');
-    }
-    
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
-  };
+  // Section-specific validation, using the rules shared with signup and the submission route
+  const validateSection = (
+    formData: FormData,
+    section: keyof typeof APPLICATION_SECTION_FIELDS
+  ): { isValid: boolean; errors: string[] } => {
+    const errors = validateStudentApplicationData(toStudentApplicationData(formData), APPLICATION_SECTION_FIELDS[section]);
 
-  const validateProgramSection = (formData: FormData): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-    
-    if (!formData.program.trim()) errors.push('Program selection is required');
-    if (!formData.modeOfStudy.trim()) errors.push('Mode of study is required');
-    if (!formData.intake.trim()) errors.push('Intake selection is required');
-    
     return {
       isValid: errors.length === 0,
-      errors
+      errors: errors.map((error) => error.message)
     };
   };
 
-  const validateAdditionalSection = (formData: FormData): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-    
-    if (!formData.howDidYouHear.trim()) errors.push('Please tell us how you heard about the university');
-    
-    // Sponsor details are now OPTIONAL (payment system disabled)
-    // if (!formData.sponsorTelephone.trim()) errors.push('Sponsor telephone is required');
-    // if (!formData.sponsorEmail.trim()) errors.push('Sponsor email is required');
-    
-    // Sponsor phone validation (when provided)
-    if (formData.sponsorTelephone && !isValidPhoneNumber(formData.sponsorTelephone)) {
-      errors.push('Please enter a valid sponsor phone number with country code');
-    }
-    
-    // Sponsor email validation (when provided)
-    if (formData.sponsorEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.sponsorEmail)) {
-      errors.push('Please enter a valid sponsor email address');
-    }
-    
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
-  };
+  const validatePersonalSection = (formData: FormData) => validateSection(formData, 'personal');
+
+  const validateEducationSection = (formData: FormData) => validateSection(formData, 'education');
+
+  const validateProgramSection = (formData: FormData) => validateSection(formData, 'program');
+
+  const validateAdditionalSection = (formData: FormData) => validateSection(formData, 'additional');
 
   const validatePaymentSection = (): { isValid: boolean; errors: string[] } => {
     // TEMPORARILY DISABLED - Payment is not required until system is ready
@@ -277,6 +344,8 @@ export default function ApplicationPage() {
     switch (sectionId) {
       case 'personal':
         return validatePersonalSection(applicationData).isValid;
+      case 'education':
+        return validateEducationSection(applicationData).isValid;
       case 'program':
         return validateProgramSection(applicationData).isValid;
       case 'additional':
@@ -290,7 +359,7 @@ export default function ApplicationPage() {
 
   // Function to check if a section can be accessed (payment disabled)
   const canAccessSection = (sectionId: string): boolean => {
-    const sections = ['personal', 'program', 'additional']; // removed 'payment'
+    const sections = ['personal', 'education', 'program', 'additional']; // removed 'payment'
     const currentIndex = sections.findIndex(section => section === activeSection);
     const targetIndex = sections.findIndex(section => section === sectionId);
     
@@ -311,6 +380,7 @@ export default function ApplicationPage() {
   // Application form sections - with dynamic completion status (payment temporarily disabled)
   const formSections = [
     { id: 'personal', name: 'Personal Details', completed: isSectionCompleted('personal') },
+    { id: 'education', name: 'Education History', completed: isSectionCompleted('education') },
     { id: 'program', name: 'Program Selection', completed: isSectionCompleted('program') },
     { id: 'additional', name: 'Additional Information', completed: isSectionCompleted('additional') },
     // { id: 'payment', name: 'Payment', completed: isSectionCompleted('payment') }, // TEMPORARILY DISABLED
@@ -346,9 +416,12 @@ export default function ApplicationPage() {
         console.log('🔄 Initializing Firestore draft...');
         
         // Use Firestore service directly
-        const hybridDraft = await studentApplicationService.ensureDraftApplication(user.email, user.uid);
+        const hybridDraft = await studentApplicationService.ensureDraftApplication(user.email, user.uid, requestedDraftId ?? undefined);
         setDraftApplication(hybridDraft);
         setDraftId(hybridDraft.id);
+        draftRevisionRef.current = hybridDraft.revision;
+        syncedFormDataRef.current = hybridDraft.formData as Partial<FormData>;
+        setDraftConflict(null);
         
         // Fetch previously uploaded draft documents
         setIsLoadingDraftDocuments(true);
@@ -395,10 +468,15 @@ export default function ApplicationPage() {
           setApplicationData(prev => {
             console.log('🔄 Previous applicationData:', prev);
             
+            // Switching drafts: keep only the contact details from the form being left
+            const base = requestedDraftId
+              ? { ...EMPTY_FORM_DATA, firstName: prev.firstName, lastName: prev.lastName, email: prev.email, phone: prev.phone }
+              : prev;
             const mergedData = {
-              ...prev,
+              ...base,
               ...hybridDraft.formData,
             };
+            mergedData.educationHistory = normalizeEducationHistory(mergedData.educationHistory);
             
             // Preserve prefilled userData if draft has empty values
             if (userData) {
@@ -427,7 +505,7 @@ export default function ApplicationPage() {
           // If no draft formData but we have userData, ensure it's preserved
           console.log('🔄 No draft formData, preserving userData:', userData);
           setApplicationData(prev => ({
-            ...prev,
+            ...(requestedDraftId ? { ...EMPTY_FORM_DATA, email: prev.email } : prev),
             firstName: userData.firstName || prev.firstName,
             lastName: userData.lastName || prev.lastName,
             email: userData.email || prev.email,
@@ -458,7 +536,7 @@ export default function ApplicationPage() {
 
     void initialiseDraft();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.email, user?.uid, submittedApplication, applicationMode]); // showSuccess omitted to prevent infinite loop
+  }, [user?.email, user?.uid, submittedApplication, applicationMode, requestedDraftId]); // showSuccess omitted to prevent infinite loop
 
   // Track page view and form interactions
   useEffect(() => {
@@ -501,6 +579,11 @@ export default function ApplicationPage() {
       console.log('🚫 Skipping autosave - draft is loading');
       return;
     }
+
+    // Wait for the applicant to settle a conflict with another device
+    if (draftConflict) {
+      return;
+    }
     
     // If draft application isn't initialized yet, create a temp ID
     const draftId = draftApplication?.id || `temp_${user?.uid}_${Date.now()}`;
@@ -512,15 +595,48 @@ export default function ApplicationPage() {
     autosaveTimerRef.current = setTimeout(async () => {
       try {
         console.log('💾 Starting autosave with draft ID:', draftId);
-        setAutosaveStatus('saving');
         const lastSavedAtIso = new Date().toISOString();
+
+        // No connection: keep the changes on this device until it comes back
+        if (!offlineDraftQueue.isOnline() && offlineDraftQueue.isSupported()) {
+          await offlineDraftQueue.enqueueDraftSave(draftId, { formData: applicationData, activeSection, lastSavedAt: lastSavedAtIso });
+          setAutosaveStatus('offline');
+          return;
+        }
+
+        setAutosaveStatus('saving');
         
         // Use our hybrid save method that works with both Firestore and localStorage
-        await studentApplicationService.saveDraft(draftId, {
+        const saveResult = await studentApplicationService.saveDraft(draftId, {
           formData: applicationData,
           activeSection,
           lastSavedAt: lastSavedAtIso,
+          baseRevision: draftRevisionRef.current,
         });
+
+        // Firestore unreachable: only the localStorage backup was written
+        if (saveResult.status === 'local' && offlineDraftQueue.isSupported()) {
+          await offlineDraftQueue.enqueueDraftSave(draftId, { formData: applicationData, activeSection, lastSavedAt: lastSavedAtIso });
+          setAutosaveStatus('offline');
+          return;
+        }
+
+        if (saveResult.status === 'conflict') {
+          reconcileWithRemoteDraft(saveResult.remote, applicationData);
+          return;
+        }
+
+        // Saved on this device only; a retry would be refused again, so nothing is queued
+        if (saveResult.status === 'error') {
+          setAutosaveStatus('error');
+          setDraftError(`Autosave failed - ${saveResult.message}`);
+          return;
+        }
+
+        if (saveResult.status === 'saved') {
+          draftRevisionRef.current = saveResult.revision;
+          syncedFormDataRef.current = applicationData;
+        }
         
         // If we don't have a draft application yet, create one
         if (!draftApplication?.id) {
@@ -585,7 +701,42 @@ export default function ApplicationPage() {
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [applicationData, activeSection, user?.email, user?.uid, isDraftLoading, submittedApplication, applicationMode, isSubmitting]); // draftApplication?.id omitted to prevent infinite loop
+  }, [applicationData, activeSection, user?.email, user?.uid, isDraftLoading, submittedApplication, applicationMode, isSubmitting, draftConflict]); // draftApplication?.id omitted to prevent infinite loop
+
+  // Another device saved first: merge what we can and ask the applicant about the rest
+  const reconcileWithRemoteDraft = (remote: ApplicationDraft, local: FormData) => {
+    const conflicts = findDraftConflicts(syncedFormDataRef.current, local, remote.formData);
+    if (conflicts.length > 0) {
+      setDraftConflict({ remote, local, conflicts });
+      setAutosaveStatus('idle');
+      return;
+    }
+
+    applyMergedDraft(remote, mergeDraftFormData(syncedFormDataRef.current, local, remote.formData));
+  };
+
+  // Adopt the other device's revision; the merged form is saved on top of it by the next autosave
+  const applyMergedDraft = (remote: ApplicationDraft, merged: FormData) => {
+    draftRevisionRef.current = remote.revision;
+    syncedFormDataRef.current = remote.formData as Partial<FormData>;
+    setDraftConflict(null);
+    setApplicationData({ ...merged, educationHistory: normalizeEducationHistory(merged.educationHistory) });
+
+    if (getChangedFields(remote.formData, merged).length > 0) {
+      showWarning('Changes Combined', 'Your application was also edited on another device. Both sets of changes have been kept.', 6000);
+    }
+  };
+
+  const handleResolveDraftConflict = (choices: Record<string, ConflictChoice>) => {
+    if (!draftConflict) return;
+
+    // Fields edited here since the conflict was detected are kept as they are now
+    const editedSince = getChangedFields(draftConflict.local, applicationData);
+    const merged = mergeDraftFormData(syncedFormDataRef.current, draftConflict.local, draftConflict.remote.formData, choices);
+    const keptEdits = Object.fromEntries(editedSince.map((field) => [field, applicationData[field as keyof FormData]]));
+
+    applyMergedDraft(draftConflict.remote, { ...merged, ...keptEdits });
+  };
 
   // Check for submitted application
   const checkForSubmittedApplication = useCallback(async () => {
@@ -598,11 +749,23 @@ export default function ApplicationPage() {
     setIsLoadingApplication(true);
     
     try {
-      const applications = await studentApplicationService.getApplicationsByEmail(user.email);
+      const [applications, openDrafts] = await Promise.all([
+        studentApplicationService.getApplicationsByEmail(user.email),
+        studentApplicationService.getDraftsByEmail(user.email),
+      ]);
+      setDrafts(openDrafts);
+
+      if (requestedDraftId) {
+        // Working on one of several drafts alongside submitted applications
+        setSubmittedApplication(null);
+        setApplicationMode('form');
+        setIsEditing(true);
+        return;
+      }
       
       if (applications && applications.length > 0) {
-        // User has a submitted application
-        const app = applications[0];
+        // User has a submitted application; show the requested one, else the latest
+        const app = applications.find(application => application.id === requestedApplicationId) ?? applications[0];
         const progress = studentApplicationService.calculateProgress(app);
         
         const submittedApp = {
@@ -636,15 +799,69 @@ export default function ApplicationPage() {
     } finally {
       setIsLoadingApplication(false);
     }
-  }, [user?.email]);
+  }, [user?.email, requestedApplicationId, requestedDraftId]);
 
-  // Load existing application on component mount
+  // Load existing application on mount and when switching applications
   useEffect(() => {
     if (user?.uid) {
       checkForSubmittedApplication();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.uid]); // checkForSubmittedApplication omitted to prevent infinite loop
+  }, [user?.uid, requestedApplicationId, requestedDraftId]); // checkForSubmittedApplication omitted to prevent infinite loop
+
+  // Start another application, optionally copying details and documents from a previous one
+  const handleStartNewApplication = async (sourceApplicationId: string | null) => {
+    if (!user?.email) return;
+
+    setIsCreatingApplication(true);
+    try {
+      const source = liveApplications.find(app => app.id === sourceApplicationId) ?? null;
+      const { draft, failedDocuments } = await studentApplicationService.createDraftFromApplication(user.email, source);
+      setDrafts(prev => [draft, ...prev]);
+
+      if (failedDocuments.length > 0) {
+        showWarning(
+          'Some Documents Were Not Copied',
+          `Please upload these again: ${failedDocuments.map(type => DOCUMENT_DEFINITIONS[type].label).join(', ')}.`,
+          8000
+        );
+      } else {
+        showSuccess(
+          'New Application Started',
+          source
+            ? 'Your personal details and documents have been copied. Choose a program and intake to continue.'
+            : 'Fill in the form to apply for another program or intake.',
+          6000
+        );
+      }
+
+      router.push(`/dashboard/application?draft=${draft.id}`);
+    } catch (error) {
+      console.error('❌ Failed to start new application:', error);
+      showError('Could Not Start Application', error instanceof Error ? error.message : 'Please try again.', 6000);
+    } finally {
+      setIsCreatingApplication(false);
+    }
+  };
+
+  // Keep the submitted application in sync with live updates from admissions
+  const lastSyncedApplicationRef = useRef<Application | null>(null);
+  useEffect(() => {
+    if (!submittedApplication) {
+      return;
+    }
+
+    const latest = liveApplications.find(app => app.id === submittedApplication.id);
+    if (!latest || latest === lastSyncedApplicationRef.current) {
+      return;
+    }
+
+    lastSyncedApplicationRef.current = latest;
+    setSubmittedApplication({
+      ...latest,
+      progress: studentApplicationService.calculateProgress(latest),
+    });
+  }, [liveApplications, submittedApplication]);
 
   // Debug effect to log user data
   useEffect(() => {
@@ -850,6 +1067,8 @@ export default function ApplicationPage() {
     
     if (activeSection === 'personal') {
       validation = validatePersonalSection(applicationData);
+    } else if (activeSection === 'education') {
+      validation = validateEducationSection(applicationData);
     } else if (activeSection === 'program') {
       validation = validateProgramSection(applicationData);
     } else if (activeSection === 'additional') {
@@ -871,67 +1090,49 @@ export default function ApplicationPage() {
     setActiveSection(sectionId);
   };
 
-  // Validation function for final submission (payment temporarily removed)
-  const validateFormData = (formData: FormData): { isValid: boolean; errors: string[] } => {
-    const personalValidation = validatePersonalSection(formData);
-    const programValidation = validateProgramSection(formData);
-    const additionalValidation = validateAdditionalSection(formData);
-    // const paymentValidation = validatePaymentSection(); // TEMPORARILY DISABLED
-    
-    const allErrors = [
-      ...personalValidation.errors,
-      ...programValidation.errors,
-      ...additionalValidation.errors,
-      // ...paymentValidation.errors // TEMPORARILY DISABLED
+  // Validation summary for final submission, grouped by form step (payment temporarily removed)
+  const getValidationSummary = (formData: FormData): string | null => {
+    const sections: Array<[string, string[]]> = [
+      ['📝 Personal Details', validatePersonalSection(formData).errors],
+      ['📚 Education History', validateEducationSection(formData).errors],
+      ['🎓 Program Selection', validateProgramSection(formData).errors],
+      ['ℹ️ Additional Information', validateAdditionalSection(formData).errors],
+      // validatePaymentSection() // TEMPORARILY DISABLED
     ];
-    
-    return {
-      isValid: allErrors.length === 0,
-      errors: allErrors
-    };
+
+    const invalidSections = sections.filter(([, errors]) => errors.length > 0);
+    if (invalidSections.length === 0) {
+      return null;
+    }
+
+    return 'Please complete the following required fields:\n\n' + invalidSections
+      .map(([title, errors]) => `${title}:\n` + errors.map(e => `• ${e}`).join('\n'))
+      .join('\n\n');
   };
 
   // Handler for final application submission (supports autosave drafts)
   const handleSubmitApplication = async () => {
     if (!user?.uid) return;
 
-    const validation = validateFormData(applicationData);
-
-    if (!validation.isValid) {
-      const personalErrors = validation.errors.filter(error =>
-        error.includes('First name') || error.includes('Last name') ||
-        error.includes('Email') || error.includes('Phone') ||
-        error.includes('Country') || error.includes('Gender') ||
-        error.includes('Physical address')
-      );
-
-      const programErrors = validation.errors.filter(error =>
-        error.includes('Program') || error.includes('Mode of study') ||
-        error.includes('Intake')
-      );
-
-      const additionalErrors = validation.errors.filter(error =>
-        error.includes('how you heard') || error.includes('Sponsor')
+    if (pendingOfflineChanges > 0) {
+      showWarning(
+        'Changes Still Syncing',
+        `${pendingOfflineChanges} change(s) made offline have not been saved yet. Please submit once you are back online and they have synced.`,
+        6000
       );
+      return;
+    }
 
-      let errorMessage = 'Please complete the following required fields:\n\n';
-
-      if (personalErrors.length > 0) {
-        errorMessage += '📝 Personal Details:\n' + personalErrors.map(e => `• ${e}`).join('\n') + '\n\n';
-      }
-
-      if (programErrors.length > 0) {
-        errorMessage += '🎓 Program Selection:\n' + programErrors.map(e => `• ${e}`).join('\n') + '\n\n';
-      }
-
-      if (additionalErrors.length > 0) {
-        errorMessage += 'ℹ️ Additional Information:\n' + additionalErrors.map(e => `• ${e}`).join('\n') + '\n\n';
-      }
+    const validationSummary = getValidationSummary(applicationData);
 
-      showError('Validation Error', errorMessage.trim(), 8000);
+    if (validationSummary) {
+      showError('Validation Error', validationSummary, 8000);
       return;
     }
 
+    if (isSubmittingRef.current) return;
+    isSubmittingRef.current = true;
+
     try {
       setIsSubmitting(true);
       resetProgress();
@@ -950,47 +1151,39 @@ export default function ApplicationPage() {
         email: user.email
       });
 
-      const studentData: StudentApplicationData = {
-        firstName: applicationData.firstName,
-        lastName: applicationData.lastName,
-        email: applicationData.email,
-        phone: applicationData.phone,
-        countryOfBirth: applicationData.countryOfBirth,
-        dateOfBirth: applicationData.dateOfBirth,
-        gender: applicationData.gender,
-        postalAddress: applicationData.postalAddress,
-        preferredProgram: applicationData.program,
-        modeOfStudy: applicationData.modeOfStudy,
-        preferredIntake: applicationData.intake,
-        sponsorTelephone: applicationData.sponsorTelephone,
-        sponsorEmail: applicationData.sponsorEmail,
-        howDidYouHear: applicationData.howDidYouHear,
-        additionalNotes: applicationData.additionalNotes,
-      };
+      const studentData = toStudentApplicationData(applicationData);
 
       if (draftId) {
         updateStage('finalizing', 'Finalizing your submission...');
-        const result = await studentApplicationService.promoteDraftToSubmitted(draftId, studentData);
+        const result = await studentApplicationService.promoteDraftToSubmitted(
+          draftId,
+          studentData,
+          draftApplication?.id === draftId ? draftApplication.submissionKey : undefined
+        );
 
         if (!result.success) {
           throw new Error(result.message || 'Failed to submit draft application');
         }
+        void offlineDraftQueue.clear(draftId);
 
         updateStage('completed', 'Application submitted successfully!');
 
-        metaPixel.trackApplicationSubmission({
-          email: applicationData.email,
-          firstName: applicationData.firstName,
-          lastName: applicationData.lastName,
-          phone: applicationData.phone,
-          program: applicationData.program
-        });
+        // A replayed submission was already tracked when it first went through
+        if (!result.replayed) {
+          metaPixel.trackApplicationSubmission({
+            email: applicationData.email,
+            firstName: applicationData.firstName,
+            lastName: applicationData.lastName,
+            phone: applicationData.phone,
+            program: applicationData.program
+          });
 
-        console.log('🎯 Meta Pixel: Application submission tracked for', applicationData.email);
+          console.log('🎯 Meta Pixel: Application submission tracked for', applicationData.email);
+        }
 
         showSuccess(
           'Application Submitted Successfully!',
-          'Your application has been submitted! You can track your progress and upload additional documents anytime.',
+          `Your application has been submitted!${result.reference ? ` Your reference is ${result.reference}.` : ''} You can track your progress and upload additional documents anytime.`,
           8000
         );
 
@@ -1002,7 +1195,7 @@ export default function ApplicationPage() {
         setFiles({ academicDocuments: [], passportPhoto: undefined, identificationDocument: undefined });
 
         setTimeout(() => {
-          void checkForSubmittedApplication();
+          router.replace(`/dashboard/application?application=${result.applicationId}`);
         }, 1000);
 
         return;
@@ -1046,14 +1239,17 @@ export default function ApplicationPage() {
 
       updateStage('uploading', 'Submitting your application...');
 
+      submissionKeyRef.current ??= crypto.randomUUID();
       const result = await studentApplicationService.submitApplicationWithBackgroundDocuments(
         studentData,
-        processedFiles
+        processedFiles,
+        submissionKeyRef.current
       );
 
       if (!result.success) {
         throw new Error(result.message || 'Failed to create application');
       }
+      submissionKeyRef.current = null;
 
       if (result.documentProcessing) {
         updateStage('uploading', 'Uploading documents...');
@@ -1094,19 +1290,22 @@ export default function ApplicationPage() {
       await new Promise(resolve => setTimeout(resolve, 1000));
       updateStage('completed', 'Application submitted successfully!');
 
-      metaPixel.trackApplicationSubmission({
-        email: applicationData.email,
-        firstName: applicationData.firstName,
-        lastName: applicationData.lastName,
-        phone: applicationData.phone,
-        program: applicationData.program
-      });
+      // A replayed submission was already tracked when it first went through
+      if (!result.replayed) {
+        metaPixel.trackApplicationSubmission({
+          email: applicationData.email,
+          firstName: applicationData.firstName,
+          lastName: applicationData.lastName,
+          phone: applicationData.phone,
+          program: applicationData.program
+        });
 
-      console.log('🎯 Meta Pixel: Application submission tracked for', applicationData.email);
+        console.log('🎯 Meta Pixel: Application submission tracked for', applicationData.email);
+      }
 
       showSuccess(
         'Application Submitted Successfully!',
-        'Your application has been submitted! You can track your progress and upload additional documents anytime.',
+        `Your application has been submitted!${result.reference ? ` Your reference is ${result.reference}.` : ''} You can track your progress and upload additional documents anytime.`,
         8000
       );
 
@@ -1122,6 +1321,7 @@ export default function ApplicationPage() {
         7000
       );
     } finally {
+      isSubmittingRef.current = false;
       setIsSubmitting(false);
     }
   };
@@ -1129,71 +1329,29 @@ export default function ApplicationPage() {
   // Handler for updating existing application data
   const handleUpdateApplication = async () => {
     if (!user?.uid || !submittedApplication) return;
-    
-    // Validate form data
-    const validation = validateFormData(applicationData);
-    
-    if (!validation.isValid) {
-      // Group errors by section for better UX
-      const personalErrors = validation.errors.filter(error => 
-        error.includes('First name') || error.includes('Last name') || 
-        error.includes('Email') || error.includes('Phone') || 
-        error.includes('Country') || error.includes('Gender') || 
-        error.includes('Physical address')
-      );
-      
-      const programErrors = validation.errors.filter(error => 
-        error.includes('Program') || error.includes('Mode of study') || 
-        error.includes('Intake')
-      );
-      
-      const additionalErrors = validation.errors.filter(error => 
-        error.includes('how you heard') || error.includes('Sponsor')
-      );
-      
-      let errorMessage = 'Please complete the following required fields:\n\n';
-      
-      if (personalErrors.length > 0) {
-        errorMessage += '📝 Personal Details:\n' + personalErrors.map(e => `• ${e}`).join('\n') + '\n\n';
-      }
-      
-      if (programErrors.length > 0) {
-        errorMessage += '🎓 Program Selection:\n' + programErrors.map(e => `• ${e}`).join('\n') + '\n\n';
-      }
-      
-      if (additionalErrors.length > 0) {
-        errorMessage += 'ℹ️ Additional Information:\n' + additionalErrors.map(e => `• ${e}`).join('\n') + '\n\n';
-      }
-      
+
+    if (isApplicationLocked) {
       showError(
-        'Validation Error',
-        errorMessage.trim(),
-        8000
+        'Application Locked',
+        'Your application cannot be changed while admissions reviews your withdrawal or deferral request.',
+        6000
       );
       return;
     }
     
+    // Validate form data
+    const validationSummary = getValidationSummary(applicationData);
+
+    if (validationSummary) {
+      showError('Validation Error', validationSummary, 8000);
+      return;
+    }
+    
     try {
       setIsSubmitting(true);
       
       // Transform form data to StudentApplicationData for update
-      const updatedData: StudentApplicationData = {
-        firstName: applicationData.firstName,
-        lastName: applicationData.lastName,
-        email: applicationData.email,
-        phone: applicationData.phone,
-        countryOfBirth: applicationData.countryOfBirth,
-        dateOfBirth: applicationData.dateOfBirth,
-        gender: applicationData.gender,
-        postalAddress: applicationData.postalAddress,
-        preferredProgram: applicationData.program,
-        modeOfStudy: applicationData.modeOfStudy,
-        preferredIntake: applicationData.intake,
-        sponsorTelephone: applicationData.sponsorTelephone,
-        sponsorEmail: applicationData.sponsorEmail,
-        howDidYouHear: applicationData.howDidYouHear,
-        additionalNotes: applicationData.additionalNotes,
-      };
+      const updatedData = toStudentApplicationData(applicationData);
       
       // Update the existing application
       const result = await studentApplicationService.updateApplicationData(submittedApplication.id, updatedData);
@@ -1271,6 +1429,15 @@ export default function ApplicationPage() {
   // Handler for updating documents for submitted applications
   const handleUpdateDocuments = async () => {
     if (!user?.uid || !submittedApplication) return;
+
+    if (isApplicationLocked) {
+      showError(
+        'Application Locked',
+        'Your application cannot be changed while admissions reviews your withdrawal or deferral request.',
+        6000
+      );
+      return;
+    }
     
     try {
       setIsSubmitting(true);
@@ -1389,9 +1556,15 @@ export default function ApplicationPage() {
         [field]: value
       };
       
-      // Clear program selection when mode of study or intake changes
+      // Clear program choices when mode of study or intake changes
       if (field === 'modeOfStudy' || field === 'intake') {
         updated.program = '';
+        updated.secondaryProgram = '';
+      }
+      
+      // A program can only be ranked once
+      if (field === 'program' && value === prev.secondaryProgram) {
+        updated.secondaryProgram = '';
       }
       
       return updated;
@@ -1400,6 +1573,16 @@ export default function ApplicationPage() {
     setDraftError(null);
   };
 
+  // Handler for education history updates
+  const handleEducationHistoryChange = (entries: QualificationEntry[]) => {
+    setApplicationData(prev => ({
+      ...prev,
+      educationHistory: entries
+    }));
+    setAutosaveStatus('idle');
+    setDraftError(null);
+  };
+
   // Handler for file uploads
   const handleFileUpload = async (field: string, fileList: FileList | null) => {
     if (!fileList || !draftId || !applicationData.email) {
@@ -1433,6 +1616,25 @@ export default function ApplicationPage() {
       }
     }
 
+    // No connection: keep the files on this device and upload them when it returns
+    if (!offlineDraftQueue.isOnline() && offlineDraftQueue.isSupported()) {
+      try {
+        for (const file of filesArray) {
+          await offlineDraftQueue.enqueueDocumentUpload(draftId, field as DocumentUpload['type'], file, applicationData.email);
+        }
+        setAutosaveStatus('offline');
+        showWarning(
+          'You Are Offline',
+          `${filesArray.length} file(s) saved on this device. They will upload automatically when your connection returns.`,
+          6000
+        );
+      } catch (error) {
+        console.error('❌ Failed to queue document for upload:', error);
+        showError('Upload Failed', 'You are offline and the file could not be kept on this device. Please try again when connected.', 6000);
+      }
+      return;
+    }
+
     try {
       showSuccess('Uploading Document', 'Upload starting. Large files might take a moment.', 3000);
 
@@ -1459,23 +1661,12 @@ export default function ApplicationPage() {
 
       if (field === 'passportPhoto') {
         setFiles(prev => ({ ...prev, passportPhoto: filesArray[0] }));
-        setDraftDocuments(prev => ({
-          ...prev,
-          passportPhoto: uploadedMetadata[0],
-        }));
       } else if (field === 'identificationDocument') {
         setFiles(prev => ({ ...prev, identificationDocument: filesArray[0] }));
-        setDraftDocuments(prev => ({
-          ...prev,
-          identificationDocument: uploadedMetadata[0],
-        }));
       } else if (field === 'academicDocuments') {
         setFiles(prev => ({ ...prev, academicDocuments: [...prev.academicDocuments, ...filesArray] }));
-        setDraftDocuments(prev => ({
-          ...prev,
-          academicDocuments: [...prev.academicDocuments, ...uploadedMetadata],
-        }));
       }
+      addUploadedDraftDocuments(field, uploadedMetadata);
 
       setAutosaveStatus('saved');
       setLastAutosaveAt(new Date());
@@ -1501,6 +1692,147 @@ export default function ApplicationPage() {
     }
   };
 
+  // Record uploaded draft files in the documents shown on the form
+  const addUploadedDraftDocuments = (field: string, uploadedMetadata: DraftDocumentMetadata[]) => {
+    if (field === 'passportPhoto') {
+      setDraftDocuments(prev => ({ ...prev, passportPhoto: uploadedMetadata[0] }));
+    } else if (field === 'identificationDocument') {
+      setDraftDocuments(prev => ({ ...prev, identificationDocument: uploadedMetadata[0] }));
+    } else if (field === 'academicDocuments') {
+      setDraftDocuments(prev => ({ ...prev, academicDocuments: [...prev.academicDocuments, ...uploadedMetadata] }));
+    }
+  };
+
+  // Send one change made while offline; `retry` keeps it (and later ones) queued
+  const processQueuedChange = async (entry: QueuedDraftChange): Promise<ReplayOutcome> => {
+    if (entry.kind === 'draft-save') {
+      const result = await studentApplicationService.saveDraft(entry.draftId, {
+        ...entry.payload,
+        baseRevision: draftRevisionRef.current,
+      });
+      if (result.status === 'local') {
+        return 'retry';
+      }
+
+      // Refused by Firestore rather than unreachable: drop it so it does not block later changes
+      if (result.status === 'error') {
+        showError('Draft Not Saved', `A change made offline could not be saved: ${result.message}`, 6000);
+        return 'done';
+      }
+
+      // Edits made here since the change was queued take precedence over the queued values
+      const local = mergeDraftFormData(syncedFormDataRef.current, applicationDataRef.current, entry.payload.formData);
+      if (result.status === 'conflict') {
+        reconcileWithRemoteDraft(result.remote, local);
+        return 'done';
+      }
+
+      draftRevisionRef.current = result.revision;
+      syncedFormDataRef.current = entry.payload.formData as Partial<FormData>;
+      setApplicationData(local);
+      return 'done';
+    }
+
+    try {
+      const file = new File([entry.file], entry.fileName, { type: entry.file.type });
+      const metadata = await studentApplicationService.uploadDraftDocument({
+        applicationId: entry.draftId,
+        file,
+        type: entry.documentType,
+        studentEmail: entry.studentEmail,
+      });
+      addUploadedDraftDocuments(entry.documentType, [metadata]);
+      return 'done';
+    } catch (error) {
+      const isNetworkError = (error as { code?: string })?.code === 'storage/retry-limit-exceeded';
+      if (!offlineDraftQueue.isOnline() || isNetworkError) {
+        return 'retry';
+      }
+
+      showError(
+        'Upload Failed',
+        `${entry.fileName} could not be uploaded: ${error instanceof Error ? error.message : 'please try again.'}`,
+        6000
+      );
+      return 'done';
+    }
+  };
+
+  const replayOfflineChanges = async () => {
+    if (!draftId) return;
+
+    try {
+      if (await offlineDraftQueue.getPendingCount(draftId) === 0) {
+        return;
+      }
+
+      setAutosaveStatus('saving');
+      await offlineDraftQueue.replay(draftId, processQueuedChange);
+
+      if (await offlineDraftQueue.getPendingCount(draftId) === 0) {
+        setAutosaveStatus('saved');
+        setLastAutosaveAt(new Date());
+      } else {
+        setAutosaveStatus('offline');
+      }
+    } catch (error) {
+      console.error('❌ Failed to replay offline changes:', error);
+    }
+  };
+
+  // Keep the count of changes waiting for a connection up to date
+  useEffect(() => {
+    if (!draftId) {
+      setPendingOfflineChanges(0);
+      return;
+    }
+
+    const refreshCount = () => {
+      offlineDraftQueue.getPendingCount(draftId)
+        .then(setPendingOfflineChanges)
+        .catch(() => setPendingOfflineChanges(0));
+    };
+
+    refreshCount();
+    return offlineDraftQueue.subscribe(refreshCount);
+  }, [draftId]);
+
+  // Replay queued changes once the draft is ready and whenever the connection returns
+  useEffect(() => {
+    if (!draftId || isDraftLoading) {
+      return;
+    }
+
+    const handleOnline = () => {
+      void replayOfflineChanges();
+    };
+    const handleOffline = () => setAutosaveStatus('offline');
+
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftId, isDraftLoading]); // replayOfflineChanges only reads refs and stable setters besides draftId
+
+  // Firebase can be unreachable while the browser still reports a connection, so keep retrying
+  useEffect(() => {
+    if (!draftId || pendingOfflineChanges === 0) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      void replayOfflineChanges();
+    }, 30000);
+
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftId, pendingOfflineChanges]);
+
   // Helper function to remove a file from a document array
   const removeFile = async (field: string, index?: number) => {
     if (!draftId) {
@@ -1664,6 +1996,13 @@ export default function ApplicationPage() {
       description = lastSavedDate
         ? `Saved at ${lastSavedDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
         : 'Draft saved successfully.';
+    } else if (status === 'offline') {
+      containerClasses = 'bg-slate-100 border border-slate-300 text-slate-800';
+      iconClass = 'ri-wifi-off-line text-slate-600';
+      title = pendingOfflineChanges > 0
+        ? `Offline — ${pendingOfflineChanges} change${pendingOfflineChanges === 1 ? '' : 's'} pending`
+        : 'You are offline';
+      description = 'Your changes are kept on this device and will sync automatically when your connection returns.';
     } else if (status === 'error') {
       containerClasses = 'bg-red-50 border border-red-200 text-red-800';
       iconClass = 'ri-alert-line text-red-600';
@@ -1706,156 +2045,6 @@ export default function ApplicationPage() {
     };
   }, [isCountryDropdownOpen]);
 
-  // Program data organized by faculty, mode, and intake
-  const programData = {
-    'On Campus': {
-      'January': {
-        'Faculty of Business Management (FBM)': [
-          'Bachelor of Business Administration',
-          'Bachelor of Public Administration',
-          'Bachelor of Procurement & Logistics Management',
-          'Bachelor of Human Resource Management',
-          'Bachelor of Tourism & Hotel Management',
-          'Master of Business Administration (MBA)'
-        ],
-        'Faculty of Science and Technology (FST)': [
-          'CISCO (3 months)',
-          'Bachelor of Information Technology',
-          'Bachelor of Science in Computer Science',
-          'Bachelor of Science in Environmental Science & Management',
-          'Bachelor of Science in Software Engineering',
-          'Bachelor of Science in Climate-Smart Agriculture',
-          'Master of Information Technology (MIT)'
-        ],
-        'Faculty of Engineering (FOE)': [
-          'Diploma in Architecture',
-          'Diploma in Civil Engineering',
-          'Diploma in Electrical Engineering',
-          'Bachelor of Architecture',
-          'Bachelor of Science in Civil Engineering',
-          'Bachelor of Science in Electrical Engineering',
-          'Bachelor of Science in Petroleum Engineering',
-          'Bachelor of Science in Mining Engineering',
-          'Bachelor of Science in Mechatronics & Robotics Engineering',
-          'Bachelor of Science in Communications Engineering'
-        ],
-        'Faculty of Law and Humanities (FLH)': [
-          'Bachelor of Laws (LLB)',
-          'Bachelor of International Relations & Diplomatic Studies',
-          'Bachelor of Journalism & Communication Studies',
-          'Master of International Relations & Diplomatic Studies'
-        ],
-        'International Foundation Programme (IFP)': [
-          'Higher Education Access Programme in Physical Science',
-          'Higher Education Access Programme in Humanities'
-        ]
-      },
-      'May': {
-        'Faculty of Business Management (FBM)': [
-          'Bachelor of Business Administration',
-          'Bachelor of Public Administration',
-          'Bachelor of Procurement & Logistics Management',
-          'Bachelor of Human Resource Management',
-          'Bachelor of Tourism & Hotel Management',
-          'Master of Business Administration (MBA)'
-        ],
-        'Faculty of Science and Technology (FST)': [
-          'CISCO (3 months)',
-          'Bachelor of Information Technology',
-          'Bachelor of Science in Computer Science',
-          'Bachelor of Science in Environmental Science & Management',
-          'Bachelor of Science in Software Engineering',
-          'Bachelor of Science in Climate-Smart Agriculture',
-          'Master of Information Technology (MIT)'
-        ]
-      },
-      'August': {
-        'Faculty of Business Management (FBM)': [
-          'Bachelor of Business Administration',
-          'Bachelor of Public Administration',
-          'Bachelor of Procurement & Logistics Management',
-          'Bachelor of Human Resource Management',
-          'Bachelor of Tourism & Hotel Management',
-          'Master of Business Administration (MBA)'
-        ],
-        'Faculty of Science and Technology (FST)': [
-          'CISCO (3 months)',
-          'Bachelor of Information Technology',
-          'Bachelor of Science in Computer Science',
-          'Bachelor of Science in Environmental Science & Management',
-          'Bachelor of Science in Software Engineering',
-          'Bachelor of Science in Climate-Smart Agriculture',
-          'Master of Information Technology (MIT)'
-        ],
-        'Faculty of Engineering (FOE)': [
-          'Diploma in Architecture',
-          'Diploma in Civil Engineering',
-          'Diploma in Electrical Engineering',
-          'Bachelor of Architecture',
-          'Bachelor of Science in Civil Engineering',
-          'Bachelor of Science in Electrical Engineering',
-          'Bachelor of Science in Petroleum Engineering',
-          'Bachelor of Science in Mining Engineering',
-          'Bachelor of Science in Mechatronics & Robotics Engineering',
-          'Bachelor of Science in Communications Engineering'
-        ],
-        'Faculty of Law and Humanities (FLH)': [
-          'Bachelor of Laws (LLB)',
-          'Bachelor of International Relations & Diplomatic Studies',
-          'Bachelor of Journalism & Communication Studies',
-          'Master of International Relations & Diplomatic Studies'
-        ],
-        'International Foundation Programme (IFP)': [
-          'Higher Education Access Programme in Physical Science',
-          'Higher Education Access Programme in Humanities'
-        ]
-      }
-    },
-    'Online': {
-      'January': {
-        'Faculty of Business Management (FBM)': [
-          'Bachelor of Business Administration',
-          'Master of Business Administration (MBA)'
-        ],
-        'Faculty of Science and Technology (FST)': [
-          'Bachelor of Information Technology'
-        ],
-        'Faculty of Law and Humanities (FLH)': [
-          'Bachelor of Laws (LLB)'
-        ],
-        'International Foundation Programme (IFP)': [
-          'International Foundation Programme (Physical Science)',
-          'International Foundation Programme (Humanities)'
-        ]
-      },
-      'May': {
-        'Faculty of Business Management (FBM)': [
-          'Bachelor of Business Administration',
-          'Master of Business Administration (MBA)'
-        ],
-        'Faculty of Science and Technology (FST)': [
-          'Bachelor of Information Technology'
-        ]
-      },
-      'August': {
-        'Faculty of Business Management (FBM)': [
-          'Bachelor of Business Administration',
-          'Master of Business Administration (MBA)'
-        ],
-        'Faculty of Science and Technology (FST)': [
-          'Bachelor of Information Technology'
-        ],
-        'Faculty of Law and Humanities (FLH)': [
-          'Bachelor of Laws (LLB)'
-        ],
-        'International Foundation Programme (IFP)': [
-          'International Foundation Programme (Physical Science)',
-          'International Foundation Programme (Humanities)'
-        ]
-      }
-    }
-  };
-
   // Get available programs grouped by faculty based on mode of study and intake
   const getAvailablePrograms = () => {
     const { modeOfStudy, intake } = applicationData;
@@ -1864,13 +2053,98 @@ export default function ApplicationPage() {
       return {};
     }
     
-    return programData[modeOfStudy as keyof typeof programData]?.[intake as keyof typeof programData['On Campus']] || {};
+    return groupProgramsByFaculty(
+      filterPrograms(programCatalog, modeOfStudy, intake)
+    );
+  };
+
+  // Entry-requirement check against the applicant's education history (null until history is added)
+  const getProgramEligibility = (program: ProgramCatalogEntry | undefined): EligibilityResult | null =>
+    program
+      ? evaluateEligibility(program, {
+          educationHistory: applicationData.educationHistory,
+          dateOfBirth: applicationData.dateOfBirth,
+        })
+      : null;
+
+  const getProgramOptionLabel = (program: ProgramCatalogEntry) => {
+    const eligibility = getProgramEligibility(program);
+    return eligibility ? `${program.name} (${ELIGIBILITY_STATUS_LABELS[eligibility.status]})` : program.name;
+  };
+
+  const renderEligibilityNotice = (programName: string) => {
+    const eligibility = getProgramEligibility(findProgramByName(programCatalog, programName));
+    if (!eligibility) return null;
+
+    const styles = {
+      eligible: { container: 'bg-green-50 border-green-200', icon: 'ri-checkbox-circle-line text-green-600', text: 'text-green-800' },
+      conditional: { container: 'bg-amber-50 border-amber-200', icon: 'ri-error-warning-line text-amber-600', text: 'text-amber-800' },
+      ineligible: { container: 'bg-red-50 border-red-200', icon: 'ri-close-circle-line text-red-600', text: 'text-red-800' },
+    }[eligibility.status];
+
+    return (
+      <div className={`mt-2 p-3 border rounded-lg ${styles.container}`}>
+        <div className="flex items-start">
+          <i className={`${styles.icon} mr-2 mt-0.5`}></i>
+          <div>
+            <p className={`text-sm font-medium ${styles.text}`}>
+              {ELIGIBILITY_STATUS_LABELS[eligibility.status]} - {eligibility.route}
+            </p>
+            <ul className={`text-xs mt-1 space-y-0.5 ${styles.text}`}>
+              {eligibility.reasons.map((reason) => (
+                <li key={reason}>• {reason}</li>
+              ))}
+            </ul>
+            {eligibility.status === 'ineligible' && (
+              <p className="text-xs text-red-700 mt-1">
+                You can still apply, but admissions is likely to decline this choice. Consider a program you are eligible for.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Intake options for the selected mode of study; intakes past their late cutoff are hidden.
+  // A submitted application keeps its current intake so it can still be edited.
+  const getIntakeOptions = () => {
+    return getProgramIntakes(programCatalog, applicationData.modeOfStudy)
+      .flatMap((intakeName) => {
+        const openIntake = findOpenIntake(intakeCalendar, intakeName);
+
+        if (openIntake) {
+          const deadline = getIntakeDeadline(openIntake);
+          return [{
+            value: intakeName,
+            label: `${formatIntakeLabel(openIntake)}${deadline.isLate ? ' (late applications)' : ''}`,
+          }];
+        }
+
+        return submittedApplication?.preferredIntake === intakeName
+          ? [{ value: intakeName, label: intakeName }]
+          : [];
+      });
+  };
+
+  // Second choice options: same mode/intake filter, excluding the first choice
+  const getSecondChoicePrograms = () => {
+    const { modeOfStudy, intake, program } = applicationData;
+    
+    if (!modeOfStudy || !intake) {
+      return {};
+    }
+    
+    return groupProgramsByFaculty(
+      filterPrograms(programCatalog, modeOfStudy, intake)
+        .filter((entry) => entry.name !== program)
+    );
   };
 
   // Get total count of programs across all faculties
   const getTotalProgramCount = () => {
     const programs = getAvailablePrograms();
-    return Object.values(programs).reduce((total: number, facultyPrograms) => total + (facultyPrograms as string[]).length, 0);
+    return Object.values(programs).reduce((total, facultyPrograms) => total + facultyPrograms.length, 0);
   };
 
   // Get form completion percentage (payment temporarily removed)
@@ -2111,11 +2385,32 @@ export default function ApplicationPage() {
         </div>
       )}
       
+      {draftConflict && (
+        <DraftConflictDialog
+          conflicts={draftConflict.conflicts}
+          savedAt={draftConflict.remote.lastSavedAt}
+          onResolve={handleResolveDraftConflict}
+        />
+      )}
+
       {/* Loading State */}
       {isLoadingApplication && (
         applicationMode === 'view' ? <ApplicationViewSkeleton /> : <ApplicationSkeleton />
       )}
 
+      {!isLoadingApplication && (
+        <ApplicationSwitcher
+          applications={liveApplications}
+          drafts={drafts}
+          activeApplicationId={submittedApplication?.id ?? null}
+          activeDraftId={submittedApplication ? null : draftId}
+          isCreating={isCreatingApplication}
+          onSelectApplication={(applicationId) => router.push(`/dashboard/application?application=${applicationId}`)}
+          onSelectDraft={(id) => router.push(`/dashboard/application?draft=${id}`)}
+          onStartNew={handleStartNewApplication}
+        />
+      )}
+
       {/* Submitted Application View */}
       {!isLoadingApplication && applicationMode === 'view' && submittedApplication && (
         <div className="space-y-6">
@@ -2170,6 +2465,11 @@ export default function ApplicationPage() {
               <div>
                 <h1 className="text-2xl font-bold text-slate-800">My Application</h1>
                 <p className="text-sm text-slate-500">Submitted on {formatDate(submittedApplication.submittedAt)}</p>
+                {submittedApplication.reference && (
+                  <p className="text-sm text-slate-500 mt-1">
+                    Reference <span className="font-mono font-semibold text-slate-800">{submittedApplication.reference}</span>
+                  </p>
+                )}
               </div>
               
               <div className="flex flex-col sm:items-end gap-2">
@@ -2179,6 +2479,8 @@ export default function ApplicationPage() {
                   </span>
                 </div>
                 
+                <ApplicationSummaryButton application={submittedApplication} />
+
                 {/* Edit Application Button */}
                 <button
                   onClick={() => {
@@ -2192,7 +2494,9 @@ export default function ApplicationPage() {
                       dateOfBirth: submittedApplication.dateOfBirth || '',
                       gender: submittedApplication.gender || '',
                       postalAddress: submittedApplication.postalAddress || '',
+                      educationHistory: submittedApplication.educationHistory || [],
                       program: submittedApplication.preferredProgram || '',
+                      secondaryProgram: submittedApplication.secondaryProgram || '',
                       modeOfStudy: submittedApplication.modeOfStudy || '',
                       intake: submittedApplication.preferredIntake || '',
                       sponsorTelephone: submittedApplication.sponsorTelephone || '',
@@ -2204,9 +2508,11 @@ export default function ApplicationPage() {
                     setIsEditing(true);
                     setActiveSection('personal');
                   }}
-                  className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors text-sm flex items-center gap-2"
+                  disabled={isApplicationLocked}
+                  title={isApplicationLocked ? 'Locked while admissions reviews your withdrawal or deferral request' : ''}
+                  className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <i className="ri-edit-line"></i>
+                  <i className={isApplicationLocked ? 'ri-lock-line' : 'ri-edit-line'}></i>
                   Edit Application
                 </button>
               </div>
@@ -2287,6 +2593,45 @@ export default function ApplicationPage() {
             </div>
           </div>
 
+          {/* Education History */}
+          <div className="bg-white rounded-lg border border-slate-200 p-6">
+            <h3 className="text-lg font-semibold text-slate-800 mb-4">
+              <i className="ri-book-open-line mr-2"></i>
+              Education History
+            </h3>
+            
+            {submittedApplication.educationHistory && submittedApplication.educationHistory.length > 0 ? (
+              <div className="space-y-4">
+                {submittedApplication.educationHistory.map((entry) => (
+                  <div key={entry.id} className="p-4 bg-slate-50 rounded-lg">
+                    <div className="flex flex-col sm:flex-row sm:justify-between gap-1 mb-2">
+                      <div>
+                        <p className="text-slate-800 font-medium">{describeQualification(entry)}</p>
+                        <p className="text-sm text-slate-600">{entry.institution}</p>
+                      </div>
+                      <div className="text-sm text-slate-600 sm:text-right">
+                        <p>Completed {entry.yearCompleted}</p>
+                        {entry.indexNumber && <p>Index No. {entry.indexNumber}</p>}
+                      </div>
+                    </div>
+                    {entry.subjects.length > 0 && (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 mt-2">
+                        {entry.subjects.map((subject, index) => (
+                          <div key={index} className="flex justify-between text-sm border-b border-slate-200 py-1">
+                            <span className="text-slate-700">{subject.subject}</span>
+                            <span className="text-slate-800 font-medium">{subject.grade}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-slate-500 italic">No education history provided. Edit your application to add your qualifications.</p>
+            )}
+          </div>
+
           {/* Program Information */}
           <div className="bg-white rounded-lg border border-slate-200 p-6">
             <h3 className="text-lg font-semibold text-slate-800 mb-4">
@@ -2296,10 +2641,15 @@ export default function ApplicationPage() {
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
-                <label className="block text-sm font-medium text-slate-600 mb-1">Preferred Program</label>
+                <label className="block text-sm font-medium text-slate-600 mb-1">First Choice Program</label>
                 <p className="text-slate-800 font-medium">{submittedApplication.preferredProgram}</p>
               </div>
               
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">Second Choice Program</label>
+                <p className="text-slate-800">{submittedApplication.secondaryProgram || 'Not selected'}</p>
+              </div>
+              
               <div>
                 <label className="block text-sm font-medium text-slate-600 mb-1">Mode of Study</label>
                 <p className="text-slate-800 capitalize">{submittedApplication.modeOfStudy.replace('_', ' ')}</p>
@@ -2488,7 +2838,9 @@ export default function ApplicationPage() {
                         dateOfBirth: submittedApplication.dateOfBirth || '',
                         gender: submittedApplication.gender || '',
                         postalAddress: submittedApplication.postalAddress || '',
+                        educationHistory: submittedApplication.educationHistory || [],
                         program: submittedApplication.preferredProgram || '',
+                        secondaryProgram: submittedApplication.secondaryProgram || '',
                         modeOfStudy: submittedApplication.modeOfStudy || '',
                         intake: submittedApplication.preferredIntake || '',
                         sponsorTelephone: submittedApplication.sponsorTelephone || '',
@@ -2503,7 +2855,8 @@ export default function ApplicationPage() {
                         academicDocuments: [],
                       });
                     }}
-                    className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors text-sm whitespace-nowrap"
+                    disabled={isApplicationLocked}
+                    className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors text-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <i className="ri-upload-line mr-2"></i>
                     Edit Application or Upload Documents
@@ -2513,6 +2866,9 @@ export default function ApplicationPage() {
             )}
           </div>
 
+          {/* Withdrawal / deferral requests */}
+          <ApplicationRequestActions application={submittedApplication} />
+
           {/* Contact Information */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
             <h3 className="text-lg font-semibold text-blue-800 mb-2">
@@ -3268,7 +3624,7 @@ export default function ApplicationPage() {
               
               <div className="mt-6 flex flex-col sm:flex-row sm:justify-between gap-3">
                 <button
-                  onClick={() => handleSectionClick('program')}
+                  onClick={() => handleSectionClick('education')}
                   disabled={!isSectionCompleted('personal')}
                   className={`px-4 py-2 text-sm rounded-lg transition-colors ${
                     isSectionCompleted('personal')
@@ -3277,7 +3633,7 @@ export default function ApplicationPage() {
                   }`}
                   title={!isSectionCompleted('personal') ? 'Please complete all required fields first' : ''}
                 >
-                  Next: Program Selection
+                  Next: Education History
                   <i className="ri-arrow-right-line ml-1"></i>
                 </button>
 
@@ -3291,7 +3647,7 @@ export default function ApplicationPage() {
                   }
                   disabled={
                     isSubmitting || 
-                    (!submittedApplication && (!isSectionCompleted('personal') || !isSectionCompleted('program') || !isSectionCompleted('additional')))
+                    (!submittedApplication && (!isSectionCompleted('personal') || !isSectionCompleted('education') || !isSectionCompleted('program') || !isSectionCompleted('additional')))
                   }
                   className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                 >
@@ -3332,6 +3688,65 @@ export default function ApplicationPage() {
           )}
 
           {/* Program Selection Section - Matching frontend ProgramStep */}
+          {activeSection === 'education' && (
+            <div className="bg-white rounded-lg p-4 md:p-6 border border-slate-200">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 gap-2">
+                <h2 className="text-base md:text-lg font-semibold text-slate-800">Education History</h2>
+                <span className={`text-xs px-2 py-1 rounded-full w-fit ${
+                  isSectionCompleted('education') 
+                    ? 'bg-green-100 text-green-700' 
+                    : 'bg-yellow-100 text-yellow-700'
+                }`}>
+                  {isSectionCompleted('education') ? 'Completed' : 'In Progress'}
+                </span>
+              </div>
+
+              {renderAutosaveIndicator()}
+
+              {/* Section Requirements Indicator */}
+              {!isSectionCompleted('education') && (
+                <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                  <div className="flex items-center">
+                    <i className="ri-information-line text-blue-600 mr-2"></i>
+                    <p className="text-sm text-blue-800">
+                      Add each qualification you hold, starting with O-Level (or equivalent), with the grade you obtained in every subject.
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <EducationHistoryForm
+                entries={applicationData.educationHistory}
+                onChange={handleEducationHistoryChange}
+                isEditing={isEditing}
+              />
+              
+              <div className="mt-6 flex flex-col sm:flex-row sm:justify-between gap-3">
+                <button
+                  onClick={() => handleSectionClick('personal')}
+                  className="px-4 py-2 text-sm border border-slate-200 text-slate-800 rounded-lg hover:border-red-800 hover:text-red-800 transition-colors"
+                >
+                  <i className="ri-arrow-left-line mr-1"></i>
+                  Previous: Personal Details
+                </button>
+                
+                <button
+                  onClick={() => handleSectionClick('program')}
+                  disabled={!isSectionCompleted('education')}
+                  className={`px-4 py-2 text-sm rounded-lg transition-colors ${
+                    isSectionCompleted('education')
+                      ? 'bg-red-800 text-white hover:bg-[#600000]'
+                      : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                  }`}
+                  title={!isSectionCompleted('education') ? 'Please complete all required fields first' : ''}
+                >
+                  Next: Program Selection
+                  <i className="ri-arrow-right-line ml-1"></i>
+                </button>
+              </div>
+            </div>
+          )}
+
           {activeSection === 'program' && (
             <div className="bg-white rounded-lg p-4 md:p-6 border border-slate-200">
               <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 gap-2">
@@ -3372,8 +3787,9 @@ export default function ApplicationPage() {
                       className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-white"
                     >
                       <option value="">Select Mode</option>
-                      <option value="On Campus">On Campus</option>
-                      <option value="Online">Online</option>
+                      {getProgramModes(programCatalog).map((mode) => (
+                        <option key={mode} value={mode}>{mode}</option>
+                      ))}
                     </select>
                   ) : (
                     <input
@@ -3389,16 +3805,38 @@ export default function ApplicationPage() {
                     Intake <span className="text-red-600">*</span>
                   </label>
                   {isEditing ? (
-                    <select
-                      value={applicationData.intake}
-                      onChange={(e) => handleInputChange('intake', e.target.value)}
-                      className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-white"
-                    >
-                      <option value="">Select Intake</option>
-                      <option value="January">January</option>
-                      <option value="May">May</option>
-                      <option value="August">August</option>
-                    </select>
+                    <div>
+                      <select
+                        value={applicationData.intake}
+                        onChange={(e) => handleInputChange('intake', e.target.value)}
+                        className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-white"
+                        disabled={Boolean(intakeCalendarError)}
+                      >
+                        <option value="">Select Intake</option>
+                        {getIntakeOptions().map((intake) => (
+                          <option key={intake.value} value={intake.value}>{intake.label}</option>
+                        ))}
+                      </select>
+
+                      {/* The calendar could not be read, so no intake can be offered */}
+                      {intakeCalendarError && (
+                        <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                          <div className="flex items-start">
+                            <i className="ri-error-warning-line text-red-600 mr-2 mt-0.5"></i>
+                            <div>
+                              <p className="text-sm text-red-800">{intakeCalendarError}</p>
+                              <button
+                                type="button"
+                                onClick={refetchIntakeCalendar}
+                                className="text-xs font-medium text-red-700 underline mt-1"
+                              >
+                                Try again
+                              </button>
+                            </div>
+                          </div>
+                        </div>
+                      )}
+                    </div>
                   ) : (
                     <input
                       type="text"
@@ -3411,7 +3849,7 @@ export default function ApplicationPage() {
                 
                 <div className="sm:col-span-2">
                   <label className="block text-sm font-medium text-slate-800 mb-1">
-                    Program <span className="text-red-600">*</span>
+                    First Choice Program <span className="text-red-600">*</span>
                   </label>
                   {isEditing ? (
                     <div>
@@ -3419,25 +3857,29 @@ export default function ApplicationPage() {
                         value={applicationData.program}
                         onChange={(e) => handleInputChange('program', e.target.value)}
                         className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-white"
-                        disabled={!applicationData.modeOfStudy || !applicationData.intake}
+                        disabled={!applicationData.modeOfStudy || !applicationData.intake || programCatalogLoading}
                       >
                         <option value="">
-                          {!applicationData.modeOfStudy || !applicationData.intake 
-                            ? 'Please select Mode of Study and Intake first' 
-                            : 'Select Program'
+                          {programCatalogLoading
+                            ? 'Loading programs...'
+                            : !applicationData.modeOfStudy || !applicationData.intake 
+                              ? 'Please select Mode of Study and Intake first' 
+                              : 'Select Program'
                           }
                         </option>
                         {Object.entries(getAvailablePrograms()).map(([faculty, programs]) => (
                           <optgroup key={faculty} label={faculty}>
-                            {(programs as string[]).map((program) => (
-                              <option key={program} value={program}>
-                                {program}
+                            {programs.map((program) => (
+                              <option key={program.id} value={program.name}>
+                                {getProgramOptionLabel(program)}
                               </option>
                             ))}
                           </optgroup>
                         ))}
                       </select>
                       
+                      {renderEligibilityNotice(applicationData.program)}
+                      
                       {/* Program availability info */}
                       {applicationData.modeOfStudy && applicationData.intake && (
                         <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
@@ -3479,6 +3921,42 @@ export default function ApplicationPage() {
                   )}
                 </div>
                 
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-slate-800 mb-1">
+                    Second Choice Program
+                    <span className="text-xs text-slate-500 ml-2">(Optional - considered if your first choice is full or you do not meet its requirements)</span>
+                  </label>
+                  {isEditing ? (
+                    <select
+                      value={applicationData.secondaryProgram}
+                      onChange={(e) => handleInputChange('secondaryProgram', e.target.value)}
+                      className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-white"
+                      disabled={!applicationData.program || programCatalogLoading}
+                    >
+                      <option value="">
+                        {!applicationData.program ? 'Please select your first choice first' : 'No second choice'}
+                      </option>
+                      {Object.entries(getSecondChoicePrograms()).map(([faculty, programs]) => (
+                        <optgroup key={faculty} label={faculty}>
+                          {programs.map((program) => (
+                            <option key={program.id} value={program.name}>
+                              {getProgramOptionLabel(program)}
+                            </option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={applicationData.secondaryProgram || 'Not selected'}
+                      readOnly
+                      className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-[#f7f7f7]"
+                    />
+                  )}
+                  {isEditing && applicationData.secondaryProgram && renderEligibilityNotice(applicationData.secondaryProgram)}
+                </div>
+                
                 {/* Academic Documents Section */}
                 <div className="sm:col-span-2">
                   <label className="block text-sm font-medium text-slate-800 mb-2">
@@ -3943,11 +4421,11 @@ export default function ApplicationPage() {
               
               <div className="mt-6 flex flex-col sm:flex-row sm:justify-between gap-3">
                 <button
-                  onClick={() => handleSectionClick('personal')}
+                  onClick={() => handleSectionClick('education')}
                   className="px-4 py-2 text-sm border border-slate-200 text-slate-800 rounded-lg hover:border-red-800 hover:text-red-800 transition-colors"
                 >
                   <i className="ri-arrow-left-line mr-1"></i>
-                  Previous: Personal Details
+                  Previous: Education History
                 </button>
                 
                 <div className="flex flex-col sm:flex-row gap-3">
@@ -3975,7 +4453,7 @@ export default function ApplicationPage() {
                     }
                     disabled={
                       isSubmitting || 
-                      (!submittedApplication && (!isSectionCompleted('personal') || !isSectionCompleted('program') || !isSectionCompleted('additional')))
+                      (!submittedApplication && (!isSectionCompleted('personal') || !isSectionCompleted('education') || !isSectionCompleted('program') || !isSectionCompleted('additional')))
                     }
                     className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                   >
@@ -4169,7 +4647,7 @@ export default function ApplicationPage() {
                   }
                   disabled={
                     isSubmitting || 
-                    (!submittedApplication && (!isSectionCompleted('personal') || !isSectionCompleted('program') || !isSectionCompleted('additional')))
+                    (!submittedApplication && (!isSectionCompleted('personal') || !isSectionCompleted('education') || !isSectionCompleted('program') || !isSectionCompleted('additional')))
                   }
                   className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                 >
@@ -4317,7 +4795,7 @@ export default function ApplicationPage() {
                   }
                   disabled={
                     isSubmitting || 
-                    (!submittedApplication && (!isSectionCompleted('personal') || !isSectionCompleted('program') || !isSectionCompleted('additional')))
+                    (!submittedApplication && (!isSectionCompleted('personal') || !isSectionCompleted('education') || !isSectionCompleted('program') || !isSectionCompleted('additional')))
                   }
                   className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                 >
@@ -4360,3 +4838,11 @@ export default function ApplicationPage() {
     </div>
   );
 }
+
+export default function ApplicationPage() {
+  return (
+    <Suspense fallback={<ApplicationSkeleton />}>
+      <ApplicationPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Application } from '@/lib/applicationService';
+import { admissionOfferService, type OfferResponse } from '@/lib/admissionOfferService';
+import { ToastContainer, useToast } from '@/components/Toast';
+
+interface AdmissionOfferCardProps {
+  application: Application;
+}
+
+const RESPONSE_LABELS: Record<OfferResponse, { label: string; color: string; icon: string }> = {
+  accepted: { label: 'Offer Accepted', color: 'bg-green-100 text-green-700', icon: 'ri-checkbox-circle-line' },
+  declined: { label: 'Offer Declined', color: 'bg-slate-100 text-slate-700', icon: 'ri-close-circle-line' },
+  deferral_requested: { label: 'Deferral Requested', color: 'bg-yellow-100 text-yellow-800', icon: 'ri-calendar-event-line' },
+};
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+    : '';
+
+export default function AdmissionOfferCard({ application }: AdmissionOfferCardProps) {
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+  const [letterUrl, setLetterUrl] = useState<string | null>(null);
+  const [pendingResponse, setPendingResponse] = useState<OfferResponse | null>(null);
+  const [responseNote, setResponseNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const offer = application.offer;
+
+  useEffect(() => {
+    if (!offer) {
+      setLetterUrl(null);
+      return;
+    }
+
+    admissionOfferService.getOfferLetterUrl(offer)
+      .then(setLetterUrl)
+      .catch((error) => {
+        console.error('Failed to load offer letter:', error);
+        setLetterUrl(null);
+      });
+  }, [offer]);
+
+  if (!offer) {
+    return null;
+  }
+
+  const canRespond = admissionOfferService.canRespond(application);
+  const deadlinePassed = admissionOfferService.isDeadlinePassed(offer);
+  const daysLeft = offer.responseDeadline
+    ? Math.ceil((new Date(offer.responseDeadline).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+    : null;
+
+  const submitResponse = async (response: OfferResponse) => {
+    setIsSubmitting(true);
+    const result = await admissionOfferService.respondToOffer(application, response, responseNote);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      showSuccess('Response Recorded', result.message, 6000);
+      setPendingResponse(null);
+      setResponseNote('');
+    } else {
+      showError('Response Failed', result.message, 6000);
+    }
+  };
+
+  const checklist = application.enrolmentChecklist || [];
+  const completedSteps = checklist.filter((item) => item.completed).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-green-200 p-6">
+      <ToastContainer toasts={toasts} onClose={removeToast} />
+
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <div className="h-10 w-10 bg-green-100 rounded-lg flex items-center justify-center mr-3">
+            <i className="ri-award-line text-green-600"></i>
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Admission Offer</h2>
+            <p className="text-sm text-slate-600">{application.preferredProgram}</p>
+          </div>
+        </div>
+        {offer.response && (
+          <span className={`text-xs px-2 py-1 rounded-full font-medium flex items-center gap-1 ${RESPONSE_LABELS[offer.response].color}`}>
+            <i className={RESPONSE_LABELS[offer.response].icon}></i>
+            {RESPONSE_LABELS[offer.response].label}
+          </span>
+        )}
+      </div>
+
+      {/* Offer letter */}
+      <div className="flex items-center justify-between p-4 border border-slate-200 rounded-lg mb-4">
+        <div className="flex items-center">
+          <i className="ri-file-pdf-line text-red-600 text-2xl mr-3"></i>
+          <div>
+            <p className="font-medium text-slate-900">Offer Letter</p>
+            {offer.issuedAt && <p className="text-xs text-slate-500">Issued {formatDate(offer.issuedAt)}</p>}
+          </div>
+        </div>
+        {letterUrl ? (
+          <a
+            href={letterUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-red-600 hover:text-red-700 font-medium text-sm flex items-center"
+          >
+            <i className="ri-external-link-line mr-1"></i>
+            View PDF
+          </a>
+        ) : (
+          <span className="text-xs text-slate-500">Letter not yet available</span>
+        )}
+      </div>
+
+      {/* Offer terms */}
+      {offer.terms.length > 0 && (
+        <div className="mb-4">
+          <h3 className="font-semibold text-slate-900 mb-2">Offer Terms</h3>
+          <ul className="space-y-2">
+            {offer.terms.map((term, index) => (
+              <li key={index} className="flex items-start text-sm text-slate-700">
+                <i className="ri-checkbox-blank-circle-fill text-[6px] text-slate-400 mr-2 mt-2"></i>
+                {term}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Deadline */}
+      {offer.responseDeadline && !offer.response && (
+        <div className={`p-3 rounded-lg mb-4 text-sm ${deadlinePassed ? 'bg-red-50 text-red-800' : 'bg-amber-50 text-amber-800'}`}>
+          <i className="ri-time-line mr-1"></i>
+          {deadlinePassed
+            ? `The response deadline (${formatDate(offer.responseDeadline)}) has passed. Please contact admissions.`
+            : `Please respond by ${formatDate(offer.responseDeadline)}${daysLeft !== null ? ` (${daysLeft} day${daysLeft === 1 ? '' : 's'} left)` : ''}.`}
+        </div>
+      )}
+
+      {offer.response && offer.respondedAt && (
+        <p className="text-sm text-slate-600 mb-4">You responded on {formatDate(offer.respondedAt)}.</p>
+      )}
+
+      {/* Response actions */}
+      {canRespond && !pendingResponse && (
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={() => submitResponse('accepted')}
+            disabled={isSubmitting}
+            className="flex-1 h-11 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 flex items-center justify-center"
+          >
+            {isSubmitting ? (
+              <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2"></div>
+            ) : (
+              <i className="ri-check-line mr-2"></i>
+            )}
+            Accept Offer
+          </button>
+          <button
+            onClick={() => setPendingResponse('deferral_requested')}
+            disabled={isSubmitting}
+            className="flex-1 h-11 bg-yellow-50 hover:bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Request Deferral
+          </button>
+          <button
+            onClick={() => setPendingResponse('declined')}
+            disabled={isSubmitting}
+            className="flex-1 h-11 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Decline
+          </button>
+        </div>
+      )}
+
+      {/* Confirmation for decline / deferral */}
+      {pendingResponse && (
+        <div className="p-4 border border-slate-200 rounded-lg">
+          <p className="font-medium text-slate-900 mb-2">
+            {pendingResponse === 'declined'
+              ? 'Are you sure you want to decline this offer?'
+              : 'Request to defer your admission to a later intake'}
+          </p>
+          <textarea
+            value={responseNote}
+            onChange={(e) => setResponseNote(e.target.value)}
+            rows={3}
+            placeholder={pendingResponse === 'declined' ? 'Reason (optional)' : 'Tell us why you would like to defer (optional)'}
+            className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm mb-3"
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={() => submitResponse(pendingResponse)}
+              disabled={isSubmitting}
+              className="h-10 px-4 bg-red-800 hover:bg-red-900 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Submitting...' : 'Confirm'}
+            </button>
+            <button
+              onClick={() => {
+                setPendingResponse(null);
+                setResponseNote('');
+              }}
+              disabled={isSubmitting}
+              className="h-10 px-4 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-medium transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Enrolment checklist */}
+      {offer.response === 'accepted' && checklist.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-slate-200">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-slate-900">Enrolment Checklist</h3>
+            <span className="text-sm text-slate-600">{completedSteps} of {checklist.length} completed</span>
+          </div>
+          <div className="space-y-3">
+            {checklist.map((item) => (
+              <div key={item.id} className="flex items-start p-3 rounded-lg border border-slate-200">
+                <div className={`h-7 w-7 rounded-full flex items-center justify-center mr-3 flex-shrink-0 ${
+                  item.completed ? 'bg-green-100 text-green-600' : 'bg-slate-100 text-slate-400'
+                }`}>
+                  <i className={item.completed ? 'ri-check-line text-sm' : 'ri-time-line text-sm'}></i>
+                </div>
+                <div>
+                  <p className="font-medium text-slate-900 text-sm">{item.title}</p>
+                  <p className="text-xs text-slate-600">
+                    {item.completed && item.completedAt ? `Completed on ${formatDate(item.completedAt)}` : item.description}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
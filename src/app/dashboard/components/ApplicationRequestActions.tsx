@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import type { Application } from '@/lib/applicationService';
+import {
+  applicationRequestService,
+  MIN_REQUEST_REASON_LENGTH,
+  REQUEST_TYPE_LABELS,
+  type ApplicationRequestType,
+} from '@/lib/applicationRequestService';
+import { findProgramByName, getProgramIntakes } from '@/lib/programCatalog';
+import { useProgramCatalog } from '@/hooks/useProgramCatalog';
+import { ToastContainer, useToast } from '@/components/Toast';
+
+interface ApplicationRequestActionsProps {
+  application: Application;
+}
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+    : '';
+
+export default function ApplicationRequestActions({ application }: ApplicationRequestActionsProps) {
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+  const { programs } = useProgramCatalog();
+  const [requestType, setRequestType] = useState<ApplicationRequestType | null>(null);
+  const [reason, setReason] = useState('');
+  const [targetIntake, setTargetIntake] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const request = application.pendingRequest;
+  const isLocked = applicationRequestService.isApplicationLocked(application);
+  const canSubmit = applicationRequestService.canSubmitRequest(application);
+
+  // Deferral targets: intakes the catalogue offers for this program and mode
+  const catalogEntry = findProgramByName(programs, application.preferredProgram);
+  const intakeOptions = catalogEntry
+    ? catalogEntry.intakes
+    : getProgramIntakes(programs, application.modeOfStudy);
+
+  const resetForm = () => {
+    setRequestType(null);
+    setReason('');
+    setTargetIntake('');
+    setErrors([]);
+  };
+
+  const handleSubmit = async () => {
+    if (!requestType) return;
+
+    const input = { type: requestType, reason, targetIntake: targetIntake || undefined };
+    const validationErrors = applicationRequestService.validateRequest(application, input);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await applicationRequestService.submitRequest(application, input);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      showSuccess('Request Sent', result.message, 6000);
+      resetForm();
+    } else {
+      showError('Request Failed', result.message, 6000);
+    }
+  };
+
+  if (!request && !canSubmit) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-6">
+      <ToastContainer toasts={toasts} onClose={removeToast} />
+
+      <h3 className="text-lg font-semibold text-slate-800 mb-4">
+        <i className="ri-settings-3-line mr-2"></i>
+        Manage Application
+      </h3>
+
+      {/* Latest request */}
+      {request && (
+        <div className={`p-4 rounded-lg border mb-4 ${
+          request.status === 'pending'
+            ? 'bg-amber-50 border-amber-200'
+            : request.status === 'approved'
+              ? 'bg-green-50 border-green-200'
+              : 'bg-slate-50 border-slate-200'
+        }`}>
+          <p className="font-medium text-slate-800">
+            {REQUEST_TYPE_LABELS[request.type]} request
+            {request.type === 'deferral' && request.targetIntake ? ` to ${request.targetIntake} intake` : ''}
+            {' – '}
+            {request.status === 'pending' ? 'awaiting decision' : request.status}
+          </p>
+          <p className="text-sm text-slate-600 mt-1">Submitted on {formatDate(request.createdAt)}</p>
+          {request.resolutionNote && (
+            <p className="text-sm text-slate-700 mt-2">{request.resolutionNote}</p>
+          )}
+          {isLocked && (
+            <p className="text-sm text-amber-800 mt-2">
+              <i className="ri-lock-line mr-1"></i>
+              Your application is locked for changes until admissions responds to this request.
+            </p>
+          )}
+        </div>
+      )}
+
+      {canSubmit && !requestType && (
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={() => setRequestType('deferral')}
+            className="flex-1 px-4 py-2 rounded-lg border border-yellow-300 bg-yellow-50 text-yellow-800 hover:bg-yellow-100 transition-colors text-sm font-medium"
+          >
+            <i className="ri-calendar-event-line mr-2"></i>
+            Defer to a later intake
+          </button>
+          <button
+            onClick={() => setRequestType('withdrawal')}
+            className="flex-1 px-4 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 transition-colors text-sm font-medium"
+          >
+            <i className="ri-logout-box-line mr-2"></i>
+            Withdraw application
+          </button>
+        </div>
+      )}
+
+      {requestType && (
+        <div className="space-y-3">
+          <p className="font-medium text-slate-800">
+            {requestType === 'deferral' ? 'Request a deferral' : 'Request to withdraw your application'}
+          </p>
+
+          {requestType === 'deferral' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Target intake <span className="text-red-600">*</span>
+              </label>
+              <select
+                value={targetIntake}
+                onChange={(e) => setTargetIntake(e.target.value)}
+                className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-white"
+              >
+                <option value="">Select Intake</option>
+                {intakeOptions.map((intake) => (
+                  <option key={intake} value={intake}>{intake}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Reason <span className="text-red-600">*</span>
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              placeholder={`Tell admissions why (at least ${MIN_REQUEST_REASON_LENGTH} characters)`}
+              className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 space-y-1">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-xs text-slate-500">
+            Your application will be locked for changes until admissions responds.
+          </p>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-red-800 hover:bg-red-900 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Submitting...' : 'Submit Request'}
+            </button>
+            <button
+              onClick={resetForm}
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useState } from 'react';
+import type { Application } from '@/lib/applicationService';
+import { applicationSummaryPdf } from '@/lib/applicationSummaryPdf';
+import { ToastContainer, useToast } from '@/components/Toast';
+
+interface ApplicationSummaryButtonProps {
+  application: Application;
+  className?: string;
+}
+
+/**
+ * Downloads a PDF copy of the submitted application, e.g. to share with a sponsor
+ */
+export default function ApplicationSummaryButton({ application, className }: ApplicationSummaryButtonProps) {
+  const { toasts, removeToast, showError } = useToast();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      await applicationSummaryPdf.download(application);
+    } catch (error) {
+      console.error('❌ Error generating application summary PDF:', error);
+      showError('Download Failed', 'We could not create your application summary. Please try again.', 6000);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <>
+      <ToastContainer toasts={toasts} onClose={removeToast} />
+      <button
+        onClick={handleDownload}
+        disabled={isGenerating}
+        className={
+          className ||
+          'bg-slate-100 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-200 transition-colors text-sm flex items-center gap-2 disabled:opacity-50'
+        }
+      >
+        <i className={isGenerating ? 'ri-loader-4-line animate-spin' : 'ri-file-download-line'}></i>
+        {isGenerating ? 'Preparing PDF...' : 'Download Summary (PDF)'}
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import type { Application, ApplicationDraft } from '@/lib/applicationService';
+
+interface ApplicationSwitcherProps {
+  applications: Application[];
+  drafts: ApplicationDraft[];
+  activeApplicationId: string | null;
+  activeDraftId: string | null;
+  isCreating: boolean;
+  onSelectApplication: (applicationId: string) => void;
+  onSelectDraft: (draftId: string) => void;
+  onStartNew: (sourceApplicationId: string | null) => void;
+}
+
+const formatShortDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '';
+
+// Drafts store the form state, which names the first choice `program`
+const getDraftProgram = (draft: ApplicationDraft) => (draft.formData as { program?: string }).program || '';
+
+/**
+ * Lists every submitted application and open draft so applicants can switch between them,
+ * and starts a new application prefilled from a previous one.
+ */
+export default function ApplicationSwitcher({
+  applications,
+  drafts,
+  activeApplicationId,
+  activeDraftId,
+  isCreating,
+  onSelectApplication,
+  onSelectDraft,
+  onStartNew,
+}: ApplicationSwitcherProps) {
+  const [isChoosingSource, setIsChoosingSource] = useState(false);
+  const [sourceApplicationId, setSourceApplicationId] = useState('');
+
+  if (applications.length === 0 && drafts.length <= 1) {
+    return null;
+  }
+
+  const itemClass = (isActive: boolean) =>
+    `flex-shrink-0 w-56 text-left p-3 rounded-lg border-2 transition-colors ${
+      isActive ? 'border-red-800 bg-red-50' : 'border-slate-200 bg-white hover:border-red-800/30'
+    }`;
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-medium text-slate-800">Your Applications</h2>
+        {!isChoosingSource && (
+          <button
+            onClick={() => {
+              setSourceApplicationId(activeApplicationId || applications[0]?.id || '');
+              setIsChoosingSource(true);
+            }}
+            disabled={isCreating}
+            className="text-sm text-red-800 hover:text-red-900 font-medium disabled:opacity-50"
+          >
+            <i className="ri-add-line mr-1"></i>
+            Start a new application
+          </button>
+        )}
+      </div>
+
+      {isChoosingSource && (
+        <div className="mb-3 p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+          <label className="block text-sm text-slate-700">Copy personal details and documents from</label>
+          <select
+            value={sourceApplicationId}
+            onChange={(e) => setSourceApplicationId(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-white"
+          >
+            {applications.map((application) => (
+              <option key={application.id} value={application.id}>
+                {application.preferredProgram} · {application.preferredIntake} ({application.status.replace(/_/g, ' ').toLowerCase()})
+              </option>
+            ))}
+            <option value="">Nothing - start with a blank form</option>
+          </select>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                onStartNew(sourceApplicationId || null);
+                setIsChoosingSource(false);
+              }}
+              disabled={isCreating}
+              className="px-4 py-2 bg-red-800 hover:bg-red-900 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {isCreating ? 'Creating...' : 'Create application'}
+            </button>
+            <button
+              onClick={() => setIsChoosingSource(false)}
+              className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {applications.map((application) => (
+          <button
+            key={application.id}
+            onClick={() => onSelectApplication(application.id)}
+            className={itemClass(application.id === activeApplicationId)}
+          >
+            <p className="text-sm font-medium text-slate-800 truncate">{application.preferredProgram}</p>
+            <p className="text-xs text-slate-500">{application.preferredIntake} intake</p>
+            <span className="inline-block mt-1 text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-700 font-medium">
+              {application.status.replace(/_/g, ' ').toUpperCase()}
+            </span>
+          </button>
+        ))}
+        {drafts.map((draft) => (
+          <button
+            key={draft.id}
+            onClick={() => onSelectDraft(draft.id)}
+            className={itemClass(draft.id === activeDraftId)}
+          >
+            <p className="text-sm font-medium text-slate-800 truncate">{getDraftProgram(draft) || 'New application'}</p>
+            <p className="text-xs text-slate-500">Last saved {formatShortDate(draft.lastSavedAt || draft.updatedAt)}</p>
+            <span className="inline-block mt-1 text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 font-medium">
+              DRAFT
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
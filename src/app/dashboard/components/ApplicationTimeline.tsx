@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { studentApplicationService, type Application } from '@/lib/applicationService';
+import type { ApplicantTimelineEntry } from '@/lib/applicationTimeline';
+
+interface ApplicationTimelineProps {
+  application: Application;
+}
+
+const STATUS_STYLES: Record<string, { icon: string; color: string }> = {
+  INTERESTED: { icon: 'ri-user-add-line', color: 'bg-slate-100 text-slate-600' },
+  APPLIED: { icon: 'ri-send-plane-line', color: 'bg-blue-100 text-blue-600' },
+  MISSING_DOCUMENT: { icon: 'ri-file-warning-line', color: 'bg-orange-100 text-orange-600' },
+  IN_REVIEW: { icon: 'ri-search-eye-line', color: 'bg-purple-100 text-purple-600' },
+  QUALIFIED: { icon: 'ri-medal-line', color: 'bg-indigo-100 text-indigo-600' },
+  ADMITTED: { icon: 'ri-award-line', color: 'bg-green-100 text-green-600' },
+  ENROLLED: { icon: 'ri-graduation-cap-line', color: 'bg-emerald-100 text-emerald-600' },
+  DEFERRED: { icon: 'ri-calendar-event-line', color: 'bg-yellow-100 text-yellow-700' },
+  EXPIRED: { icon: 'ri-time-line', color: 'bg-red-100 text-red-600' },
+};
+
+export default function ApplicationTimeline({ application }: ApplicationTimelineProps) {
+  const [entries, setEntries] = useState<ApplicantTimelineEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTimeline = async () => {
+      setLoading(true);
+      const timeline = await studentApplicationService.getApplicationTimeline(application);
+      if (!cancelled) {
+        setEntries(timeline);
+        setLoading(false);
+      }
+    };
+
+    void loadTimeline();
+
+    return () => {
+      cancelled = true;
+    };
+    // Reload whenever the application status changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [application.id, application.leadId, application.status, application.updatedAt]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center mb-6">
+        <div className="h-10 w-10 bg-purple-100 rounded-lg flex items-center justify-center mr-3">
+          <i className="ri-history-line text-purple-600"></i>
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Status History</h2>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((item) => (
+            <div key={item} className="flex items-start animate-pulse">
+              <div className="h-8 w-8 rounded-full bg-slate-200 mr-4"></div>
+              <div className="flex-1 space-y-2">
+                <div className="h-4 w-1/3 bg-slate-200 rounded"></div>
+                <div className="h-3 w-2/3 bg-slate-100 rounded"></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-slate-600">No status updates yet.</p>
+      ) : (
+        <ol className="relative">
+          {entries.map((entry, index) => {
+            const style = STATUS_STYLES[entry.status] || { icon: 'ri-information-line', color: 'bg-slate-100 text-slate-600' };
+            const isLast = index === entries.length - 1;
+
+            return (
+              <li key={entry.id} className="flex items-start">
+                <div className="flex flex-col items-center mr-4">
+                  <div className={`h-8 w-8 rounded-full flex items-center justify-center ${style.color}`}>
+                    <i className={`${style.icon} text-sm`}></i>
+                  </div>
+                  {!isLast && <div className="w-px flex-1 min-h-[24px] bg-slate-200"></div>}
+                </div>
+                <div className={`flex-1 ${isLast ? '' : 'pb-5'}`}>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="font-semibold text-slate-900">{entry.title}</h3>
+                    <span className="text-xs text-slate-500">
+                      {new Date(entry.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </span>
+                  </div>
+                  {entry.description && (
+                    <p className="text-sm text-slate-600 mt-1">{entry.description}</p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
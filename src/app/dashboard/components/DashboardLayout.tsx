@@ -7,7 +7,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardSidebar from './DashboardSidebar';
 import MobileNavigation from './MobileNavigation';
-import { studentApplicationService, type Application } from '@/lib/applicationService';
+import { studentApplicationService } from '@/lib/applicationService';
+import { useApplications } from '@/contexts/ApplicationsContext';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -20,8 +21,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const [isMobile, setIsMobile] = useState(false);
   const [openSidebar, setOpenSidebar] = useState(false);
   const [showProfileDropdown, setShowProfileDropdown] = useState(false);
-  const [applicationData, setApplicationData] = useState<Application | null>(null);
-  const [applicationLoading, setApplicationLoading] = useState(true);
+  const { latestApplication: applicationData, loading: applicationLoading } = useApplications();
   
   useEffect(() => {
     // Check if we're on client-side
@@ -61,41 +61,6 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [showProfileDropdown]);
 
-  // Load application data for real status
-  useEffect(() => {
-    const loadApplicationData = async () => {
-      if (!user?.email) {
-        setApplicationLoading(false);
-        return;
-      }
-
-      try {
-        const applications = await studentApplicationService.getApplicationsByEmail(user.email);
-        
-        if (applications.length > 0) {
-          // Use the most recent application
-          const mostRecentApp = applications.sort((a, b) => 
-            new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime()
-          )[0];
-          setApplicationData(mostRecentApp);
-        } else {
-          setApplicationData(null);
-        }
-      } catch (error) {
-        console.error('Failed to load application data:', error);
-        setApplicationData(null);
-      } finally {
-        setApplicationLoading(false);
-      }
-    };
-
-    if (user?.emailVerified) {
-      loadApplicationData();
-    } else {
-      setApplicationLoading(false);
-    }
-  }, [user]);
-
   const handleLogout = async () => {
     try {
       await signOut();
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDraftValue, type ConflictChoice, type DraftFieldConflict } from '@/lib/draftConflicts';
+
+interface DraftConflictDialogProps {
+  conflicts: DraftFieldConflict[];
+  savedAt?: string;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+}
+
+/**
+ * Shown when the draft was saved from another tab or device while this one had unsaved changes
+ * to the same fields. The applicant picks which value to keep for each field.
+ */
+export default function DraftConflictDialog({ conflicts, savedAt, onResolve }: DraftConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(() =>
+    Object.fromEntries(conflicts.map((conflict) => [conflict.field, 'local' as ConflictChoice]))
+  );
+
+  const optionClass = (isSelected: boolean) =>
+    `flex-1 text-left p-3 rounded-lg border-2 text-sm transition-colors ${
+      isSelected ? 'border-red-800 bg-red-50' : 'border-slate-200 hover:border-red-800/30'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center mb-2">
+          <div className="h-10 w-10 bg-amber-100 rounded-lg flex items-center justify-center mr-3">
+            <i className="ri-git-merge-line text-amber-600"></i>
+          </div>
+          <h2 className="text-lg font-bold text-slate-900">Your application was changed on another device</h2>
+        </div>
+        <p className="text-sm text-slate-600 mb-4">
+          {savedAt ? `It was saved elsewhere on ${new Date(savedAt).toLocaleString('en-US')}. ` : ''}
+          Your other changes have been combined. Choose which value to keep for these fields:
+        </p>
+
+        <div className="space-y-4">
+          {conflicts.map((conflict) => (
+            <div key={conflict.field}>
+              <p className="text-sm font-medium text-slate-800 mb-2">{conflict.label}</p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <button
+                  onClick={() => setChoices({ ...choices, [conflict.field]: 'local' })}
+                  className={optionClass(choices[conflict.field] === 'local')}
+                >
+                  <span className="block text-xs text-slate-500 mb-1">This device</span>
+                  <span className="text-slate-800 break-words">{formatDraftValue(conflict.field, conflict.localValue)}</span>
+                </button>
+                <button
+                  onClick={() => setChoices({ ...choices, [conflict.field]: 'remote' })}
+                  className={optionClass(choices[conflict.field] === 'remote')}
+                >
+                  <span className="block text-xs text-slate-500 mb-1">Other device</span>
+                  <span className="text-slate-800 break-words">{formatDraftValue(conflict.field, conflict.remoteValue)}</span>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={() => onResolve(choices)}
+            className="px-4 py-2 bg-red-800 hover:bg-red-900 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Keep selected values
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import {
+  EXAMINATION_BODY_GRADE_HINTS,
+  EXAMINATION_BODY_LABELS,
+  MAX_QUALIFICATION_ENTRIES,
+  MAX_SUBJECTS_PER_ENTRY,
+  createQualificationEntry,
+  createSubjectGrade,
+  requiresQualificationName,
+  type ExaminationBody,
+  type QualificationEntry,
+  type SubjectGrade,
+} from '@/lib/educationHistory';
+
+interface EducationHistoryFormProps {
+  entries: QualificationEntry[];
+  onChange: (entries: QualificationEntry[]) => void;
+  isEditing: boolean;
+}
+
+const inputClassName = (isEditing: boolean) =>
+  `w-full px-4 py-3 rounded-lg border-2 border-slate-200 text-base ${isEditing ? 'bg-white' : 'bg-[#f7f7f7]'}`;
+
+export default function EducationHistoryForm({ entries, onChange, isEditing }: EducationHistoryFormProps) {
+  const updateEntry = (entryId: string, changes: Partial<QualificationEntry>) => {
+    onChange(entries.map((entry) => (entry.id === entryId ? { ...entry, ...changes } : entry)));
+  };
+
+  const updateSubject = (entry: QualificationEntry, subjectIndex: number, changes: Partial<SubjectGrade>) => {
+    updateEntry(entry.id, {
+      subjects: entry.subjects.map((subject, index) => (index === subjectIndex ? { ...subject, ...changes } : subject)),
+    });
+  };
+
+  const removeSubject = (entry: QualificationEntry, subjectIndex: number) => {
+    const subjects = entry.subjects.filter((_, index) => index !== subjectIndex);
+    updateEntry(entry.id, { subjects: subjects.length > 0 ? subjects : [createSubjectGrade()] });
+  };
+
+  const addEntry = () => {
+    // Suggest A-Level after O-Level, the most common order for Ugandan applicants
+    const lastBody = entries[entries.length - 1]?.examinationBody;
+    onChange([...entries, createQualificationEntry(lastBody === 'UNEB_UCE' ? 'UNEB_UACE' : 'UNEB_UCE')]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {entries.length === 0 && (
+        <div className="p-4 border-2 border-dashed border-slate-200 rounded-lg text-center">
+          <i className="ri-book-open-line text-2xl text-slate-400"></i>
+          <p className="text-sm text-slate-600 mt-1">No qualifications added yet.</p>
+        </div>
+      )}
+
+      {entries.map((entry, entryIndex) => (
+        <div key={entry.id} className="border border-slate-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-slate-800">
+              <i className="ri-award-line mr-2 text-red-800"></i>
+              Qualification {entryIndex + 1}
+            </h3>
+            {isEditing && (
+              <button
+                type="button"
+                onClick={() => onChange(entries.filter((item) => item.id !== entry.id))}
+                className="text-xs text-red-600 hover:text-red-800 flex items-center gap-1"
+              >
+                <i className="ri-delete-bin-line"></i>
+                Remove
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-slate-800 mb-2">
+                Examination Body / Level <span className="text-red-600">*</span>
+              </label>
+              <select
+                value={entry.examinationBody}
+                onChange={(e) => updateEntry(entry.id, { examinationBody: e.target.value as ExaminationBody })}
+                disabled={!isEditing}
+                className={inputClassName(isEditing)}
+              >
+                {(Object.keys(EXAMINATION_BODY_LABELS) as ExaminationBody[]).map((body) => (
+                  <option key={body} value={body}>
+                    {EXAMINATION_BODY_LABELS[body]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-800 mb-2">
+                School / Institution <span className="text-red-600">*</span>
+              </label>
+              <input
+                type="text"
+                value={entry.institution}
+                onChange={(e) => updateEntry(entry.id, { institution: e.target.value })}
+                readOnly={!isEditing}
+                placeholder="e.g. Kings College Budo"
+                className={inputClassName(isEditing)}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-800 mb-2">
+                Year Completed <span className="text-red-600">*</span>
+              </label>
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={4}
+                value={entry.yearCompleted}
+                onChange={(e) => updateEntry(entry.id, { yearCompleted: e.target.value.replace(/\D/g, '') })}
+                readOnly={!isEditing}
+                placeholder="e.g. 2024"
+                className={inputClassName(isEditing)}
+              />
+            </div>
+
+            {requiresQualificationName(entry.examinationBody) && (
+              <div>
+                <label className="block text-sm font-medium text-slate-800 mb-2">
+                  Qualification Name <span className="text-red-600">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={entry.qualification || ''}
+                  onChange={(e) => updateEntry(entry.id, { qualification: e.target.value })}
+                  readOnly={!isEditing}
+                  placeholder="e.g. Diploma in Business Administration"
+                  className={inputClassName(isEditing)}
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-800 mb-2">Index / Registration Number</label>
+              <input
+                type="text"
+                value={entry.indexNumber || ''}
+                onChange={(e) => updateEntry(entry.id, { indexNumber: e.target.value })}
+                readOnly={!isEditing}
+                placeholder="As shown on your certificate"
+                className={inputClassName(isEditing)}
+              />
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-800">
+                Subjects & Grades
+                {!requiresQualificationName(entry.examinationBody) && <span className="text-red-600"> *</span>}
+              </label>
+              <span className="text-xs text-slate-500">{EXAMINATION_BODY_GRADE_HINTS[entry.examinationBody]}</span>
+            </div>
+
+            <div className="space-y-2">
+              {entry.subjects.map((subject, subjectIndex) => (
+                <div key={subjectIndex} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={subject.subject}
+                    onChange={(e) => updateSubject(entry, subjectIndex, { subject: e.target.value })}
+                    readOnly={!isEditing}
+                    placeholder="Subject"
+                    className={`flex-1 px-3 py-2 rounded-lg border-2 border-slate-200 text-sm ${isEditing ? 'bg-white' : 'bg-[#f7f7f7]'}`}
+                  />
+                  <input
+                    type="text"
+                    value={subject.grade}
+                    onChange={(e) => updateSubject(entry, subjectIndex, { grade: e.target.value.toUpperCase() })}
+                    readOnly={!isEditing}
+                    placeholder="Grade"
+                    className={`w-24 px-3 py-2 rounded-lg border-2 border-slate-200 text-sm ${isEditing ? 'bg-white' : 'bg-[#f7f7f7]'}`}
+                  />
+                  {isEditing && (
+                    <button
+                      type="button"
+                      onClick={() => removeSubject(entry, subjectIndex)}
+                      className="px-2 text-slate-400 hover:text-red-600"
+                      title="Remove subject"
+                    >
+                      <i className="ri-close-line"></i>
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isEditing && entry.subjects.length < MAX_SUBJECTS_PER_ENTRY && (
+              <button
+                type="button"
+                onClick={() => updateEntry(entry.id, { subjects: [...entry.subjects, createSubjectGrade()] })}
+                className="mt-2 text-sm text-red-800 hover:text-[#600000] flex items-center gap-1"
+              >
+                <i className="ri-add-line"></i>
+                Add subject
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {isEditing && entries.length < MAX_QUALIFICATION_ENTRIES && (
+        <button
+          type="button"
+          onClick={addEntry}
+          className="w-full px-4 py-3 text-sm border-2 border-dashed border-slate-300 text-slate-700 rounded-lg hover:border-red-800 hover:text-red-800 transition-colors flex items-center justify-center gap-2"
+        >
+          <i className="ri-add-circle-line"></i>
+          Add qualification
+        </button>
+      )}
+    </div>
+  );
+}
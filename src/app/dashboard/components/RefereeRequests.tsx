@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import type { Application } from '@/lib/applicationService';
+import {
+  MAX_REFEREES,
+  REFERENCE_STATUS_LABELS,
+  REFERENCE_STATUS_STYLES,
+  getReferenceStatus,
+  validateReferees,
+  type RefereeInput,
+} from '@/lib/refereeReferences';
+import referenceRequestService from '@/services/referenceRequestService';
+import { ToastContainer, useToast } from '@/components/Toast';
+
+interface RefereeRequestsProps {
+  application: Application;
+  disabled?: boolean;
+}
+
+const emptyReferee = (): RefereeInput => ({ refereeName: '', refereeEmail: '', relationship: '' });
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : '';
+
+export default function RefereeRequests({ application, disabled = false }: RefereeRequestsProps) {
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+  const [referees, setReferees] = useState<RefereeInput[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+
+  const references = application.references || [];
+  const activeCount = references.filter((reference) => getReferenceStatus(reference) !== 'expired').length;
+  const canAddReferee = !disabled && activeCount + referees.length < MAX_REFEREES;
+
+  const updateReferee = (index: number, changes: Partial<RefereeInput>) => {
+    setReferees((current) => current.map((referee, i) => (i === index ? { ...referee, ...changes } : referee)));
+  };
+
+  const handleSubmit = async () => {
+    const validationErrors = validateReferees(referees, { applicantEmail: application.email, existing: references });
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await referenceRequestService.requestReferences(application.id, referees);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      showSuccess('References Requested', 'Each referee has been emailed a secure upload link.', 6000);
+      setReferees([]);
+      setErrors([]);
+    } else {
+      showError('Request Failed', result.error || result.message, 6000);
+    }
+  };
+
+  const handleResend = async (referenceId: string) => {
+    setResendingId(referenceId);
+    const result = await referenceRequestService.resendReference(application.id, referenceId);
+    setResendingId(null);
+
+    if (result.success) {
+      showSuccess('Link Resent', 'The referee has been emailed a new upload link.', 5000);
+    } else {
+      showError('Resend Failed', result.error || result.message, 6000);
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-4 mb-3">
+      <ToastContainer toasts={toasts} onClose={removeToast} />
+
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-slate-800">
+          <i className="ri-mail-send-line mr-2"></i>
+          Request letters from your referees
+        </h4>
+        <span className="text-xs text-slate-500">{activeCount}/{MAX_REFEREES} requested</span>
+      </div>
+      <p className="text-xs text-slate-600 mb-3">
+        We&apos;ll email each referee a secure link to upload their letter directly. Links can be used once and expire after a few days.
+      </p>
+
+      {references.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {references.map((reference) => {
+            const status = getReferenceStatus(reference);
+            return (
+              <li key={reference.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 bg-slate-50 rounded-lg">
+                <div>
+                  <p className="text-sm font-medium text-slate-800">
+                    {reference.refereeName}
+                    {reference.relationship && <span className="text-slate-500 font-normal"> · {reference.relationship}</span>}
+                  </p>
+                  <p className="text-xs text-slate-600">{reference.refereeEmail}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {status === 'received'
+                      ? `Received ${formatDate(reference.receivedAt)}`
+                      : status === 'expired'
+                        ? `Link expired ${formatDate(reference.expiresAt)}`
+                        : `Requested ${formatDate(reference.requestedAt)} · link valid until ${formatDate(reference.expiresAt)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${REFERENCE_STATUS_STYLES[status]}`}>
+                    {REFERENCE_STATUS_LABELS[status]}
+                  </span>
+                  {status !== 'received' && !disabled && (
+                    <button
+                      onClick={() => handleResend(reference.id)}
+                      disabled={resendingId === reference.id}
+                      className="text-xs text-red-800 hover:text-red-900 disabled:opacity-50"
+                    >
+                      {resendingId === reference.id ? 'Sending...' : 'Resend link'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {referees.map((referee, index) => (
+        <div key={index} className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-2">
+          <input
+            type="text"
+            value={referee.refereeName}
+            onChange={(e) => updateReferee(index, { refereeName: e.target.value })}
+            placeholder="Referee full name"
+            className="px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+          />
+          <input
+            type="email"
+            value={referee.refereeEmail}
+            onChange={(e) => updateReferee(index, { refereeEmail: e.target.value })}
+            placeholder="Referee email"
+            className="px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={referee.relationship}
+              onChange={(e) => updateReferee(index, { relationship: e.target.value })}
+              placeholder="e.g. Former lecturer"
+              className="flex-1 px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+            />
+            <button
+              onClick={() => setReferees((current) => current.filter((_, i) => i !== index))}
+              className="px-2 text-slate-400 hover:text-red-600"
+              title="Remove referee"
+            >
+              <i className="ri-close-line"></i>
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 space-y-1 mb-2">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {canAddReferee && (
+          <button
+            onClick={() => setReferees((current) => [...current, emptyReferee()])}
+            className="px-3 py-1.5 text-sm border border-slate-300 text-slate-700 rounded-lg hover:border-red-800 hover:text-red-800 transition-colors"
+          >
+            <i className="ri-user-add-line mr-1"></i>
+            Add referee
+          </button>
+        )}
+        {referees.length > 0 && (
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="px-3 py-1.5 bg-red-800 hover:bg-red-900 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            {isSubmitting ? 'Sending...' : `Send ${referees.length} request${referees.length > 1 ? 's' : ''}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
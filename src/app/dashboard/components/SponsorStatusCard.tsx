@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { Application } from '@/lib/applicationService';
+import {
+  SPONSORSHIP_STATUS_LABELS,
+  SPONSOR_RELATIONSHIP_LABELS,
+  canInviteSponsor,
+  isInvitationActive,
+  type SponsorshipStatus,
+} from '@/lib/sponsorConfirmation';
+import sponsorInvitationService from '@/services/sponsorInvitationService';
+import { ToastContainer, useToast } from '@/components/Toast';
+
+interface SponsorStatusCardProps {
+  application: Application;
+}
+
+const STATUS_STYLES: Record<SponsorshipStatus, string> = {
+  invited: 'bg-blue-100 text-blue-700',
+  opened: 'bg-amber-100 text-amber-700',
+  confirmed: 'bg-green-100 text-green-700',
+  declined: 'bg-slate-200 text-slate-700',
+};
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : '';
+
+export default function SponsorStatusCard({ application }: SponsorStatusCardProps) {
+  const { toasts, removeToast, showSuccess, showError } = useToast();
+  const [isInviting, setIsInviting] = useState(false);
+
+  const sponsorship = application.sponsorship;
+  const hasSponsorContact = Boolean(application.sponsorEmail || application.sponsorTelephone);
+  const isExpired = Boolean(sponsorship) && !isInvitationActive(sponsorship) &&
+    (sponsorship?.status === 'invited' || sponsorship?.status === 'opened');
+
+  const handleInvite = async () => {
+    setIsInviting(true);
+    const result = await sponsorInvitationService.inviteSponsor(application.id);
+    setIsInviting(false);
+
+    if (result.success) {
+      showSuccess('Invitation Sent', 'Your sponsor has been sent a link to confirm their sponsorship.', 6000);
+    } else {
+      showError('Invitation Failed', result.error || result.message, 6000);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <ToastContainer toasts={toasts} onClose={removeToast} />
+
+      <div className="flex items-center mb-4">
+        <div className="h-10 w-10 bg-purple-100 rounded-lg flex items-center justify-center mr-3">
+          <i className="ri-hand-coin-line text-purple-600"></i>
+        </div>
+        <h2 className="text-lg font-bold text-slate-900">Sponsor</h2>
+      </div>
+
+      {!hasSponsorContact && !sponsorship ? (
+        <p className="text-sm text-slate-600">
+          Add your sponsor&apos;s email or phone number in the{' '}
+          <Link href="/dashboard/application" className="text-red-600 hover:text-red-700 font-medium">application form</Link>{' '}
+          so they can confirm they will pay your fees.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-700">
+            {application.sponsorEmail || application.sponsorTelephone}
+          </p>
+
+          {sponsorship && (
+            <div className="p-3 border border-slate-200 rounded-lg">
+              <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+                isExpired ? 'bg-slate-200 text-slate-700' : STATUS_STYLES[sponsorship.status]
+              }`}>
+                {isExpired ? 'Invitation expired' : SPONSORSHIP_STATUS_LABELS[sponsorship.status]}
+              </span>
+
+              {sponsorship.status === 'confirmed' ? (
+                <div className="mt-2 text-sm text-slate-700">
+                  <p className="font-medium text-slate-900">{sponsorship.sponsorName}</p>
+                  {sponsorship.relationship && <p>{SPONSOR_RELATIONSHIP_LABELS[sponsorship.relationship]}</p>}
+                  {sponsorship.organisation && <p>{sponsorship.organisation}</p>}
+                  <p className="text-xs text-slate-500 mt-1">Confirmed {formatDate(sponsorship.respondedAt)}</p>
+                </div>
+              ) : sponsorship.status === 'declined' ? (
+                <p className="mt-2 text-sm text-slate-700">
+                  Your sponsor declined on {formatDate(sponsorship.respondedAt)}. Update your sponsor details if someone else will pay your fees.
+                </p>
+              ) : (
+                <p className="mt-2 text-xs text-slate-500">
+                  Sent {formatDate(sponsorship.invitedAt)}
+                  {!isExpired && ` · link valid until ${formatDate(sponsorship.expiresAt)}`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {canInviteSponsor(application) && (
+            <button
+              onClick={handleInvite}
+              disabled={isInviting}
+              className="w-full px-4 py-2 bg-red-800 hover:bg-red-900 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              <i className="ri-send-plane-line mr-2"></i>
+              {isInviting ? 'Sending...' : sponsorship ? 'Send a new invitation' : 'Ask sponsor to confirm'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,35 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { useAuth } from '@/contexts/AuthContext';
+import { useApplications } from '@/contexts/ApplicationsContext';
 import { studentApplicationService, Application } from '@/lib/applicationService';
+import { applicationRequestService } from '@/lib/applicationRequestService';
+import {
+  DOCUMENT_TYPE_LABELS,
+  describeReview,
+  getFlaggedReviews,
+  getLatestReview,
+  isReviewFlagged,
+} from '@/lib/documentReview';
+import {
+  DOCUMENT_DEFINITIONS,
+  MAX_DOCUMENT_SIZE_MB,
+  getApplicantNationality,
+  getDocumentRequirements,
+  getMissingRequiredDocuments,
+  getUploadedDocumentUrls,
+  type DocumentType,
+} from '@/lib/documentRequirements';
+import { findProgramByName } from '@/lib/programCatalog';
+import { useProgramCatalog } from '@/hooks/useProgramCatalog';
 import { useApplicationDocuments } from '@/hooks/useDocumentAccess';
 import { useFileUpload } from '@/hooks/useFileUpload';
 import { DocumentsSkeleton } from '@/components/skeletons/DocumentsSkeleton';
 import { ToastContainer, useToast } from '@/components/Toast';
+import RefereeRequests from '../components/RefereeRequests';
 
 // Document info interface for type safety
 interface DocumentInfo {
@@ -17,30 +38,24 @@ interface DocumentInfo {
   fileTypes: string;
   maxSize: string;
   isRequired: boolean;
-  uploadedUrl?: string;
-  uploadedUrls?: string[];
-  hasDocument: boolean;
-  documentCount?: number;
-}
-
-// Academic document info extends base document info
-interface AcademicDocumentInfo extends DocumentInfo {
+  maxFiles: number;
   uploadedUrls: string[];
+  hasDocument: boolean;
   documentCount: number;
 }
 
-// Single document info extends base document info
-interface SingleDocumentInfo extends DocumentInfo {
-  uploadedUrl: string;
-}
-
 export default function DocumentsPage() {
   const { user } = useAuth();
   const { toasts, removeToast, showSuccess, showError } = useToast();
-  const [applications, setApplications] = useState<Application[]>([]);
-  const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { applications, loading: isLoading, error, refresh: fetchApplications } = useApplications();
+  const { programs: programCatalog } = useProgramCatalog();
+  const [selectedApplicationId, setSelectedApplicationId] = useState<string | null>(null);
+
+  // Selected application follows live updates; defaults to the most recent one
+  const selectedApplication = useMemo<Application | null>(() => {
+    return applications.find(a => a.id === selectedApplicationId) ?? applications[0] ?? null;
+  }, [applications, selectedApplicationId]);
+  const isApplicationLocked = applicationRequestService.isApplicationLocked(selectedApplication);
   const [manualUploading, setManualUploading] = useState(false);
   const [manualUploadError, setManualUploadError] = useState<string | null>(null);
   const [deletingDocUrl, setDeletingDocUrl] = useState<string | null>(null);
@@ -50,7 +65,6 @@ export default function DocumentsPage() {
     maxSizeInMB: 10,
     onSuccess: (result) => {
       console.log('Document uploaded successfully:', result);
-      fetchApplications(); // Refresh applications after upload
       reset();
     },
     onError: (error) => {
@@ -88,89 +102,44 @@ export default function DocumentsPage() {
 
   const { documents, loading: documentsLoading, refetch } = useApplicationDocuments(appForDocs);
 
-  // Document categories - matching our 3 document types
-  const documentCategories: Array<{
-    id: 'passportPhoto' | 'academicDocuments' | 'identificationDocument';
-    name: string;
-    key: string;
-  }> = [
-    { id: 'passportPhoto', name: 'Passport Photo', key: 'passportPhoto' },
-    { id: 'academicDocuments', name: 'Academic Documents', key: 'academicDocuments' },
-    { id: 'identificationDocument', name: 'Identification Documents', key: 'identificationDocument' },
-  ];
+  // Document categories depend on the program level and the applicant's nationality
+  const documentCategories = getDocumentRequirements({
+    level: findProgramByName(programCatalog, selectedApplication?.preferredProgram || '')?.level,
+    nationality: getApplicantNationality(selectedApplication?.countryOfBirth),
+  });
   
-  const [activeCategory, setActiveCategory] = useState<'passportPhoto' | 'academicDocuments' | 'identificationDocument'>('passportPhoto');
-
-  const fetchApplications = useCallback(async () => {
-    if (!user?.email) {
-      console.log('📋 No user email available, setting loading to false');
-      setIsLoading(false);
-      return;
-    }
-
-    try {
-      setIsLoading(true);
-      setError(null);
-      console.log('📋 Fetching applications for user:', user.email);
-      const userApplications = await studentApplicationService.getApplicationsByEmail(user.email);
-      console.log('📋 Applications fetched:', userApplications);
-      setApplications(userApplications);
-      
-      // Auto-select first application only if none selected yet
-      if (userApplications.length > 0 && !selectedApplication) {
-        console.log('📋 Auto-selecting first application:', userApplications[0]);
-        setSelectedApplication(userApplications[0]);
-      }
-      
-    } catch (err) {
-      console.error('❌ Failed to fetch applications:', err);
-      setError('Failed to load applications. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [user?.email, selectedApplication]);
-
-  // Fetch applications when component mounts
-  useEffect(() => {
-    console.log('📋 useEffect triggered for fetchApplications');
-    fetchApplications();
-  }, [fetchApplications]);
+  const [selectedCategory, setSelectedCategory] = useState<DocumentType>('passportPhoto');
+  const activeCategory = documentCategories.some((category) => category.type === selectedCategory)
+    ? selectedCategory
+    : documentCategories[0]?.type ?? 'passportPhoto';
 
-  // Refresh selected application data after upload/removal
+  // Refresh document URLs after upload/removal; application data itself updates live
   const refreshSelectedApplication = useCallback(async () => {
-    if (!selectedApplication?.id || !user?.email) return;
-    
-    try {
-      const userApplications = await studentApplicationService.getApplicationsByEmail(user.email);
-      const updated = userApplications.find(a => a.id === selectedApplication.id);
-      if (updated) {
-        setSelectedApplication(updated);
-      }
-      refetch();
-    } catch (error) {
-      console.error('Error refreshing selected application:', error);
-    }
-  }, [selectedApplication?.id, user?.email, refetch]);
+    refetch();
+  }, [refetch]);
 
   // Handle file selection and upload
-  const handleFileUpload = async (documentType: 'passportPhoto' | 'academicDocuments' | 'identificationDocument') => {
+  const handleFileUpload = async (documentType: DocumentType) => {
     if (!selectedApplication || !user?.email) {
       alert('Please select an application first');
       return;
     }
 
+    if (isApplicationLocked) {
+      showError('Application Locked', 'Documents cannot be changed while admissions reviews your withdrawal or deferral request.', 6000);
+      return;
+    }
+
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = documentType === 'passportPhoto' 
-      ? 'image/jpeg,image/jpg,image/png' 
-      : 'application/pdf,image/jpeg,image/jpg,image/png,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    input.accept = DOCUMENT_DEFINITIONS[documentType].acceptedMimeTypes.join(',');
     
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
 
       try {
-        // Use application service to upload and update Firestore (append for academic docs)
+        // Use application service to upload and update Firestore (append for multi-file documents)
         setManualUploading(true);
         setManualUploadError(null);
         const res = await studentApplicationService.uploadDocumentAndUpdateFirestore({
@@ -181,25 +150,9 @@ export default function DocumentsPage() {
         });
 
         if (res?.success) {
-          // Update local selected application state
-          setSelectedApplication(prev => {
-            if (!prev) return prev;
-            if (documentType === 'academicDocuments') {
-              const prevDocs = Array.isArray(prev.academicDocuments) ? prev.academicDocuments : (prev.academicDocuments ? [prev.academicDocuments] : []);
-              return {
-                ...prev,
-                academicDocuments: [...prevDocs, res.downloadUrl]
-              } as Application;
-            }
-            return {
-              ...prev,
-              [documentType]: res.downloadUrl
-            } as Application;
-          });
-
-          // Refresh from backend for consistency
+          // Application listener picks up the new document; refresh the document URLs
           await refreshSelectedApplication();
-          showSuccess('Document Uploaded', documentType === 'academicDocuments' ? 'Your academic document was added successfully.' : 'Your document was uploaded successfully.', 4000);
+          showSuccess('Document Uploaded', `Your ${DOCUMENT_DEFINITIONS[documentType].label.toLowerCase()} upload was successful.`, 4000);
         } else {
           setManualUploadError(res?.message || 'Upload failed');
           showError('Upload Failed', res?.message || 'Please try again later.', 6000);
@@ -216,23 +169,21 @@ export default function DocumentsPage() {
     input.click();
   };
 
-  // Remove a specific academic document by URL
-  const handleRemoveAcademicDocument = async (docUrl: string) => {
+  // Remove a specific file from a multi-file document type by URL
+  const handleRemoveDocument = async (documentType: DocumentType, docUrl: string) => {
     if (!selectedApplication) return;
+
+    if (isApplicationLocked) {
+      showError('Application Locked', 'Documents cannot be changed while admissions reviews your withdrawal or deferral request.', 6000);
+      return;
+    }
     try {
       setDeletingDocUrl(docUrl);
-      const res = await studentApplicationService.deleteAcademicDocument(selectedApplication.id, docUrl);
+      const res = await studentApplicationService.deleteDocument(selectedApplication.id, documentType, docUrl);
       if (res.success) {
-        // Update local state
-        setSelectedApplication(prev => {
-          if (!prev) return prev;
-          const currentDocs = Array.isArray(prev.academicDocuments) ? prev.academicDocuments : (prev.academicDocuments ? [prev.academicDocuments] : []);
-          const filtered = currentDocs.filter(u => u !== docUrl);
-          return { ...prev, academicDocuments: filtered } as Application;
-        });
-        // Refresh documents and applications
+        // Refresh document URLs; the application listener updates the list
         await refreshSelectedApplication();
-        showSuccess('Document Removed', 'The academic document has been removed.', 4000);
+        showSuccess('Document Removed', `The document was removed from your ${DOCUMENT_DEFINITIONS[documentType].label.toLowerCase()}.`, 4000);
       } else {
         showError('Remove Failed', res.message || 'Failed to remove document.', 6000);
       }
@@ -474,85 +425,69 @@ export default function DocumentsPage() {
     );
   }
 
-  // Get document info for the active category
-  const getDocumentInfo = (category: string) => {
-    const application = selectedApplication;
-    if (!application) return null;
-
-    switch (category) {
+  // Viewable URLs for a document type; core documents go through the document access service
+  const getDocumentUrls = (documentType: DocumentType): string[] => {
+    switch (documentType) {
       case 'passportPhoto':
-        return {
-          name: 'Passport Photo',
-          description: 'Upload a recent passport-style photograph. The photo should be clear, with good lighting, showing your full face against a plain background.',
-          fileTypes: 'JPG, JPEG, PNG',
-          maxSize: '5MB',
-          isRequired: true,
-          uploadedUrl: documents?.passportPhotoUrl,
-          hasDocument: !!application.passportPhoto
-        };
+        return documents?.passportPhotoUrl ? [documents.passportPhotoUrl] : [];
       case 'academicDocuments':
-        const academicDocs = Array.isArray(application.academicDocuments) 
-          ? application.academicDocuments 
-          : (application.academicDocuments ? [application.academicDocuments] : []);
-        return {
-          name: 'Academic Documents',
-          description: `Upload transcripts, certificates, diplomas, or academic records from previous institutions. You can upload up to 5 documents. Currently uploaded: ${academicDocs.length} document(s).`,
-          fileTypes: 'PDF, DOC, DOCX, JPG, JPEG, PNG',
-          maxSize: '10MB',
-          isRequired: true,
-          uploadedUrls: documents?.academicDocumentsUrls || [],
-          hasDocument: academicDocs.length > 0,
-          documentCount: academicDocs.length
-        };
+        return documents?.academicDocumentsUrls || [];
       case 'identificationDocument':
-        return {
-          name: 'Identification Document',
-          description: 'Upload passport, national ID, or other government-issued identification.',
-          fileTypes: 'PDF, DOC, DOCX, JPG, JPEG, PNG',
-          maxSize: '10MB',
-          isRequired: true,
-          uploadedUrl: documents?.identificationDocumentUrl,
-          hasDocument: !!application.identificationDocument
-        };
+        return documents?.identificationDocumentUrl ? [documents.identificationDocumentUrl] : [];
       default:
-        return null;
+        return getUploadedDocumentUrls(selectedApplication, documentType);
     }
   };
 
+  // Get document info for the active category
+  const getDocumentInfo = (category: DocumentType): DocumentInfo | null => {
+    const requirement = documentCategories.find((item) => item.type === category);
+    if (!selectedApplication || !requirement) return null;
+
+    const storedCount = getUploadedDocumentUrls(selectedApplication, category).length;
+
+    return {
+      name: requirement.label,
+      description: requirement.maxFiles > 1
+        ? `${requirement.description} You can upload up to ${requirement.maxFiles} documents. Currently uploaded: ${storedCount} document(s).`
+        : requirement.description,
+      fileTypes: requirement.fileTypesLabel,
+      maxSize: `${MAX_DOCUMENT_SIZE_MB}MB`,
+      isRequired: requirement.required,
+      maxFiles: requirement.maxFiles,
+      uploadedUrls: getDocumentUrls(category),
+      hasDocument: storedCount > 0,
+      documentCount: storedCount,
+    };
+  };
+
   const documentInfo = getDocumentInfo(activeCategory);
-  const uploadedCount = [
-    selectedApplication?.passportPhoto,
-    selectedApplication?.academicDocuments,
-    selectedApplication?.identificationDocument
-  ].filter(Boolean).length;
-
-  // Determine missing required docs
-  const academicCount = Array.isArray(selectedApplication?.academicDocuments)
-    ? (selectedApplication?.academicDocuments?.length || 0)
-    : (selectedApplication?.academicDocuments ? 1 : 0);
-  const missingDocs: string[] = [];
-  if (!selectedApplication?.passportPhoto) missingDocs.push('Passport Photo');
-  if (academicCount === 0) missingDocs.push('Academic Documents');
-  if (!selectedApplication?.identificationDocument) missingDocs.push('Identification Document');
+  const flaggedReviews = getFlaggedReviews(selectedApplication?.documentReviews);
+  const activeReview = getLatestReview(selectedApplication?.documentReviews, activeCategory);
+  const isCategoryFlagged = (category: DocumentType) =>
+    flaggedReviews.some((review) => review.documentType === category);
+  const requiredCategories = documentCategories.filter((category) => category.required);
+  const missingDocs = getMissingRequiredDocuments(selectedApplication, documentCategories).map((category) => category.label);
+  const uploadedCount = requiredCategories.length - missingDocs.length;
+  const allRequiredUploaded = missingDocs.length === 0;
 
   // Helpers to simplify JSX conditions in the action area
-  const isAcademicCategory = activeCategory === 'academicDocuments';
-  const hasMultiDocs = Boolean(
-    documentInfo?.hasDocument &&
-    Array.isArray((documentInfo as AcademicDocumentInfo)?.uploadedUrls) &&
-    (documentInfo as AcademicDocumentInfo)?.uploadedUrls?.length > 0
-  );
-  const hasSingleDoc = Boolean(documentInfo?.hasDocument && (documentInfo as SingleDocumentInfo)?.uploadedUrl);
+  const isMultiFileCategory = (documentInfo?.maxFiles || 1) > 1;
+  const hasMultiDocs = Boolean(documentInfo?.hasDocument && documentInfo.uploadedUrls.length > 0);
+  const hasSingleDoc = Boolean(documentInfo?.hasDocument && documentInfo.uploadedUrls[0]);
+  const remainingFiles = Math.max(0, (documentInfo?.maxFiles || 0) - (documentInfo?.documentCount || 0));
 
   const renderActionArea = () => {
-    if (isAcademicCategory) {
+    if (!documentInfo) return null;
+
+    if (isMultiFileCategory) {
       if (hasMultiDocs) {
         return (
           <div className="space-y-2 w-full">
             <div className="text-sm text-slate-600 mb-2">
-              {(documentInfo as AcademicDocumentInfo).uploadedUrls.length} document(s) uploaded:
+              {documentInfo.uploadedUrls.length} document(s) uploaded:
             </div>
-            {(documentInfo as AcademicDocumentInfo).uploadedUrls.map((url: string, index: number) => (
+            {documentInfo.uploadedUrls.map((url: string, index: number) => (
               <div key={index} className="flex items-center gap-2">
                 <a
                   href={url}
@@ -564,8 +499,8 @@ export default function DocumentsPage() {
                   View Document {index + 1}
                 </a>
                 <button
-                  onClick={() => handleRemoveAcademicDocument(url)}
-                  disabled={Boolean(deletingDocUrl) && deletingDocUrl === url}
+                  onClick={() => handleRemoveDocument(activeCategory, url)}
+                  disabled={isApplicationLocked || (Boolean(deletingDocUrl) && deletingDocUrl === url)}
                   className={`px-3 py-2 text-sm rounded-lg border ${deletingDocUrl === url ? 'border-slate-300 text-slate-400 cursor-not-allowed' : 'border-red-200 text-red-700 hover:bg-red-50 hover:border-red-300'}`}
                   title="Remove document"
                 >
@@ -584,26 +519,26 @@ export default function DocumentsPage() {
               </div>
             ))}
             <button
-              onClick={() => handleFileUpload('academicDocuments')}
-              disabled={isUploading || (((documentInfo as AcademicDocumentInfo)?.documentCount || 0) >= 5)}
+              onClick={() => handleFileUpload(activeCategory)}
+              disabled={isUploading || isApplicationLocked || remainingFiles === 0}
               className="flex items-center justify-center px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium min-h-[44px] w-full disabled:opacity-50"
             >
               <i className="ri-upload-line mr-2"></i>
               {isUploading
                 ? 'Uploading...'
-                : `Add More Documents (${Math.max(0, 5 - ((documentInfo as AcademicDocumentInfo)?.documentCount || 0))} remaining)`}
+                : `Add More Documents (${remainingFiles} remaining)`}
             </button>
           </div>
         );
       }
       return (
         <button
-          onClick={() => handleFileUpload('academicDocuments')}
-          disabled={isUploading}
+          onClick={() => handleFileUpload(activeCategory)}
+          disabled={isUploading || isApplicationLocked}
           className="flex items-center justify-center px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium min-h-[44px] disabled:opacity-50 w-full"
         >
           <i className="ri-upload-line mr-2"></i>
-          {isUploading ? 'Uploading...' : 'Upload Academic Documents'}
+          {isUploading ? 'Uploading...' : `Upload ${documentInfo.name}`}
         </button>
       );
     }
@@ -612,7 +547,7 @@ export default function DocumentsPage() {
       return (
         <>
           <a
-            href={(documentInfo as SingleDocumentInfo).uploadedUrl}
+            href={documentInfo.uploadedUrls[0]}
             target="_blank"
             rel="noopener noreferrer"
             className="flex items-center justify-center px-4 py-3 bg-slate-100 text-slate-800 rounded-lg hover:bg-slate-200 transition-colors text-sm font-medium min-h-[44px]"
@@ -622,7 +557,7 @@ export default function DocumentsPage() {
           </a>
           <button
             onClick={() => handleFileUpload(activeCategory)}
-            disabled={isUploading}
+            disabled={isUploading || isApplicationLocked}
             className="flex items-center justify-center px-4 py-3 border border-red-800 text-red-800 hover:bg-red-800 hover:text-white rounded-lg transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px]"
           >
             <i className="ri-upload-line mr-2"></i>
@@ -635,7 +570,7 @@ export default function DocumentsPage() {
     return (
       <button
         onClick={() => handleFileUpload(activeCategory)}
-        disabled={isUploading}
+        disabled={isUploading || isApplicationLocked}
         className="flex items-center justify-center px-4 py-3 bg-red-800 text-white rounded-lg hover:bg-red-900 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] w-full sm:w-auto"
       >
         {isUploading ? (
@@ -718,10 +653,7 @@ export default function DocumentsPage() {
           </label>
           <select 
             value={selectedApplication?.id || ''}
-            onChange={(e) => {
-              const app = applications.find(a => a.id === e.target.value);
-              setSelectedApplication(app || null);
-            }}
+            onChange={(e) => setSelectedApplicationId(e.target.value || null)}
             className="w-full p-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
           >
             {applications.map((app) => (
@@ -738,7 +670,7 @@ export default function DocumentsPage() {
         <div className="grid grid-cols-3 gap-4">
           <div className="text-center">
             <span className="text-slate-600 text-xs block mb-1">Required</span>
-            <div className="text-2xl font-bold text-slate-800">3</div>
+            <div className="text-2xl font-bold text-slate-800">{requiredCategories.length}</div>
             <p className="text-xs text-slate-600">Documents</p>
           </div>
           
@@ -750,7 +682,7 @@ export default function DocumentsPage() {
           
           <div className="text-center">
             <span className="text-slate-600 text-xs block mb-1">Pending</span>
-            <div className="text-2xl font-bold text-yellow-600">{3 - uploadedCount}</div>
+            <div className="text-2xl font-bold text-yellow-600">{missingDocs.length}</div>
             <p className="text-xs text-slate-600">Documents</p>
           </div>
         </div>
@@ -759,14 +691,31 @@ export default function DocumentsPage() {
         <div className="mt-4">
           <div className="flex justify-between text-sm mb-2">
             <span className="font-medium">Required Documents Progress</span>
-            <span className="text-slate-600">{uploadedCount}/3</span>
+            <span className="text-slate-600">{uploadedCount}/{requiredCategories.length}</span>
           </div>
           <div className="w-full bg-slate-200 rounded-full h-3">
             <div 
               className="bg-red-800 h-3 rounded-full transition-all duration-300" 
-              style={{ width: `${(uploadedCount / 3) * 100}%` }}
+              style={{ width: `${requiredCategories.length ? (uploadedCount / requiredCategories.length) * 100 : 100}%` }}
             ></div>
           </div>
+          {flaggedReviews.length > 0 && (
+            <div className="mt-3 text-sm text-red-800 bg-red-50 border border-red-200 rounded-lg p-3">
+              <div className="flex items-start gap-2">
+                <i className="ri-error-warning-line mt-0.5"></i>
+                <div>
+                  <span className="font-medium">Admissions needs you to replace:</span>
+                  <ul className="mt-1 space-y-1">
+                    {flaggedReviews.map((review, index) => (
+                      <li key={`${review.documentType}-${index}`}>
+                        <strong>{DOCUMENT_TYPE_LABELS[review.documentType]}</strong> – {describeReview(review)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
           {missingDocs.length > 0 ? (
             <div className="mt-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
               <div className="flex items-start gap-2">
@@ -793,17 +742,22 @@ export default function DocumentsPage() {
         <div className="flex overflow-x-auto scrollbar-hide">
           {documentCategories.map((category) => (
             <button
-              key={category.id}
-              onClick={() => setActiveCategory(category.id)}
+              key={category.type}
+              onClick={() => setSelectedCategory(category.type)}
               className={`flex-1 min-w-0 px-3 py-4 text-sm font-medium transition-colors whitespace-nowrap border-b-2 ${
-                activeCategory === category.id
+                activeCategory === category.type
                   ? 'text-red-800 border-red-800 bg-red-50'
                   : 'text-slate-600 border-transparent hover:text-red-800 hover:bg-slate-50'
               }`}
             >
               <div className="flex items-center justify-center gap-2">
-                <span className="truncate">{category.name}</span>
-                {selectedApplication && selectedApplication[category.key as keyof Application] && (
+                <span className="truncate">{category.label}</span>
+                {!category.required && (
+                  <span className="text-xs text-slate-400 font-normal">(optional)</span>
+                )}
+                {isCategoryFlagged(category.type) ? (
+                  <i className="ri-error-warning-line text-red-600 text-sm"></i>
+                ) : getUploadedDocumentUrls(selectedApplication, category.type).length > 0 && (
                   <i className="ri-check-line text-green-600 text-sm"></i>
                 )}
               </div>
@@ -821,9 +775,19 @@ export default function DocumentsPage() {
                 <div className="flex flex-col sm:flex-row sm:items-center gap-2">
                   <h3 className="font-medium text-base flex items-center">
                     {documentInfo.name}
-                    <span className="text-red-600 ml-1">*</span>
+                    {documentInfo.isRequired && <span className="text-red-600 ml-1">*</span>}
                   </h3>
-                  {documentInfo.hasDocument && (
+                  {activeReview && isReviewFlagged(activeReview) ? (
+                    <span className="text-xs px-2 py-0.5 bg-red-50 text-red-700 rounded-full flex items-center w-fit">
+                      <i className="ri-error-warning-line mr-1"></i>
+                      {activeReview.outcome === 'requested' ? 'Requested' : 'Rejected'}
+                    </span>
+                  ) : activeReview?.outcome === 'accepted' && documentInfo.hasDocument ? (
+                    <span className="text-xs px-2 py-0.5 bg-green-50 text-green-700 rounded-full flex items-center w-fit">
+                      <i className="ri-shield-check-line mr-1"></i>
+                      Accepted
+                    </span>
+                  ) : documentInfo.hasDocument && (
                     <span className="text-xs px-2 py-0.5 bg-green-50 text-green-700 rounded-full flex items-center w-fit">
                       <i className="ri-check-line mr-1"></i>
                       Uploaded
@@ -837,6 +801,25 @@ export default function DocumentsPage() {
               </div>
               
               <p className="text-sm text-slate-800/70 mb-3">{documentInfo.description}</p>
+
+              {activeReview && isReviewFlagged(activeReview) && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-3 text-sm text-red-800">
+                  <i className="ri-error-warning-line mr-1"></i>
+                  {describeReview(activeReview)}
+                  <p className="text-xs text-red-700 mt-1">Uploading a new file will send it back to admissions for review.</p>
+                </div>
+              )}
+
+              {activeCategory === 'recommendationLetters' && selectedApplication && (
+                <RefereeRequests application={selectedApplication} disabled={isApplicationLocked} />
+              )}
+
+              {isApplicationLocked && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-3 text-sm text-amber-800">
+                  <i className="ri-lock-line mr-1"></i>
+                  Documents are locked while admissions reviews your withdrawal or deferral request.
+                </div>
+              )}
               
               {/* File requirements */}
               <div className="bg-slate-50 rounded-lg p-3 mb-3">
@@ -888,12 +871,12 @@ export default function DocumentsPage() {
                   <div className="animate-spin w-6 h-6 border-2 border-slate-300 border-t-red-600 rounded-full mx-auto mb-2"></div>
                   <p className="text-sm text-slate-600">Loading document...</p>
                 </div>
-              ) : (documentInfo.uploadedUrl || (isAcademicCategory && hasMultiDocs)) ? (
+              ) : hasMultiDocs ? (
                 <div className="bg-slate-50 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-3">
                     <span className="text-sm font-medium text-slate-800">Document Preview</span>
                     <a 
-                      href={documentInfo.uploadedUrl || (isAcademicCategory ? (documentInfo as AcademicDocumentInfo).uploadedUrls?.[0] : undefined)}
+                      href={documentInfo.uploadedUrls[0]}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-xs text-blue-600 hover:text-blue-800 flex items-center"
@@ -904,10 +887,10 @@ export default function DocumentsPage() {
                   </div>
                   
                   {/* Image preview for photos */}
-                  {activeCategory === 'passportPhoto' && documentInfo.uploadedUrl ? (
+                  {activeCategory === 'passportPhoto' && hasSingleDoc ? (
                     <div className="max-w-xs mx-auto">
                       <Image 
-                        src={documentInfo.uploadedUrl}
+                        src={documentInfo.uploadedUrls[0]}
                         alt="Passport Photo"
                         width={300}
                         height={400}
@@ -921,7 +904,7 @@ export default function DocumentsPage() {
                     /* Document icon for PDFs and other docs */
                     <div className="text-center py-8">
                       <i className="ri-file-text-line text-4xl text-slate-400 mb-2"></i>
-                      <p className="text-sm text-slate-600">{isAcademicCategory ? 'At least one academic document is uploaded' : 'Document uploaded successfully'}</p>
+                      <p className="text-sm text-slate-600">{isMultiFileCategory ? `${documentInfo.documentCount} document(s) uploaded` : 'Document uploaded successfully'}</p>
                     </div>
                   )}
                 </div>
@@ -930,21 +913,11 @@ export default function DocumentsPage() {
                   <div className="flex items-start text-yellow-800">
                     <i className="ri-alert-line mr-2 mt-0.5"></i>
                     <div className="text-sm">
-                      {activeCategory === 'passportPhoto' && (
-                        <>
-                          <span className="font-medium">Passport Photo not uploaded.</span> Please provide a clear passport-style photograph.
-                        </>
-                      )}
-                      {activeCategory === 'academicDocuments' && (
-                        <>
-                          <span className="font-medium">No academic documents uploaded.</span> Please upload transcripts, certificates, or other academic records (up to 5 documents).
-                        </>
-                      )}
-                      {activeCategory === 'identificationDocument' && (
-                        <>
-                          <span className="font-medium">Identification document missing.</span> Please upload a passport or national ID.
-                        </>
-                      )}
+                      <span className="font-medium">{documentInfo.name} not uploaded.</span>{' '}
+                      {documentInfo.isRequired
+                        ? 'This document is required for your application.'
+                        : 'This document is optional but may strengthen your application.'}
+                      {isMultiFileCategory && ` You can upload up to ${documentInfo.maxFiles} documents.`}
                     </div>
                   </div>
                 </div>
@@ -960,16 +933,16 @@ export default function DocumentsPage() {
           <div className="flex items-center justify-between">
             <div className="flex items-center">
               <div className={`w-4 h-4 rounded-full mr-3 flex items-center justify-center ${
-                uploadedCount === 3 ? 'bg-green-600' : 'bg-yellow-600'
+                allRequiredUploaded ? 'bg-green-600' : 'bg-yellow-600'
               }`}>
-                <i className={`ri-${uploadedCount === 3 ? 'check' : 'alert'}-line text-white text-xs`}></i>
+                <i className={`ri-${allRequiredUploaded ? 'check' : 'alert'}-line text-white text-xs`}></i>
               </div>
               <div>
                 <p className="text-sm font-medium text-slate-800">
-                  {uploadedCount === 3 ? 'All required documents uploaded!' : 'Some required documents are still pending'}
+                  {allRequiredUploaded ? 'All required documents uploaded!' : 'Some required documents are still pending'}
                 </p>
                 <p className="text-xs text-slate-600">
-                  {uploadedCount}/3 required documents completed
+                  {uploadedCount}/{requiredCategories.length} required documents completed
                 </p>
               </div>
             </div>
@@ -985,14 +958,14 @@ export default function DocumentsPage() {
             Back to Application
           </Link>
           <button
-            disabled={uploadedCount !== 3}
+            disabled={!allRequiredUploaded}
             className={`w-full px-4 py-3 text-sm rounded-lg transition-colors font-medium min-h-[44px] flex items-center justify-center ${
-              uploadedCount === 3
+              allRequiredUploaded
                 ? 'bg-red-800 text-white hover:bg-red-900'
                 : 'bg-slate-200 text-slate-500 cursor-not-allowed'
             }`}
           >
-            {uploadedCount === 3 ? (
+            {allRequiredUploaded ? (
               <>
                 <i className="ri-check-line mr-2"></i>
                 Documents Complete!
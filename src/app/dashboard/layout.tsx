@@ -1,9 +1,14 @@
 import DashboardLayout from "./components/DashboardLayout";
+import { ApplicationsProvider } from "@/contexts/ApplicationsContext";
 
 interface DashboardLayoutWrapperProps {
   children: React.ReactNode;
 }
 
 export default function DashboardLayoutWrapper({ children }: DashboardLayoutWrapperProps) {
-  return <DashboardLayout>{children}</DashboardLayout>;
+  return (
+    <ApplicationsProvider>
+      <DashboardLayout>{children}</DashboardLayout>
+    </ApplicationsProvider>
+  );
 }
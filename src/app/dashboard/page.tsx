@@ -1,21 +1,44 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { studentApplicationService, type Application } from '@/lib/applicationService';
+import { studentApplicationService } from '@/lib/applicationService';
+import { useApplications } from '@/contexts/ApplicationsContext';
 import { DashboardSkeleton } from '@/components/skeletons/DashboardSkeleton';
 import welcomeService from '@/services/welcomeService';
+import { findProgramByName, PROGRAM_LEVEL_LABELS } from '@/lib/programCatalog';
+import { useProgramCatalog } from '@/hooks/useProgramCatalog';
+import { findApplicationIntake, formatIntakeLabel, getIntakeDeadline, getOpenIntakes } from '@/lib/intakeCalendar';
+import { useIntakeCalendar } from '@/hooks/useIntakeCalendar';
+import {
+  DOCUMENT_TYPE_LABELS,
+  describeReview,
+  getFlaggedReviews,
+  getLatestReview,
+  isReviewFlagged,
+  type ReviewedDocumentType,
+} from '@/lib/documentReview';
+import { getApplicantNationality, getDocumentRequirements, getUploadedDocumentUrls } from '@/lib/documentRequirements';
+import ApplicationTimeline from './components/ApplicationTimeline';
+import AdmissionOfferCard from './components/AdmissionOfferCard';
+import SponsorStatusCard from './components/SponsorStatusCard';
+import ApplicationSummaryButton from './components/ApplicationSummaryButton';
 export default function Dashboard() {
   const router = useRouter();
   const { user, userData, loading, refreshUser } = useAuth();
+  const { programs: programCatalog } = useProgramCatalog();
+  const { intakes: intakeCalendar } = useIntakeCalendar();
   
-  // State for real application data
-  const [applicationData, setApplicationData] = useState<Application | null>(null);
-  const [applicationsLoading, setApplicationsLoading] = useState(true);
-  const [applicationsError, setApplicationsError] = useState<string | null>(null);
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  // Live application data shared across dashboard pages
+  const {
+    latestApplication: applicationData,
+    loading: applicationsLoading,
+    error: applicationsError,
+    refreshing: isRefreshing,
+    refresh: refreshApplicationData,
+  } = useApplications();
 
   // Automatic welcome message function for first login
   const sendWelcomeMessages = useCallback(async () => {
@@ -64,37 +87,6 @@ export default function Dashboard() {
     }
   }, [user, userData]);
 
-  // Refresh application data function
-  const refreshApplicationData = async () => {
-    if (!user?.email || applicationsLoading) return;
-    
-    setIsRefreshing(true);
-    setApplicationsError(null);
-
-    try {
-      console.log('🔄 Refreshing application data for user:', user.email);
-      const applications = await studentApplicationService.getApplicationsByEmail(user.email);
-      
-      if (applications.length > 0) {
-        const mostRecentApp = applications.sort((a, b) => 
-          new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime()
-        )[0];
-        
-        console.log('✅ Application refreshed:', mostRecentApp);
-        setApplicationData(mostRecentApp);
-      } else {
-        console.log('📭 No applications found for user');
-        setApplicationData(null);
-      }
-    } catch (error) {
-      console.error('❌ Failed to refresh application data:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to refresh application data';
-      setApplicationsError(errorMessage);
-    } finally {
-      setIsRefreshing(false);
-    }
-  };
-
   useEffect(() => {
     const checkAuthAndVerification = async () => {
       // If not loading and no user, redirect to login
@@ -133,52 +125,6 @@ export default function Dashboard() {
     checkAuthAndVerification();
   }, [user, loading, userData, router, refreshUser, sendWelcomeMessages]);
 
-  // Load application data when user is available
-  useEffect(() => {
-    const loadApplicationData = async () => {
-      if (!user?.email) {
-        setApplicationsLoading(false);
-        return;
-      }
-
-      setApplicationsLoading(true);
-      setApplicationsError(null);
-
-      try {
-        console.log('🔍 Loading applications for user:', user.email);
-        
-        const applications = await studentApplicationService.getApplicationsByEmail(user.email);
-        
-        if (applications.length > 0) {
-          // Use the most recent application
-          const mostRecentApp = applications.sort((a, b) => 
-            new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime()
-          )[0];
-          
-          console.log('✅ Application loaded:', mostRecentApp);
-          setApplicationData(mostRecentApp);
-        } else {
-          console.log('📭 No applications found for user');
-          setApplicationData(null);
-        }
-      } catch (error) {
-        console.error('❌ Failed to load application data:', error);
-        const errorMessage = error instanceof Error ? error.message : 'Failed to load application data';
-        setApplicationsError(`Unable to load application data: ${errorMessage}`);
-        setApplicationData(null);
-      } finally {
-        setApplicationsLoading(false);
-      }
-    };
-
-    if (user?.emailVerified) {
-      loadApplicationData();
-    } else {
-      // If user is not email verified, don't keep loading
-      setApplicationsLoading(false);
-    }
-  }, [user]);
-
   // Show loading while checking auth state or loading applications
   if (loading || applicationsLoading) {
     console.log('🔄 Dashboard loading state:', { loading, applicationsLoading, user: !!user, userEmail: user?.email });
@@ -190,31 +136,35 @@ export default function Dashboard() {
     return null;
   }
   
-  // Generate required documents from real application data
-  const requiredDocuments = applicationData ? [
-    { 
-      id: 1, 
-      name: 'National ID / Passport', 
-      status: applicationData.identificationDocument ? 'uploaded' : 'pending', 
-      date: applicationData.identificationDocument ? new Date(applicationData.updatedAt).toLocaleDateString() : null 
-    },
-    { 
-      id: 2, 
-      name: 'Academic Documents', 
-      status: applicationData.academicDocuments ? 'uploaded' : 'pending', 
-      date: applicationData.academicDocuments ? new Date(applicationData.updatedAt).toLocaleDateString() : null 
-    },
-    { 
-      id: 3, 
-      name: 'Passport Photo', 
-      status: applicationData.passportPhoto ? 'uploaded' : 'pending', 
-      date: applicationData.passportPhoto ? new Date(applicationData.updatedAt).toLocaleDateString() : null 
-    },
-  ] : [
-    { id: 1, name: 'National ID / Passport', status: 'pending', date: null },
-    { id: 2, name: 'Academic Documents', status: 'pending', date: null },
-    { id: 3, name: 'Passport Photo', status: 'pending', date: null },
-  ];
+  // Generate required documents from real application data and admissions review outcomes
+  const describeDocument = (id: number, documentType: ReviewedDocumentType, isUploaded: boolean) => {
+    const review = getLatestReview(applicationData?.documentReviews, documentType);
+    const isFlagged = Boolean(review && isReviewFlagged(review));
+
+    return {
+      id,
+      documentType,
+      name: DOCUMENT_TYPE_LABELS[documentType],
+      status: isFlagged
+        ? 'flagged'
+        : !isUploaded
+          ? 'pending'
+          : review?.outcome === 'accepted' ? 'accepted' : 'uploaded',
+      reviewNote: review && isFlagged ? describeReview(review) : null,
+      date: isUploaded && applicationData ? new Date(applicationData.updatedAt).toLocaleDateString() : null
+    };
+  };
+
+  const requiredDocuments = getDocumentRequirements({
+    level: findProgramByName(programCatalog, applicationData?.preferredProgram || '')?.level,
+    nationality: getApplicantNationality(applicationData?.countryOfBirth),
+  })
+    .filter(requirement => requirement.required)
+    .map((requirement, index) =>
+      describeDocument(index + 1, requirement.type, getUploadedDocumentUrls(applicationData, requirement.type).length > 0)
+    );
+  const flaggedDocuments = requiredDocuments.filter(doc => doc.status === 'flagged');
+  const hasOpenDocumentFlags = getFlaggedReviews(applicationData?.documentReviews).length > 0;
 
   // Calculate missing documents for specific next action
   const missingDocuments = requiredDocuments.filter(doc => doc.status === 'pending');
@@ -225,6 +175,11 @@ export default function Dashboard() {
       return 'Start Your Application';
     }
     
+    // Documents flagged by admissions come first
+    if (flaggedDocuments.length > 0) {
+      return `Replace Flagged: ${flaggedDocuments.map(doc => doc.name).join(' & ')}`;
+    }
+    
     if (missingDocuments.length === 0) {
       return 'All Documents Submitted - Under Review';
     }
@@ -237,33 +192,27 @@ export default function Dashboard() {
       return `Upload Missing: ${missingDocuments[0].name} & ${missingDocuments[1].name}`;
     }
     
-    // All 3 documents missing
+    // Most required documents missing
     return 'Upload All Required Documents';
   };
 
+  // Intake the application belongs to, or the next intake open to new applicants
+  const currentIntake = applicationData
+    ? findApplicationIntake(intakeCalendar, applicationData)
+    : getOpenIntakes(intakeCalendar)[0];
+  const intakeDeadline = currentIntake ? getIntakeDeadline(currentIntake) : null;
+  const formattedDeadline = intakeDeadline
+    ? new Date(intakeDeadline.date).toLocaleDateString('en-US', { 
+        month: 'short', 
+        day: 'numeric', 
+        year: 'numeric' 
+      })
+    : null;
+
   // Update application status with specific next action
   const applicationStatus = applicationData ? (() => {
     const progress = studentApplicationService.calculateProgress(applicationData);
     
-    // Calculate deadline as 7 days after application submission
-    const submissionDate = new Date(applicationData.submittedAt);
-    const deadlineDate = new Date(submissionDate);
-    deadlineDate.setDate(deadlineDate.getDate() + 7);
-    const formattedDeadline = deadlineDate.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric', 
-      year: 'numeric' 
-    });
-    
-    console.log('📅 Deadline calculation:', {
-      submissionDate: submissionDate.toISOString(),
-      submissionDateLocal: submissionDate.toLocaleDateString(),
-      deadlineDate: deadlineDate.toISOString(),
-      deadlineDateLocal: deadlineDate.toLocaleDateString(),
-      formattedDeadline,
-      applicationData: applicationData.submittedAt
-    });
-    
     return {
       status: progress.status,
       statusColor: progress.statusColor,
@@ -282,19 +231,38 @@ export default function Dashboard() {
     totalSteps: 5,
     nextAction: 'Start Your Application',
     progressPercentage: 0,
-    deadline: null // No deadline until application is submitted
+    deadline: formattedDeadline
   };
 
   // Generate programs of interest from real application data
+  // Ranked program choices with catalogue details
+  const describeProgram = (programName: string) => {
+    const catalogEntry = findProgramByName(programCatalog, programName);
+    return {
+      faculty: catalogEntry?.faculty || '',
+      details: catalogEntry
+        ? `${PROGRAM_LEVEL_LABELS[catalogEntry.level]} • ${catalogEntry.duration}`
+        : '',
+    };
+  };
+
   const programsOfInterest = applicationData ? [
     { 
       id: 1, 
+      rank: 'First Choice',
       name: applicationData.preferredProgram || 'Program Not Specified',
-      faculty: 'Faculty of Computing & Engineering', // This could be mapped from program
+      ...describeProgram(applicationData.preferredProgram),
       status: 'Applied'
-    }
+    },
+    ...(applicationData.secondaryProgram ? [{
+      id: 2,
+      rank: 'Second Choice',
+      name: applicationData.secondaryProgram,
+      ...describeProgram(applicationData.secondaryProgram),
+      status: 'Applied'
+    }] : [])
   ] : [
-    { id: 1, name: 'No program selected yet', faculty: '', status: 'Not Selected' },
+    { id: 1, rank: '', name: 'No program selected yet', faculty: '', details: '', status: 'Not Selected' },
   ];
 
   // Dynamic application checklist based on real data
@@ -320,22 +288,11 @@ export default function Dashboard() {
     {
       id: 4,
       title: 'Upload Documents',
-      completed: !!(applicationData?.passportPhoto && applicationData?.academicDocuments && applicationData?.identificationDocument),
-      date: (applicationData?.passportPhoto && applicationData?.academicDocuments && applicationData?.identificationDocument) 
+      completed: Boolean(applicationData) && missingDocuments.length === 0 && !hasOpenDocumentFlags,
+      date: applicationData && missingDocuments.length === 0
         ? new Date(applicationData.updatedAt).toLocaleDateString() : null,
-      // Dynamic deadline - 7 days after application submission, or null if no application
-      deadline: applicationData 
-        ? (() => {
-            const submissionDate = new Date(applicationData.submittedAt);
-            const deadlineDate = new Date(submissionDate);
-            deadlineDate.setDate(deadlineDate.getDate() + 7);
-            return deadlineDate.toLocaleDateString('en-US', { 
-              month: 'short', 
-              day: 'numeric', 
-              year: 'numeric' 
-            });
-          })()
-        : null // No deadline until application is submitted
+      // Documents are due by the intake's closing date (or late cutoff once it has closed)
+      deadline: applicationData ? formattedDeadline : null
     },
     {
       id: 5,
@@ -385,8 +342,15 @@ export default function Dashboard() {
                 <div>
                   <h2 className="text-xl font-bold text-slate-900">Application Status</h2>
                   <p className="text-slate-600">
-                    {applicationData ? `${applicationData.preferredIntake} Intake 2025` : 'August Intake 2025'}
+                    {currentIntake
+                      ? `${formatIntakeLabel(currentIntake)} Intake`
+                      : applicationData ? `${applicationData.preferredIntake} Intake` : 'No intake currently open'}
                   </p>
+                  {applicationData?.reference && (
+                    <p className="text-sm text-slate-500">
+                      Reference <span className="font-mono font-semibold text-slate-800">{applicationData.reference}</span>
+                    </p>
+                  )}
                 </div>
               </div>
               
@@ -440,25 +404,29 @@ export default function Dashboard() {
                       Deadline: {applicationStatus.deadline}
                     </p>
                   )}
-                  {applicationData && (
-                    <p className="text-xs text-slate-500 mt-1">
-                      (7 days from submission: {new Date(applicationData.submittedAt).toLocaleDateString('en-US', { 
-                        month: 'short', 
-                        day: 'numeric', 
-                        year: 'numeric' 
-                      })})
+                  {intakeDeadline && (
+                    <p className={`text-xs mt-1 ${intakeDeadline.daysRemaining <= 7 ? 'text-red-700 font-medium' : 'text-slate-500'}`}>
+                      {intakeDeadline.daysRemaining > 0
+                        ? `${intakeDeadline.daysRemaining} day${intakeDeadline.daysRemaining === 1 ? '' : 's'} left${intakeDeadline.isLate ? ' (late applications)' : ''}`
+                        : 'Applications for this intake have closed'}
                     </p>
                   )}
                 </div>
                 
                 {applicationData ? (
-                  <Link 
-                    href="/dashboard/documents" 
-                    className="w-full h-12 px-6 bg-[#780000] hover:bg-[#600000] text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2 shadow-sm"
-                  >
-                    <i className="ri-folder-line"></i>
-                    Manage Documents
-                  </Link>
+                  <>
+                    <Link 
+                      href="/dashboard/documents" 
+                      className="w-full h-12 px-6 bg-[#780000] hover:bg-[#600000] text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2 shadow-sm"
+                    >
+                      <i className="ri-folder-line"></i>
+                      Manage Documents
+                    </Link>
+                    <ApplicationSummaryButton
+                      application={applicationData}
+                      className="mt-2 w-full h-10 px-6 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                    />
+                  </>
                 ) : (
                   <Link 
                     href="/dashboard/application" 
@@ -540,6 +508,9 @@ export default function Dashboard() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left Column - Primary Content */}
           <div className="lg:col-span-2 space-y-6">
+            {/* Admission Offer - shown once admissions issues an offer */}
+            {applicationData?.offer && <AdmissionOfferCard application={applicationData} />}
+            
             {/* Application Checklist - Prominent */}
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
               <div className="flex items-center mb-6">
@@ -573,7 +544,7 @@ export default function Dashboard() {
                         {item.completed && item.date
                           ? `✓ Completed on ${item.date}`
                           : item.deadline && !item.completed
-                            ? `📅 Due by ${item.deadline}${item.title === 'Upload Documents' && applicationData ? ` (7 days from application)` : ''}`
+                            ? `📅 Due by ${item.deadline}${item.title === 'Upload Documents' && currentIntake ? ` (${formatIntakeLabel(currentIntake)} intake deadline)` : ''}`
                             : item.available === false
                               ? '⏳ Not yet available'
                               : '⏳ Pending'
@@ -588,6 +559,9 @@ export default function Dashboard() {
               </div>
             </div>
             
+            {/* Status History */}
+            {applicationData && <ApplicationTimeline application={applicationData} />}
+            
             {/* Programs Section */}
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
               <div className="flex items-center justify-between mb-6">
@@ -610,7 +584,12 @@ export default function Dashboard() {
                 {programsOfInterest.map((program) => (
                   <div key={program.id} className="p-4 border border-slate-200 rounded-lg">
                     <div className="flex justify-between items-start mb-2">
-                      <h3 className="font-semibold text-slate-900">{program.name}</h3>
+                      <div>
+                        {program.rank && (
+                          <p className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-1">{program.rank}</p>
+                        )}
+                        <h3 className="font-semibold text-slate-900">{program.name}</h3>
+                      </div>
                       <span className={`text-xs px-2 py-1 rounded-full font-medium ${
                         program.status === 'Applied' 
                           ? 'bg-green-100 text-green-700' 
@@ -620,6 +599,7 @@ export default function Dashboard() {
                       </span>
                     </div>
                     {program.faculty && <p className="text-sm text-slate-600">{program.faculty}</p>}
+                    {program.details && <p className="text-xs text-slate-500 mt-1">{program.details}</p>}
                   </div>
                 ))}
               </div>
@@ -647,16 +627,28 @@ export default function Dashboard() {
                   <div key={document.id} className="flex items-center justify-between p-3 border border-slate-200 rounded-lg">
                     <div>
                       <h3 className="font-medium text-slate-900 text-sm">{document.name}</h3>
-                      {document.date && (
+                      {document.reviewNote ? (
+                        <p className="text-xs text-red-700 mt-1">
+                          {document.reviewNote}
+                        </p>
+                      ) : document.date && (
                         <p className="text-xs text-slate-600 mt-1">
-                          Uploaded {document.date}
+                          {document.status === 'accepted' ? 'Accepted' : 'Uploaded'} {document.date}
                         </p>
                       )}
                     </div>
-                    {document.status === 'uploaded' ? (
+                    {document.status === 'uploaded' || document.status === 'accepted' ? (
                       <div className="flex items-center text-green-600">
-                        <i className="ri-check-circle-fill"></i>
+                        <i className={document.status === 'accepted' ? 'ri-shield-check-fill' : 'ri-check-circle-fill'}></i>
                       </div>
+                    ) : document.status === 'flagged' ? (
+                      <Link 
+                        href="/dashboard/documents"
+                        className="text-amber-600 hover:text-amber-700 p-1"
+                        title="Replace this document"
+                      >
+                        <i className="ri-error-warning-line"></i>
+                      </Link>
                     ) : (
                       <Link 
                         href="/dashboard/documents"
@@ -677,6 +669,9 @@ export default function Dashboard() {
                 Manage All Documents
               </Link>
             </div>
+            
+            {/* Sponsor confirmation */}
+            {applicationData && <SponsorStatusCard application={applicationData} />}
           </div>
         </div>
       </div>
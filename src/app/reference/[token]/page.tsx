@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useParams } from 'next/navigation';
+import referenceRequestService from '@/services/referenceRequestService';
+import { DOCUMENT_DEFINITIONS, MAX_DOCUMENT_SIZE_MB } from '@/lib/documentRequirements';
+import type { ReferenceRequestDetails } from '@/lib/refereeReferences';
+
+type PageState = 'loading' | 'invalid' | 'ready' | 'submitted';
+
+const letterDefinition = DOCUMENT_DEFINITIONS.recommendationLetters;
+
+/**
+ * Public page behind the link emailed to referees. No login: the token in the URL
+ * identifies the request and is consumed by the backend when the letter is uploaded.
+ */
+export default function ReferenceUploadPage() {
+  const { token } = useParams<{ token: string }>();
+  const [pageState, setPageState] = useState<PageState>('loading');
+  const [details, setDetails] = useState<ReferenceRequestDetails | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadRequest = async () => {
+      const result = await referenceRequestService.getRequestByToken(token);
+      if (result.success && result.data) {
+        setDetails(result.data);
+        setPageState('ready');
+      } else {
+        setErrorMessage(result.error || result.message);
+        setPageState('invalid');
+      }
+    };
+
+    void loadRequest();
+  }, [token]);
+
+  const handleFileChange = (selected: File | undefined) => {
+    setErrorMessage('');
+    if (!selected) return;
+
+    if (!letterDefinition.acceptedMimeTypes.includes(selected.type)) {
+      setErrorMessage(`Please upload a ${letterDefinition.fileTypesLabel} file.`);
+      return;
+    }
+    if (selected.size > MAX_DOCUMENT_SIZE_MB * 1024 * 1024) {
+      setErrorMessage(`The file must be smaller than ${MAX_DOCUMENT_SIZE_MB}MB.`);
+      return;
+    }
+
+    setFile(selected);
+  };
+
+  const handleUpload = async () => {
+    if (!file || !token) return;
+
+    setIsUploading(true);
+    const result = await referenceRequestService.submitReference(token, file);
+    setIsUploading(false);
+
+    if (result.success) {
+      setPageState('submitted');
+    } else {
+      setErrorMessage(result.error || result.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F7F7F7] flex items-center justify-center p-6">
+      <div className="w-full max-w-lg bg-white rounded-xl shadow-lg p-8">
+        <div className="text-center mb-6">
+          <Image
+            src="/small logo iuea.png"
+            alt="IUEA Logo"
+            width={96}
+            height={96}
+            className="w-24 h-24 mx-auto mb-3 object-contain"
+          />
+          <h1 className="text-2xl font-bold text-[#333333]">Recommendation Letter</h1>
+        </div>
+
+        {pageState === 'loading' && (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#780000]"></div>
+          </div>
+        )}
+
+        {pageState === 'invalid' && (
+          <div className="text-center">
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <i className="ri-link-unlink text-2xl text-red-600"></i>
+            </div>
+            <p className="text-[#333333] font-medium mb-2">This link can no longer be used</p>
+            <p className="text-sm text-[#333333]/70">
+              {errorMessage || 'It may have expired or the letter may already have been uploaded.'} Please ask the applicant to send you a new link.
+            </p>
+          </div>
+        )}
+
+        {pageState === 'ready' && details && (
+          <div className="space-y-4">
+            <p className="text-[#333333]">
+              Dear {details.refereeName}, <strong>{details.applicantName}</strong> has applied for the{' '}
+              <strong>{details.programName}</strong> at the International University of East Africa and has named you as a referee.
+            </p>
+            <p className="text-sm text-[#333333]/70">
+              Please upload a signed letter on official letterhead where possible. This link can be used once and expires on{' '}
+              {new Date(details.expiresAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}.
+            </p>
+
+            <label className="block border-2 border-dashed border-slate-300 rounded-lg p-6 text-center cursor-pointer hover:border-[#780000] transition-colors">
+              <input
+                type="file"
+                accept={letterDefinition.acceptedMimeTypes.join(',')}
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                className="hidden"
+              />
+              <i className="ri-upload-cloud-2-line text-3xl text-slate-400"></i>
+              <p className="text-sm text-[#333333] mt-2">{file ? file.name : 'Choose the letter to upload'}</p>
+              <p className="text-xs text-[#333333]/60 mt-1">
+                {letterDefinition.fileTypesLabel} · max {MAX_DOCUMENT_SIZE_MB}MB
+              </p>
+            </label>
+
+            {errorMessage && (
+              <p className="text-sm text-red-600">
+                <i className="ri-error-warning-line mr-1"></i>
+                {errorMessage}
+              </p>
+            )}
+
+            <button
+              onClick={handleUpload}
+              disabled={!file || isUploading}
+              className="w-full bg-[#780000] text-white py-3 rounded-lg font-medium hover:bg-[#600000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUploading ? 'Uploading...' : 'Submit Letter'}
+            </button>
+          </div>
+        )}
+
+        {pageState === 'submitted' && (
+          <div className="text-center">
+            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <i className="ri-check-line text-2xl text-green-600"></i>
+            </div>
+            <p className="text-[#333333] font-medium mb-2">Thank you!</p>
+            <p className="text-sm text-[#333333]/70">
+              Your letter has been received and added to {details?.applicantName || 'the applicant'}&apos;s application. You can close this page.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
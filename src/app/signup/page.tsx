@@ -6,6 +6,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import PhoneInput from 'react-phone-number-input';
 import WhatsAppVerificationService from '@/lib/whatsapp-verification';
+import { PASSWORD_MIN_LENGTH, toFieldErrorMap, validateSignupPayload } from '@/lib/formValidation';
 import { useAuth } from '@/contexts/AuthContext';
 import metaPixel from '@/lib/metaPixel';
 
@@ -42,7 +43,7 @@ export default function SignUpPage() {
 
   const validatePassword = (password: string) => {
     return {
-      length: password.length >= 6
+      length: password.length >= PASSWORD_MIN_LENGTH
     };
   };
 
@@ -63,18 +64,7 @@ export default function SignUpPage() {
   };
 
   const validateForm = () => {
-    const newErrors: Record<string, string> = {}
-
-    if (!formData.firstName.trim()) newErrors.firstName = 'First name is required';
-    if (!formData.lastName.trim()) newErrors.lastName = 'Last name is required';
-    if (!formData.email.trim()) newErrors.email = 'Email is required';
-    else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
-    if (!formData.whatsappNumber.trim()) newErrors.whatsappNumber = 'WhatsApp number is required';
-    else if (!whatsappVerified) newErrors.whatsappNumber = 'Please verify your WhatsApp number';
-    if (!formData.password) newErrors.password = 'Password is required';
-    else if (passwordStrength < 1) newErrors.password = 'Password must be at least 6 characters long';
+    const newErrors = toFieldErrorMap(validateSignupPayload(formData, { whatsappVerified }));
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -462,7 +452,7 @@ export default function SignUpPage() {
                   </div>
                   <div className={`flex items-center gap-1 text-xs ${passwordRules.length ? 'text-green-600' : 'text-[#333333]/60'}`}>
                     <i className={`ri-${passwordRules.length ? 'check' : 'close'}-line text-xs`}></i>
-                    <span>At least 6 characters</span>
+                    <span>At least {PASSWORD_MIN_LENGTH} characters</span>
                   </div>
                 </div>
               )}
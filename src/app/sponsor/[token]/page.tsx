@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useParams } from 'next/navigation';
+import sponsorInvitationService from '@/services/sponsorInvitationService';
+import {
+  FEE_STATUS_LABELS,
+  SPONSOR_RELATIONSHIP_LABELS,
+  requiresOrganisation,
+  validateSponsorResponse,
+  type SponsorInvitationDetails,
+  type SponsorRelationship,
+  type SponsorResponseInput,
+} from '@/lib/sponsorConfirmation';
+
+type PageState = 'loading' | 'invalid' | 'ready' | 'responded';
+
+const FEE_STATUS_STYLES = {
+  not_due: 'bg-slate-100 text-slate-700',
+  unpaid: 'bg-red-100 text-red-700',
+  partially_paid: 'bg-amber-100 text-amber-700',
+  paid: 'bg-green-100 text-green-700',
+};
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+    : '';
+
+/**
+ * Public page behind the link sent to the applicant's sponsor. No login: the token in the URL
+ * identifies the invitation, and the backend records the answer on the application and lead.
+ */
+export default function SponsorConfirmationPage() {
+  const { token } = useParams<{ token: string }>();
+  const [pageState, setPageState] = useState<PageState>('loading');
+  const [invitation, setInvitation] = useState<SponsorInvitationDetails | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [response, setResponse] = useState<SponsorResponseInput>({
+    confirmed: true,
+    sponsorName: '',
+    relationship: '',
+    organisation: '',
+    note: '',
+  });
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadInvitation = async () => {
+      const result = await sponsorInvitationService.getInvitationByToken(token);
+      if (result.success && result.data) {
+        setInvitation(result.data);
+        setPageState(result.data.response ? 'responded' : 'ready');
+      } else {
+        setErrorMessage(result.error || result.message);
+        setPageState('invalid');
+      }
+    };
+
+    void loadInvitation();
+  }, [token]);
+
+  const handleSubmit = async (confirmed: boolean) => {
+    if (!token || !invitation) return;
+
+    const input = { ...response, confirmed };
+    const validationErrors = validateSponsorResponse(input);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setErrors([]);
+    setIsSubmitting(true);
+    const result = await sponsorInvitationService.respondToInvitation(token, input);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      setInvitation({
+        ...invitation,
+        response: {
+          status: confirmed ? 'confirmed' : 'declined',
+          sponsorName: input.sponsorName,
+          relationship: input.relationship || null,
+          organisation: input.organisation || null,
+        },
+      });
+      setPageState('responded');
+    } else {
+      setErrors([result.error || result.message]);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F7F7F7] flex items-center justify-center p-6">
+      <div className="w-full max-w-lg bg-white rounded-xl shadow-lg p-8">
+        <div className="text-center mb-6">
+          <Image
+            src="/small logo iuea.png"
+            alt="IUEA Logo"
+            width={96}
+            height={96}
+            className="w-24 h-24 mx-auto mb-3 object-contain"
+          />
+          <h1 className="text-2xl font-bold text-[#333333]">Sponsor Confirmation</h1>
+        </div>
+
+        {pageState === 'loading' && (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#780000]"></div>
+          </div>
+        )}
+
+        {pageState === 'invalid' && (
+          <div className="text-center">
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <i className="ri-link-unlink text-2xl text-red-600"></i>
+            </div>
+            <p className="text-[#333333] font-medium mb-2">This link can no longer be used</p>
+            <p className="text-sm text-[#333333]/70">
+              {errorMessage || 'It may have expired.'} Please ask the applicant to send you a new invitation.
+            </p>
+          </div>
+        )}
+
+        {invitation && (pageState === 'ready' || pageState === 'responded') && (
+          <div className="space-y-4">
+            {/* Application summary */}
+            <div className="bg-slate-50 rounded-lg p-4 text-sm">
+              <p className="text-[#333333]">
+                <strong>{invitation.applicantName}</strong> has applied for the <strong>{invitation.programName}</strong>{' '}
+                ({invitation.intake} intake) and named you as their sponsor.
+              </p>
+              <p className="text-[#333333]/70 mt-1">Application status: {invitation.applicationStatus}</p>
+            </div>
+
+            {/* Fee status */}
+            <div className="border border-slate-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-[#333333]">Fee status</span>
+                <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${FEE_STATUS_STYLES[invitation.feeStatus.status]}`}>
+                  {FEE_STATUS_LABELS[invitation.feeStatus.status]}
+                </span>
+              </div>
+              <p className="text-sm text-[#333333]/70">{invitation.feeStatus.description}</p>
+              {invitation.feeStatus.amountDue ? (
+                <p className="text-sm text-[#333333] mt-1">
+                  Amount due: <strong>{invitation.feeStatus.currency || 'UGX'} {invitation.feeStatus.amountDue.toLocaleString()}</strong>
+                  {invitation.feeStatus.dueDate && ` by ${formatDate(invitation.feeStatus.dueDate)}`}
+                </p>
+              ) : null}
+            </div>
+
+            {pageState === 'responded' && invitation.response ? (
+              <div className={`p-4 rounded-lg border ${
+                invitation.response.status === 'confirmed' ? 'bg-green-50 border-green-200' : 'bg-slate-50 border-slate-200'
+              }`}>
+                <p className="font-medium text-[#333333]">
+                  {invitation.response.status === 'confirmed'
+                    ? 'Thank you for confirming your sponsorship.'
+                    : 'You have declined to sponsor this applicant.'}
+                </p>
+                <p className="text-sm text-[#333333]/70 mt-1">
+                  {invitation.response.sponsorName}
+                  {invitation.response.relationship && ` · ${SPONSOR_RELATIONSHIP_LABELS[invitation.response.relationship]}`}
+                  {invitation.response.organisation && ` · ${invitation.response.organisation}`}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-[#333333] mb-1">
+                    Your full name <span className="text-red-600">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={response.sponsorName}
+                    onChange={(e) => setResponse({ ...response, sponsorName: e.target.value })}
+                    className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[#333333] mb-1">
+                    Relationship to the applicant <span className="text-red-600">*</span>
+                  </label>
+                  <select
+                    value={response.relationship}
+                    onChange={(e) => setResponse({ ...response, relationship: e.target.value as SponsorRelationship | '' })}
+                    className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm bg-white"
+                  >
+                    <option value="">Select relationship</option>
+                    {(Object.keys(SPONSOR_RELATIONSHIP_LABELS) as SponsorRelationship[]).map((relationship) => (
+                      <option key={relationship} value={relationship}>
+                        {SPONSOR_RELATIONSHIP_LABELS[relationship]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[#333333] mb-1">
+                    Organisation
+                    {requiresOrganisation(response.relationship) && <span className="text-red-600"> *</span>}
+                  </label>
+                  <input
+                    type="text"
+                    value={response.organisation}
+                    onChange={(e) => setResponse({ ...response, organisation: e.target.value })}
+                    placeholder="Company, NGO or scholarship body, if applicable"
+                    className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[#333333] mb-1">Message to admissions</label>
+                  <textarea
+                    value={response.note}
+                    onChange={(e) => setResponse({ ...response, note: e.target.value })}
+                    rows={2}
+                    className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+                  />
+                </div>
+
+                {errors.length > 0 && (
+                  <ul className="text-sm text-red-600 space-y-1">
+                    {errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <p className="text-xs text-[#333333]/60">
+                  This link expires on {formatDate(invitation.expiresAt)}.
+                </p>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={() => handleSubmit(true)}
+                    disabled={isSubmitting}
+                    className="flex-1 bg-[#780000] text-white py-3 rounded-lg font-medium hover:bg-[#600000] transition-colors disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Saving...' : 'I will sponsor this applicant'}
+                  </button>
+                  <button
+                    onClick={() => handleSubmit(false)}
+                    disabled={isSubmitting}
+                    className="flex-1 bg-slate-100 text-slate-700 py-3 rounded-lg font-medium hover:bg-slate-200 transition-colors disabled:opacity-50"
+                  >
+                    I cannot sponsor
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
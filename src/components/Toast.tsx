@@ -103,13 +103,16 @@ const Toast: React.FC<ToastProps> = ({ toast, onClose }) => {
 interface ToastContainerProps {
   toasts: ToastMessage[];
   onClose: (id: string) => void;
+  position?: 'top-right' | 'bottom-right';
 }
 
-export const ToastContainer: React.FC<ToastContainerProps> = ({ toasts, onClose }) => {
+export const ToastContainer: React.FC<ToastContainerProps> = ({ toasts, onClose, position = 'top-right' }) => {
   if (toasts.length === 0) return null;
 
+  const positionClass = position === 'bottom-right' ? 'bottom-4 right-4' : 'top-4 right-4';
+
   return (
-    <div className="fixed top-4 right-4 z-50 w-96 max-w-[calc(100vw-2rem)] md:max-w-96">
+    <div className={`fixed ${positionClass} z-50 w-96 max-w-[calc(100vw-2rem)] md:max-w-96`}>
       {toasts.map((toast) => (
         <Toast key={toast.id} toast={toast} onClose={onClose} />
       ))}
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { studentApplicationService, type Application } from '@/lib/applicationService';
+import { APPLICANT_STATUS_LABELS } from '@/lib/applicationTimeline';
+import { DOCUMENT_TYPE_LABELS, getFlaggedReviews } from '@/lib/documentReview';
+import { ToastContainer, useToast } from '@/components/Toast';
+
+interface ApplicationsContextType {
+  applications: Application[];
+  latestApplication: Application | null;
+  loading: boolean;
+  refreshing: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+const ApplicationsContext = createContext<ApplicationsContextType>({
+  applications: [],
+  latestApplication: null,
+  loading: true,
+  refreshing: false,
+  error: null,
+  refresh: async () => { throw new Error('ApplicationsContext not initialized'); }
+});
+
+export const useApplications = () => {
+  const context = useContext(ApplicationsContext);
+  if (!context) {
+    throw new Error('useApplications must be used within an ApplicationsProvider');
+  }
+  return context;
+};
+
+// Fingerprint of the uploaded documents, used to detect document changes between snapshots
+const getDocumentsFingerprint = (application: Application) =>
+  [
+    application.passportPhoto || '',
+    application.identificationDocument || '',
+    ...(application.academicDocuments || []),
+    ...Object.values(application.supportingDocuments || {}).flat(),
+  ].join('|');
+
+const getStatusTitle = (status: string) =>
+  APPLICANT_STATUS_LABELS[status?.toUpperCase()]?.title || status;
+
+interface ApplicationsProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Holds the signed-in applicant's applications and keeps them in sync with Firestore.
+ * Changes made by admissions (status, documents) or the sponsor are pushed to every open page and
+ * announced with a toast.
+ */
+export const ApplicationsProvider: React.FC<ApplicationsProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const { toasts, removeToast, showInfo, showSuccess, showWarning } = useToast();
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [subscriptionKey, setSubscriptionKey] = useState(0);
+
+  const previousApplicationsRef = useRef<Application[] | null>(null);
+  const notifyRef = useRef({ showInfo, showSuccess, showWarning });
+  notifyRef.current = { showInfo, showSuccess, showWarning };
+
+  const announceChanges = useCallback((previous: Application[], next: Application[]) => {
+    const previousById = new Map(previous.map((application) => [application.id, application]));
+
+    next.forEach((application) => {
+      const before = previousById.get(application.id);
+      const programName = application.preferredProgram || 'your program';
+
+      if (!before) {
+        notifyRef.current.showInfo('New Application', `An application for ${programName} was added to your account.`);
+        return;
+      }
+
+      if (before.status !== application.status) {
+        notifyRef.current.showSuccess(
+          'Application Status Updated',
+          `Your application for ${programName} is now: ${getStatusTitle(application.status)}.`,
+          8000
+        );
+      }
+
+      if (getDocumentsFingerprint(before) !== getDocumentsFingerprint(application)) {
+        notifyRef.current.showInfo('Documents Updated', `The documents on your ${programName} application were updated.`);
+      }
+
+      const newlyFlagged = getFlaggedReviews(application.documentReviews).length > getFlaggedReviews(before.documentReviews).length;
+      if (newlyFlagged) {
+        const flaggedNames = getFlaggedReviews(application.documentReviews)
+          .map((review) => DOCUMENT_TYPE_LABELS[review.documentType]);
+        notifyRef.current.showWarning(
+          'Document Action Needed',
+          `Admissions needs you to replace: ${Array.from(new Set(flaggedNames)).join(', ')}.`,
+          8000
+        );
+      }
+
+      const sponsorStatus = application.sponsorship?.status;
+      if (sponsorStatus !== before.sponsorship?.status && (sponsorStatus === 'confirmed' || sponsorStatus === 'declined')) {
+        if (sponsorStatus === 'confirmed') {
+          notifyRef.current.showSuccess('Sponsor Confirmed', `Your sponsor confirmed they will sponsor your ${programName} studies.`, 8000);
+        } else {
+          notifyRef.current.showWarning('Sponsor Declined', 'Your sponsor declined the sponsorship request. Please update your sponsor details.', 8000);
+        }
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    previousApplicationsRef.current = null;
+
+    if (!user?.email || !user.emailVerified) {
+      setApplications([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const unsubscribe = studentApplicationService.subscribeToApplicationsByEmail(
+      user.email,
+      (nextApplications, { fromLocalWrite }) => {
+        const previous = previousApplicationsRef.current;
+
+        // Only announce changes that arrived from the server after the initial load
+        if (previous && !fromLocalWrite) {
+          announceChanges(previous, nextApplications);
+        }
+
+        previousApplicationsRef.current = nextApplications;
+        setApplications(nextApplications);
+        setError(null);
+        setLoading(false);
+      },
+      (subscriptionError) => {
+        setError(`Unable to load application data: ${subscriptionError.message}`);
+        setLoading(false);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user?.email, user?.emailVerified, subscriptionKey, announceChanges]);
+
+  // Manual refresh: fetch once and restart the listener (e.g. after a permission error)
+  const refresh = useCallback(async () => {
+    if (!user?.email) return;
+
+    setRefreshing(true);
+    try {
+      const latest = await studentApplicationService.getApplicationsByEmail(user.email);
+      previousApplicationsRef.current = latest;
+      setApplications(latest);
+      setError(null);
+      setSubscriptionKey((key) => key + 1);
+    } catch (refreshError) {
+      const message = refreshError instanceof Error ? refreshError.message : 'Failed to refresh application data';
+      setError(message);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [user?.email]);
+
+  const value = {
+    applications,
+    latestApplication: applications[0] ?? null,
+    loading,
+    refreshing,
+    error,
+    refresh
+  };
+
+  return (
+    <ApplicationsContext.Provider value={value}>
+      {children}
+      <ToastContainer toasts={toasts} onClose={removeToast} position="bottom-right" />
+    </ApplicationsContext.Provider>
+  );
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import { intakeCalendarService } from '../lib/intakeCalendarService';
+import type { IntakeCalendarEntry } from '../lib/intakeCalendar';
+
+interface UseIntakeCalendarReturn {
+  intakes: IntakeCalendarEntry[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Hook for reading the intake calendar with loading and error state
+ */
+export const useIntakeCalendar = (): UseIntakeCalendarReturn => {
+  const [intakes, setIntakes] = useState<IntakeCalendarEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchIntakes = useCallback(async (forceRefresh = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const calendar = await intakeCalendarService.getIntakes({ forceRefresh });
+      setIntakes(calendar);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load intakes';
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchIntakes();
+  }, [fetchIntakes]);
+
+  const refetch = useCallback(() => {
+    fetchIntakes(true);
+  }, [fetchIntakes]);
+
+  return {
+    intakes,
+    loading,
+    error,
+    refetch
+  };
+};
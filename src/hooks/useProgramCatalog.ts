@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import { programCatalogService } from '../lib/programCatalogService';
+import type { ProgramCatalogEntry } from '../lib/programCatalog';
+
+interface UseProgramCatalogReturn {
+  programs: ProgramCatalogEntry[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Hook for reading the program catalogue with loading and error state
+ */
+export const useProgramCatalog = (): UseProgramCatalogReturn => {
+  const [programs, setPrograms] = useState<ProgramCatalogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPrograms = useCallback(async (forceRefresh = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const catalogue = await programCatalogService.getPrograms({ forceRefresh });
+      setPrograms(catalogue);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load programs';
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPrograms();
+  }, [fetchPrograms]);
+
+  const refetch = useCallback(() => {
+    fetchPrograms(true);
+  }, [fetchPrograms]);
+
+  return {
+    programs,
+    loading,
+    error,
+    refetch
+  };
+};
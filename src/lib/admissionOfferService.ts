@@ -0,0 +1,222 @@
+/**
+ * Admission Offer Service
+ * Handles the applicant's response to an admission offer (accept, decline, request deferral)
+ * and starts the enrolment checklist once an offer is accepted.
+ */
+
+import { doc, runTransaction } from 'firebase/firestore';
+import { db, auth } from '@/lib/firebase';
+import { storageService } from '@/lib/storageService';
+import type { Application } from '@/lib/applicationService';
+import type { LeadTimelineEntry } from '@/lib/applicationTimeline';
+import { leadTimelineService } from '@/lib/leadTimelineService';
+
+export type OfferResponse = 'accepted' | 'declined' | 'deferral_requested';
+
+// Offer issued by admissions, stored on the application document as `offer`
+export interface AdmissionOffer {
+  letterUrl?: string; // Download URL of the offer letter PDF
+  letterPath?: string; // Storage path, used when no download URL was stored
+  terms: string[];
+  issuedAt?: string;
+  responseDeadline?: string;
+  response?: OfferResponse | null;
+  respondedAt?: string | null;
+  responseNote?: string | null;
+}
+
+export interface EnrolmentChecklistItem {
+  id: string;
+  title: string;
+  description: string;
+  completed: boolean;
+  completedAt?: string | null;
+}
+
+export interface OfferResponseResult {
+  success: boolean;
+  message: string;
+}
+
+// Steps every admitted student completes after accepting the offer
+export const DEFAULT_ENROLMENT_CHECKLIST: EnrolmentChecklistItem[] = [
+  {
+    id: 'tuition_deposit',
+    title: 'Pay Tuition Deposit',
+    description: 'Pay the commitment fee stated in your offer letter to secure your place.',
+    completed: false,
+    completedAt: null,
+  },
+  {
+    id: 'original_documents',
+    title: 'Present Original Documents',
+    description: 'Bring the originals of your academic and identification documents for verification.',
+    completed: false,
+    completedAt: null,
+  },
+  {
+    id: 'medical_form',
+    title: 'Submit Medical Form',
+    description: 'Complete the medical examination form and return it to the Dean of Students.',
+    completed: false,
+    completedAt: null,
+  },
+  {
+    id: 'student_registration',
+    title: 'Complete Student Registration',
+    description: 'Register for your first semester and collect your student ID.',
+    completed: false,
+    completedAt: null,
+  },
+  {
+    id: 'orientation',
+    title: 'Attend Orientation',
+    description: 'Join the orientation week before classes begin.',
+    completed: false,
+    completedAt: null,
+  },
+];
+
+const RESPONSE_TIMELINE: Record<OfferResponse, { action: string; notes: string; publicNote: string }> = {
+  accepted: {
+    action: 'OFFER_ACCEPTED',
+    notes: 'Applicant accepted the admission offer via the applicant portal',
+    publicNote: 'You accepted your admission offer. Your enrolment checklist is now available.',
+  },
+  declined: {
+    action: 'OFFER_DECLINED',
+    notes: 'Applicant declined the admission offer via the applicant portal',
+    publicNote: 'You declined your admission offer.',
+  },
+  deferral_requested: {
+    action: 'DEFERRAL_REQUESTED',
+    notes: 'Applicant requested to defer the admission offer via the applicant portal',
+    publicNote: 'You requested to defer your admission offer. Admissions will contact you.',
+  },
+};
+
+class AdmissionOfferService {
+  /**
+   * Whether the offer can still be answered
+   */
+  canRespond(application: Application): boolean {
+    const offer = application.offer;
+    if (!offer || offer.response) {
+      return false;
+    }
+
+    return !this.isDeadlinePassed(offer);
+  }
+
+  isDeadlinePassed(offer: AdmissionOffer): boolean {
+    if (!offer.responseDeadline) {
+      return false;
+    }
+
+    return new Date(offer.responseDeadline).getTime() < Date.now();
+  }
+
+  /**
+   * Resolve a viewable URL for the offer letter
+   */
+  async getOfferLetterUrl(offer: AdmissionOffer): Promise<string | null> {
+    if (offer.letterUrl) {
+      return offer.letterUrl;
+    }
+
+    if (offer.letterPath) {
+      return storageService.getDownloadURL(offer.letterPath);
+    }
+
+    return null;
+  }
+
+  /**
+   * Record the applicant's response on the application and the lead timeline. The offer is read
+   * again inside the transaction, so a second click or another tab cannot answer it twice.
+   */
+  async respondToOffer(
+    application: Application,
+    response: OfferResponse,
+    note?: string
+  ): Promise<OfferResponseResult> {
+    try {
+      if (!auth.currentUser || auth.currentUser.isAnonymous) {
+        throw new Error('Please sign in to respond to your offer.');
+      }
+
+      const timeline = RESPONSE_TIMELINE[response];
+      const applicationRef = doc(db, 'applications', application.id);
+
+      await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(applicationRef);
+        const current = snapshot.exists() ? (snapshot.data() as Partial<Application>) : null;
+        const offer = current?.offer;
+
+        if (!offer) {
+          throw new Error('No admission offer found for this application.');
+        }
+
+        if (offer.response) {
+          throw new Error('You have already responded to this offer.');
+        }
+
+        if (this.isDeadlinePassed(offer)) {
+          throw new Error('The response deadline for this offer has passed. Please contact admissions.');
+        }
+
+        const respondedAt = new Date().toISOString();
+        const applicationUpdate: Record<string, unknown> = {
+          'offer.response': response,
+          'offer.respondedAt': respondedAt,
+          'offer.responseNote': note?.trim() || null,
+          updatedAt: respondedAt,
+        };
+
+        if (response === 'accepted') {
+          applicationUpdate.enrolmentChecklist = DEFAULT_ENROLMENT_CHECKLIST;
+          applicationUpdate.enrolmentStartedAt = respondedAt;
+        }
+
+        transaction.update(applicationRef, applicationUpdate);
+
+        const leadId = current.leadId || application.leadId;
+        if (leadId) {
+          const timelineEntry: LeadTimelineEntry = {
+            date: respondedAt,
+            action: timeline.action,
+            status: String(current.status || application.status).toUpperCase(),
+            notes: note?.trim() ? `${timeline.notes}. Applicant note: ${note.trim()}` : timeline.notes,
+            visibility: 'public',
+            publicNote: timeline.publicNote,
+            metadata: { applicationId: application.id },
+          };
+
+          transaction.update(doc(db, 'leads', leadId), {
+            offerResponse: response,
+            offerRespondedAt: respondedAt,
+            updatedAt: respondedAt,
+          });
+          leadTimelineService.appendEntries(transaction, leadId, [timelineEntry]);
+        } else {
+          console.warn('⚠️ Application has no linked lead, offer response recorded on application only');
+        }
+      });
+
+      console.log(`✅ Offer response "${response}" recorded for application ${application.id}`);
+
+      return {
+        success: true,
+        message: timeline.publicNote,
+      };
+    } catch (error) {
+      console.error('❌ Error recording offer response:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to record your response',
+      };
+    }
+  }
+}
+
+export const admissionOfferService = new AdmissionOfferService();
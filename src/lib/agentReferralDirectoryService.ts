@@ -0,0 +1,115 @@
+/**
+ * Agent Referral Directory Service (server only)
+ * Loads an agent's referrals with Firebase Admin on behalf of the agent referrals route. The agent
+ * is resolved from the verified ID token's uid through `agents/{uid}`, a record only admissions
+ * writes, and only leads whose `submittedBy` matches that agent's code are read, so an agent can
+ * never see another agent's referrals.
+ */
+import { getAdminAuth, getAdminDb } from './firebaseAdmin';
+import type { AgentProfile } from './agentReferrals';
+import { toIsoDate } from './applicationTimeline';
+
+// Firestore `in` queries accept at most 30 values
+const LEAD_ID_CHUNK_SIZE = 30;
+
+export class AgentReferralError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'AgentReferralError';
+  }
+}
+
+// Referral as returned by the agent referrals route
+export interface AgentReferralRecord {
+  leadId: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  leadStatus: string;
+  program: string | null;
+  createdAt: string | null;
+  application: ({ id: string } & Record<string, unknown>) | null;
+}
+
+/**
+ * Verify the bearer token and resolve the agent it belongs to. Signed-in accounts without an
+ * active `agents/{uid}` record are refused with 403.
+ */
+export const authenticateAgent = async (authorization: string | null): Promise<AgentProfile> => {
+  const token = authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) {
+    throw new AgentReferralError('Please sign in to view your referrals', 401);
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await getAdminAuth().verifyIdToken(token);
+  } catch (error) {
+    console.warn('⚠️ Rejected agent request with invalid token:', error);
+    throw new AgentReferralError('Your session has expired. Please sign in again.', 401);
+  }
+
+  if (decodedToken.firebase.sign_in_provider === 'anonymous' || !decodedToken.email_verified) {
+    throw new AgentReferralError('This account is not registered as an agent', 403);
+  }
+
+  const agent = (await getAdminDb().collection('agents').doc(decodedToken.uid).get()).data();
+  if (!agent || agent.active === false || !agent.code) {
+    throw new AgentReferralError('This account is not registered as an agent', 403);
+  }
+
+  return {
+    code: String(agent.code),
+    name: String(agent.name || decodedToken.name || ''),
+    email: agent.email || decodedToken.email || null,
+  };
+};
+
+class AgentReferralDirectoryService {
+  /**
+   * Leads attributed to the agent, newest first, each with its most recently submitted application
+   */
+  async getReferrals(agent: AgentProfile): Promise<AgentReferralRecord[]> {
+    const db = getAdminDb();
+    const leadsSnapshot = await db.collection('leads').where('submittedBy', '==', agent.code).get();
+    const leadIds = leadsSnapshot.docs.map((leadDoc) => leadDoc.id);
+
+    const applicationsByLead = new Map<string, { id: string } & Record<string, unknown>>();
+    for (let start = 0; start < leadIds.length; start += LEAD_ID_CHUNK_SIZE) {
+      const applicationsSnapshot = await db
+        .collection('applications')
+        .where('leadId', 'in', leadIds.slice(start, start + LEAD_ID_CHUNK_SIZE))
+        .get();
+
+      applicationsSnapshot.docs.forEach((applicationDoc) => {
+        const application = applicationDoc.data();
+        // The applicant's uid stays on the server
+        delete application.uid;
+        const leadId = String(application.leadId);
+        const current = applicationsByLead.get(leadId);
+
+        if (!current || String(application.submittedAt || '') > String(current.submittedAt || '')) {
+          applicationsByLead.set(leadId, { id: applicationDoc.id, ...application });
+        }
+      });
+    }
+
+    return leadsSnapshot.docs
+      .map((leadDoc): AgentReferralRecord => {
+        const lead = leadDoc.data();
+        return {
+          leadId: leadDoc.id,
+          name: lead.name || '',
+          email: lead.email || '',
+          phone: lead.phone || null,
+          leadStatus: lead.status || '',
+          program: lead.program || null,
+          createdAt: toIsoDate(lead.createdAt),
+          application: applicationsByLead.get(leadDoc.id) ?? null,
+        };
+      })
+      .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+  }
+}
+
+export const agentReferralDirectoryService = new AgentReferralDirectoryService();
@@ -0,0 +1,159 @@
+/**
+ * Agent Referrals
+ * Agents and counsellors share signup links carrying their code, which is stored on the lead as
+ * `submittedBy`. The agent referrals route returns only the leads attributed to the signed-in agent; this module
+ * turns them into the statuses, per-intake conversion and outstanding documents shown in the agent area.
+ */
+import type { Application } from './applicationService';
+import { APPLICANT_STATUS_LABELS } from './applicationTimeline';
+import { getApplicantNationality, getDocumentRequirements, getMissingRequiredDocuments } from './documentRequirements';
+import { DOCUMENT_TYPE_LABELS, getFlaggedReviews } from './documentReview';
+import { findApplicationIntake, formatIntakeLabel, type IntakeCalendarEntry } from './intakeCalendar';
+import { findProgramByName, type ProgramCatalogEntry } from './programCatalog';
+
+export interface AgentProfile {
+  code: string;
+  name: string;
+  email?: string | null;
+}
+
+// A lead attributed to the agent, with its application when one has been started
+export interface AgentReferral {
+  leadId: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+  leadStatus: string;
+  program?: string | null;
+  createdAt: string;
+  application: Application | null;
+}
+
+export interface IntakeConversion {
+  intake: string;
+  referred: number;
+  applied: number;
+  admitted: number;
+  enrolled: number;
+  conversionRate: number; // Share of referrals admitted or enrolled, 0-100
+}
+
+export interface ReferralSummary {
+  total: number;
+  applied: number;
+  admitted: number;
+  enrolled: number;
+  withOutstandingDocuments: number;
+  conversionRate: number;
+  byIntake: IntakeConversion[];
+}
+
+export const NO_INTAKE_LABEL = 'No intake yet';
+
+// Lead statuses reached once an application has been submitted
+const APPLIED_STATUSES = ['APPLIED', 'MISSING_DOCUMENT', 'IN_REVIEW', 'QUALIFIED', 'ADMITTED', 'ENROLLED', 'DEFERRED'];
+const ADMITTED_STATUSES = ['ADMITTED', 'ENROLLED'];
+
+export const REFERRAL_STATUS_STYLES: Record<string, string> = {
+  INTERESTED: 'bg-slate-100 text-slate-700',
+  APPLIED: 'bg-blue-100 text-blue-700',
+  MISSING_DOCUMENT: 'bg-amber-100 text-amber-700',
+  IN_REVIEW: 'bg-blue-100 text-blue-700',
+  QUALIFIED: 'bg-indigo-100 text-indigo-700',
+  ADMITTED: 'bg-green-100 text-green-700',
+  ENROLLED: 'bg-green-100 text-green-700',
+  DEFERRED: 'bg-purple-100 text-purple-700',
+  EXPIRED: 'bg-slate-200 text-slate-600',
+};
+
+export const getReferralStatusLabel = (status: string): string =>
+  APPLICANT_STATUS_LABELS[status?.toUpperCase()]?.title || status || 'Unknown';
+
+const hasApplied = (referral: AgentReferral) =>
+  APPLIED_STATUSES.includes(referral.leadStatus?.toUpperCase()) ||
+  Boolean(referral.application && referral.application.status !== 'draft');
+
+const isAdmitted = (referral: AgentReferral) => ADMITTED_STATUSES.includes(referral.leadStatus?.toUpperCase());
+
+const toRate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
+
+/**
+ * Required documents still missing or flagged by admissions, as display labels
+ */
+export const getOutstandingDocuments = (referral: AgentReferral, programs: ProgramCatalogEntry[]): string[] => {
+  const application = referral.application;
+  if (!application) {
+    return [];
+  }
+
+  const requirements = getDocumentRequirements({
+    level: findProgramByName(programs, application.preferredProgram)?.level,
+    nationality: getApplicantNationality(application.countryOfBirth),
+  });
+
+  const outstanding = new Set(getMissingRequiredDocuments(application, requirements).map((requirement) => requirement.label));
+  getFlaggedReviews(application.documentReviews).forEach((review) => {
+    outstanding.add(DOCUMENT_TYPE_LABELS[review.documentType]);
+  });
+
+  return Array.from(outstanding);
+};
+
+/**
+ * Intake a referral counts towards, when its application names one
+ */
+const findReferralIntake = (referral: AgentReferral, intakes: IntakeCalendarEntry[]) =>
+  referral.application?.preferredIntake
+    ? findApplicationIntake(intakes, referral.application)
+    : undefined;
+
+/**
+ * Intake label shown for a referral, e.g. "August 2027"
+ */
+export const getReferralIntake = (referral: AgentReferral, intakes: IntakeCalendarEntry[]): string => {
+  const intake = findReferralIntake(referral, intakes);
+  if (intake) {
+    return formatIntakeLabel(intake);
+  }
+
+  return referral.application?.preferredIntake || NO_INTAKE_LABEL;
+};
+
+export const summarizeReferrals = (
+  referrals: AgentReferral[],
+  intakes: IntakeCalendarEntry[],
+  programs: ProgramCatalogEntry[]
+): ReferralSummary => {
+  const byIntake = new Map<string, IntakeConversion>();
+  const intakeOrder = new Map<string, number>();
+
+  referrals.forEach((referral) => {
+    const label = getReferralIntake(referral, intakes);
+    const intake = findReferralIntake(referral, intakes);
+    // Referrals without a calendar intake are listed last
+    intakeOrder.set(label, intake ? new Date(intake.opensAt).getTime() : Number.MAX_SAFE_INTEGER);
+    const entry = byIntake.get(label) || { intake: label, referred: 0, applied: 0, admitted: 0, enrolled: 0, conversionRate: 0 };
+
+    entry.referred += 1;
+    if (hasApplied(referral)) entry.applied += 1;
+    if (isAdmitted(referral)) entry.admitted += 1;
+    if (referral.leadStatus?.toUpperCase() === 'ENROLLED') entry.enrolled += 1;
+    entry.conversionRate = toRate(entry.admitted, entry.referred);
+
+    byIntake.set(label, entry);
+  });
+
+  const admitted = referrals.filter(isAdmitted).length;
+
+  return {
+    total: referrals.length,
+    applied: referrals.filter(hasApplied).length,
+    admitted,
+    enrolled: referrals.filter((referral) => referral.leadStatus?.toUpperCase() === 'ENROLLED').length,
+    withOutstandingDocuments: referrals.filter((referral) => getOutstandingDocuments(referral, programs).length > 0).length,
+    conversionRate: toRate(admitted, referrals.length),
+    byIntake: Array.from(byIntake.values()).sort(
+      (a, b) => (intakeOrder.get(a.intake) ?? 0) - (intakeOrder.get(b.intake) ?? 0)
+    ),
+  };
+};
@@ -0,0 +1,61 @@
+/**
+ * Applicant Timeline Service (server only)
+ * Reads a lead's timeline with Firebase Admin on behalf of the applicant timeline route, so the
+ * applicant's browser receives only the public history of their own application, never the lead
+ * document or its internal entries. Legacy `timeline` arrays on older leads are merged in.
+ */
+import { getAdminDb } from './firebaseAdmin';
+import {
+  LEAD_TIMELINE_COLLECTION,
+  buildApplicantTimeline,
+  buildSubmissionTimelineEntry,
+  mergeLeadTimeline,
+  type ApplicantTimelineEntry,
+  type LeadTimelineEntry,
+} from './applicationTimeline';
+import { LEAD_STATUSES } from './leadLifecycle';
+import { ApplicationSubmissionError, type ApplicationSubmitter } from './applicationSubmissionService';
+
+class ApplicantTimelineService {
+  /**
+   * The applicant-facing status history of one of the applicant's applications. A lead can carry
+   * several applications, so entries tagged with another application's `metadata.applicationId`
+   * are left out; untagged entries concern the lead as a whole and are kept.
+   */
+  async getTimeline(applicant: ApplicationSubmitter, applicationId: string): Promise<ApplicantTimelineEntry[]> {
+    const db = getAdminDb();
+    const snapshot = await db.collection('applications').doc(applicationId).get();
+    const application = snapshot.data();
+
+    if (!snapshot.exists || !application) {
+      throw new ApplicationSubmissionError('Application not found', 404);
+    }
+    if (application.uid !== applicant.uid) {
+      throw new ApplicationSubmissionError('You can only view your own application', 403);
+    }
+
+    const submittedEntry = buildSubmissionTimelineEntry(application.submittedAt);
+    if (!application.leadId) {
+      return buildApplicantTimeline([submittedEntry]);
+    }
+
+    const leadRef = db.collection('leads').doc(String(application.leadId));
+    const [leadSnapshot, entriesSnapshot] = await Promise.all([
+      leadRef.get(),
+      leadRef.collection(LEAD_TIMELINE_COLLECTION).get(),
+    ]);
+
+    const entries = mergeLeadTimeline(
+      leadSnapshot.data()?.timeline,
+      entriesSnapshot.docs.map((entryDoc) => entryDoc.data() as LeadTimelineEntry)
+    ).filter((entry) => {
+      const entryApplicationId = entry.metadata?.applicationId;
+      return !entryApplicationId || entryApplicationId === applicationId;
+    });
+
+    const hasSubmissionEntry = entries.some((entry) => (entry.status || '').toUpperCase() === LEAD_STATUSES.APPLIED);
+    return buildApplicantTimeline(hasSubmissionEntry ? entries : [...entries, submittedEntry]);
+  }
+}
+
+export const applicantTimelineService = new ApplicantTimelineService();
@@ -0,0 +1,63 @@
+/**
+ * Application Records
+ * Status and source values shared with the backend, and the shapes of the application and lead
+ * documents written at submission. Free of Firebase imports so the submission route can use it.
+ */
+import type { LeadMatchCandidate } from './leadMatching';
+
+// Statuses and the transitions between them live in the lifecycle module
+export { APPLICATION_STATUSES, LEAD_STATUSES } from './leadLifecycle';
+
+export const LEAD_SOURCES = {
+  WEBSITE: "WEBSITE",
+  META_ADS: "META_ADS",
+  GOOGLE_ADS: "GOOGLE_ADS",
+  WHATSAPP: "WHATSAPP",
+  LINKEDIN: "LINKEDIN",
+  REFERRAL: "REFERRAL",
+  WALK_IN: "WALK_IN",
+  PHONE: "PHONE",
+  EMAIL: "EMAIL",
+  EDUCATION_FAIR: "EDUCATION_FAIR",
+  PARTNER: "PARTNER",
+  APPLICATION_FORM: "APPLICATION_FORM",
+  MANUAL: "MANUAL",
+  SOCIAL_MEDIA: "SOCIAL_MEDIA",
+  EVENT: "EVENT",
+  OTHER: "OTHER",
+} as const;
+
+export const APPLICATION_REFERENCE_PREFIX = 'IUEA';
+
+/**
+ * Reference applicants quote to admissions, numbered per intake: IUEA-2027AUG-000123 is the
+ * 123rd application to the August 2027 intake. The document ID stays the application's key.
+ */
+export const formatApplicationReference = (intake: { name: string; year: number }, sequence: number): string =>
+  `${APPLICATION_REFERENCE_PREFIX}-${intake.year}${intake.name.slice(0, 3).toUpperCase()}-${String(sequence).padStart(6, '0')}`;
+
+// Direct application/lead creation response
+export interface DirectApplicationResponse {
+  success: boolean;
+  message: string;
+  applicationId: string;
+  reference?: string; // Missing on submissions recorded before references were issued
+  leadId: string;
+  application: Record<string, unknown>;
+  lead: Record<string, unknown>;
+  replayed?: boolean; // Set when a repeated submit returned the response of the first one
+}
+
+// Fields of an existing lead that carry over when an application is submitted for it, and the
+// contact fields it is matched on
+export interface ExistingLeadRecord extends LeadMatchCandidate {
+  status: string;
+  source: string;
+  createdAt: string;
+  assignedTo?: string;
+  priority?: string;
+  totalInteractions?: number;
+  lastInteractionAt?: string;
+  notes?: string;
+  tags?: string[];
+}
@@ -0,0 +1,198 @@
+/**
+ * Application Request Service
+ * Self-service withdrawal and deferral requests raised by applicants.
+ * Each request is stored in `applicationRequests` for admissions to resolve, mirrored on the
+ * application as `pendingRequest` (which locks the form) and recorded on the lead timeline.
+ */
+
+import { collection, doc, writeBatch } from 'firebase/firestore';
+import { db, auth } from '@/lib/firebase';
+import type { Application } from '@/lib/applicationService';
+import type { LeadTimelineEntry } from '@/lib/applicationTimeline';
+import { leadTimelineService } from '@/lib/leadTimelineService';
+
+export type ApplicationRequestType = 'withdrawal' | 'deferral';
+export type ApplicationRequestStatus = 'pending' | 'approved' | 'rejected';
+
+// Request record stored in the `applicationRequests` collection
+export interface ApplicationRequest {
+  id: string;
+  applicationId: string;
+  leadId: string | null;
+  uid: string;
+  email: string;
+  type: ApplicationRequestType;
+  reason: string;
+  currentIntake: string;
+  targetIntake: string | null;
+  status: ApplicationRequestStatus;
+  createdAt: string;
+  resolvedAt: string | null;
+  resolutionNote: string | null;
+}
+
+// Summary of the latest request, stored on the application document as `pendingRequest`
+export interface ApplicationRequestSummary {
+  id: string;
+  type: ApplicationRequestType;
+  status: ApplicationRequestStatus;
+  reason: string;
+  targetIntake: string | null;
+  createdAt: string;
+  resolvedAt?: string | null;
+  resolutionNote?: string | null;
+}
+
+export interface ApplicationRequestInput {
+  type: ApplicationRequestType;
+  reason: string;
+  targetIntake?: string;
+}
+
+export const MIN_REQUEST_REASON_LENGTH = 10;
+
+export const REQUEST_TYPE_LABELS: Record<ApplicationRequestType, string> = {
+  withdrawal: 'Withdrawal',
+  deferral: 'Deferral',
+};
+
+// Statuses after which an application can no longer be withdrawn or deferred
+const CLOSED_STATUSES = ['ENROLLED', 'EXPIRED', 'DEFERRED'];
+
+class ApplicationRequestService {
+  /**
+   * A pending request locks the application until admissions resolves it
+   */
+  isApplicationLocked(application: Pick<Application, 'pendingRequest'> | null | undefined): boolean {
+    return application?.pendingRequest?.status === 'pending';
+  }
+
+  canSubmitRequest(application: Application): boolean {
+    return !this.isApplicationLocked(application) && !CLOSED_STATUSES.includes(application.status.toUpperCase());
+  }
+
+  /**
+   * Validate request input, returning user-facing error messages
+   */
+  validateRequest(application: Application, input: ApplicationRequestInput): string[] {
+    const errors: string[] = [];
+
+    if (input.reason.trim().length < MIN_REQUEST_REASON_LENGTH) {
+      errors.push(`Please give a reason of at least ${MIN_REQUEST_REASON_LENGTH} characters`);
+    }
+
+    if (input.type === 'deferral' && !input.targetIntake) {
+      errors.push('Please select the intake you would like to defer to');
+    }
+
+    if (this.isApplicationLocked(application)) {
+      errors.push('You already have a request awaiting a decision from admissions');
+    } else if (CLOSED_STATUSES.includes(application.status.toUpperCase())) {
+      errors.push('This application can no longer be withdrawn or deferred');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Create a withdrawal or deferral request for an application
+   */
+  async submitRequest(
+    application: Application,
+    input: ApplicationRequestInput
+  ): Promise<{ success: boolean; message: string; requestId?: string }> {
+    try {
+      const currentUser = auth.currentUser;
+      if (!currentUser || currentUser.isAnonymous || !currentUser.email) {
+        throw new Error('Please sign in to manage your application.');
+      }
+
+      const errors = this.validateRequest(application, input);
+      if (errors.length > 0) {
+        throw new Error(errors[0]);
+      }
+
+      const createdAt = new Date().toISOString();
+      const requestRef = doc(collection(db, 'applicationRequests'));
+      const reason = input.reason.trim();
+      const targetIntake = input.type === 'deferral' ? input.targetIntake || null : null;
+
+      const request: Omit<ApplicationRequest, 'id'> = {
+        applicationId: application.id,
+        leadId: application.leadId || null,
+        uid: currentUser.uid,
+        email: currentUser.email.toLowerCase(),
+        type: input.type,
+        reason,
+        currentIntake: application.preferredIntake,
+        targetIntake,
+        status: 'pending',
+        createdAt,
+        resolvedAt: null,
+        resolutionNote: null,
+      };
+
+      const summary: ApplicationRequestSummary = {
+        id: requestRef.id,
+        type: input.type,
+        status: 'pending',
+        reason,
+        targetIntake,
+        createdAt,
+        resolvedAt: null,
+        resolutionNote: null,
+      };
+
+      const batch = writeBatch(db);
+      batch.set(requestRef, request);
+      batch.update(doc(db, 'applications', application.id), {
+        pendingRequest: summary,
+        updatedAt: createdAt,
+      });
+
+      if (application.leadId) {
+        const isDeferral = input.type === 'deferral';
+        const timelineEntry: LeadTimelineEntry = {
+          date: createdAt,
+          action: isDeferral ? 'DEFERRAL_REQUESTED' : 'WITHDRAWAL_REQUESTED',
+          status: application.status.toUpperCase(),
+          notes: isDeferral
+            ? `Applicant requested deferral from ${application.preferredIntake} to ${targetIntake} intake. Reason: ${reason}`
+            : `Applicant requested to withdraw the application. Reason: ${reason}`,
+          visibility: 'public',
+          publicNote: isDeferral
+            ? `You asked to defer your application to the ${targetIntake} intake. Admissions will review your request.`
+            : 'You asked to withdraw your application. Admissions will review your request.',
+          metadata: {
+            applicationId: application.id,
+            requestId: requestRef.id,
+            source: 'APPLICANT_PORTAL',
+          },
+        };
+
+        batch.update(doc(db, 'leads', application.leadId), {
+          updatedAt: createdAt,
+        });
+        leadTimelineService.appendEntries(batch, application.leadId, [timelineEntry]);
+      }
+
+      await batch.commit();
+
+      console.log(`✅ ${REQUEST_TYPE_LABELS[input.type]} request ${requestRef.id} created for application ${application.id}`);
+
+      return {
+        success: true,
+        message: `Your ${REQUEST_TYPE_LABELS[input.type].toLowerCase()} request has been sent to admissions.`,
+        requestId: requestRef.id,
+      };
+    } catch (error) {
+      console.error('❌ Error submitting application request:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to submit your request',
+      };
+    }
+  }
+}
+
+export const applicationRequestService = new ApplicationRequestService();
@@ -12,16 +12,53 @@ import {
   getDocs,
   DocumentData,
   QueryDocumentSnapshot,
-  writeBatch,
   getDoc,
   setDoc,
   deleteDoc,
-  limit
+  limit,
+  onSnapshot,
+  or,
+  runTransaction,
+  Unsubscribe
 } from 'firebase/firestore';
-import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
-import { signInAnonymously } from 'firebase/auth';
+import { ref, uploadBytes, getDownloadURL, deleteObject, getBlob } from 'firebase/storage';
 import { db, storage, auth } from '@/lib/firebase';
 import applicationNotificationService from '@/services/applicationNotificationService';
+import { buildApplicantTimeline, buildSubmissionTimelineEntry, type ApplicantTimelineEntry } from '@/lib/applicationTimeline';
+import type { AdmissionOffer, EnrolmentChecklistItem } from '@/lib/admissionOfferService';
+import type { ApplicationRequestSummary } from '@/lib/applicationRequestService';
+import { normalizeDocumentReviews, resolveReviews, type DocumentReview } from '@/lib/documentReview';
+import {
+  DOCUMENT_DEFINITIONS,
+  MAX_DOCUMENT_SIZE_MB,
+  REUSABLE_DOCUMENT_TYPES,
+  getUploadedDocumentUrls,
+  isCoreDocumentType,
+  normalizeSupportingDocuments,
+  type DocumentDefinition,
+  type DocumentType,
+  type SupportingDocumentType,
+} from '@/lib/documentRequirements';
+import { normalizeReferences, type RefereeReference } from '@/lib/refereeReferences';
+import { normalizeSponsorship, type SponsorConfirmation } from '@/lib/sponsorConfirmation';
+import { cleanEducationHistory, normalizeEducationHistory, type QualificationEntry } from '@/lib/educationHistory';
+import {
+  APPLICATION_STATUSES,
+  LEAD_SOURCES,
+  LEAD_STATUSES,
+  type DirectApplicationResponse,
+  type ExistingLeadRecord,
+} from '@/lib/applicationRecords';
+import type { FieldError } from '@/lib/formValidation';
+import {
+  emailLookupValues,
+  matchLead,
+  normalizeEmail,
+  normalizePhone,
+  phoneLookupValues,
+  type LeadMatchApplicant,
+  type LeadMatchResult,
+} from '@/lib/leadMatching';
 
 // Application data interface for application portal form submissions
 export interface StudentApplicationData {
@@ -35,7 +72,9 @@ export interface StudentApplicationData {
   modeOfStudy: string;
   preferredIntake: string;
   preferredProgram: string;
+  secondaryProgram?: string; // Ranked second choice, same mode and intake
   postalAddress: string;
+  educationHistory?: QualificationEntry[]; // Previous qualifications with subject grades
   sponsorTelephone?: string;
   sponsorEmail?: string;
   howDidYouHear?: string;
@@ -45,7 +84,7 @@ export interface StudentApplicationData {
 // Document upload interface
 export interface DocumentUpload {
   file: File;
-  type: 'passportPhoto' | 'academicDocuments' | 'identificationDocument';
+  type: DocumentType;
   applicationId: string;
   studentEmail: string;
 }
@@ -71,6 +110,7 @@ export interface ApplicationResponse {
 // Application data interface for retrieved applications
 export interface Application {
   id: string;
+  reference?: string; // e.g. IUEA-2027AUG-000123; missing on applications submitted before references
   name: string;
   email: string;
   phoneNumber: string;
@@ -79,7 +119,9 @@ export interface Application {
   gender: string;
   modeOfStudy: string;
   preferredIntake: string;
+  intakeId?: string; // Intake calendar id, e.g. "2027-JAN"
   preferredProgram: string;
+  secondaryProgram?: string;
   postalAddress?: string;
   status: string;
   submittedAt: string;
@@ -87,11 +129,26 @@ export interface Application {
   passportPhoto?: string;
   academicDocuments?: string[]; // Changed to array to support multiple documents
   identificationDocument?: string;
+  educationHistory?: QualificationEntry[];
   // Add sponsor and additional information fields
   sponsorTelephone?: string;
   sponsorEmail?: string;
   howDidYouHear?: string;
   additionalNotes?: string;
+  leadId?: string;
+  // Admission offer issued by admissions and the enrolment steps after acceptance
+  offer?: AdmissionOffer;
+  enrolmentChecklist?: EnrolmentChecklistItem[];
+  // Latest withdrawal/deferral request; a pending request locks the application
+  pendingRequest?: ApplicationRequestSummary | null;
+  // Per-document outcomes recorded by admissions
+  documentReviews?: DocumentReview[];
+  // Document types beyond the three core ones, e.g. recommendation letters
+  supportingDocuments?: Partial<Record<SupportingDocumentType, string[]>>;
+  // Recommendation letters requested from referees through upload links
+  references?: RefereeReference[];
+  // Sponsor's answer to the sponsorship invitation
+  sponsorship?: SponsorConfirmation | null;
 }
 
 export interface DraftDocumentMetadata {
@@ -100,7 +157,7 @@ export interface DraftDocumentMetadata {
   size: number;
   contentType: string;
   uploadedAt: string;
-  type: 'passportPhoto' | 'academicDocuments' | 'identificationDocument';
+  type: DocumentType;
 }
 
 export interface ApplicationDraft {
@@ -113,67 +170,26 @@ export interface ApplicationDraft {
   lastSavedAt?: string;
   createdAt: string;
   updatedAt: string;
+  sourceApplicationId?: string | null; // Application the draft was started from, if any
+  revision?: number; // Incremented on every form save; a mismatch means another device saved first
+  submissionKey?: string; // Idempotency key sent when the draft is submitted
   documents: {
     passportPhoto?: DraftDocumentMetadata;
     identificationDocument?: DraftDocumentMetadata;
     academicDocuments: DraftDocumentMetadata[];
+    supportingDocuments?: Partial<Record<SupportingDocumentType, DraftDocumentMetadata[]>>;
   };
 }
 
-// Lead constants (matching backend)
-export const LEAD_STATUSES = {
-  INTERESTED: "INTERESTED",
-  APPLIED: "APPLIED",
-  MISSING_DOCUMENT: "MISSING_DOCUMENT",
-  IN_REVIEW: "IN_REVIEW",
-  QUALIFIED: "QUALIFIED",
-  ADMITTED: "ADMITTED",
-  ENROLLED: "ENROLLED",
-  DEFERRED: "DEFERRED",
-  EXPIRED: "EXPIRED",
-} as const;
-
-export const LEAD_SOURCES = {
-  WEBSITE: "WEBSITE",
-  META_ADS: "META_ADS",
-  GOOGLE_ADS: "GOOGLE_ADS",
-  WHATSAPP: "WHATSAPP",
-  LINKEDIN: "LINKEDIN",
-  REFERRAL: "REFERRAL",
-  WALK_IN: "WALK_IN",
-  PHONE: "PHONE",
-  EMAIL: "EMAIL",
-  EDUCATION_FAIR: "EDUCATION_FAIR",
-  PARTNER: "PARTNER",
-  APPLICATION_FORM: "APPLICATION_FORM",
-  MANUAL: "MANUAL",
-  SOCIAL_MEDIA: "SOCIAL_MEDIA",
-  EVENT: "EVENT",
-  OTHER: "OTHER",
-} as const;
-
-// Application status constants (matching backend)
-export const APPLICATION_STATUSES = {
-  INTERESTED: "INTERESTED",
-  APPLIED: "APPLIED",
-  MISSING_DOCUMENT: "MISSING_DOCUMENT",
-  IN_REVIEW: "IN_REVIEW",
-  QUALIFIED: "QUALIFIED",
-  ADMITTED: "ADMITTED",
-  ENROLLED: "ENROLLED",
-  DEFERRED: "DEFERRED",
-  EXPIRED: "EXPIRED",
-} as const;
-
-// Direct application/lead creation response
-export interface DirectApplicationResponse {
-  success: boolean;
-  message: string;
-  applicationId: string;
-  leadId: string;
-  application: Record<string, unknown>;
-  lead: Record<string, unknown>;
-}
+// Outcome of an autosave: `local` means only the localStorage backup was written
+export type DraftSaveResult =
+  | { status: 'saved'; revision: number }
+  | { status: 'conflict'; remote: ApplicationDraft }
+  | { status: 'local' } // Firestore unreachable, only the localStorage backup was written
+  | { status: 'error'; message: string }; // Firestore refused the save; retrying will not help
+
+export { LEAD_STATUSES, LEAD_SOURCES, APPLICATION_STATUSES };
+export type { DirectApplicationResponse };
 
 class StudentApplicationService {
   // Cooldown map to avoid spamming permission-denied queries per email
@@ -206,6 +222,9 @@ class StudentApplicationService {
       lastSavedAt: data.lastSavedAt as string | undefined,
       createdAt: (data.createdAt as string) || new Date().toISOString(),
       updatedAt: (data.updatedAt as string) || new Date().toISOString(),
+      sourceApplicationId: (data.sourceApplicationId as string | null | undefined) ?? null,
+      revision: typeof data.revision === 'number' ? data.revision : 0,
+      submissionKey: (data.submissionKey as string | undefined) || undefined,
       documents: {
         passportPhoto: passportPhotoRaw && typeof passportPhotoRaw === 'object'
           ? (passportPhotoRaw as DraftDocumentMetadata)
@@ -216,11 +235,12 @@ class StudentApplicationService {
         academicDocuments: Array.isArray(academicRaw)
           ? (academicRaw as DraftDocumentMetadata[])
           : [],
+        supportingDocuments: normalizeSupportingDocuments<DraftDocumentMetadata>(data.documents?.supportingDocuments),
       },
     };
   }
 
-  async ensureDraftApplication(email: string, uid?: string): Promise<ApplicationDraft> {
+  async ensureDraftApplication(email: string, uid?: string, draftId?: string): Promise<ApplicationDraft> {
     // Create a hybrid approach that works with both Firestore and localStorage
     const normalizedEmail = email.trim().toLowerCase();
     const effectiveUid = uid ?? auth.currentUser?.uid;
@@ -229,46 +249,33 @@ class StudentApplicationService {
     let draftFromFirestore: ApplicationDraft | null = null;
     let draftFromLocalStorage: ApplicationDraft | null = null;
 
-    // Try to find a draft in localStorage first
+    // An applicant can have several drafts open; load the one they picked
+    if (draftId) {
+      const requestedDraft = await this.loadDraftById(draftId, effectiveUid);
+      if (requestedDraft) {
+        console.log('✅ Loaded requested draft:', draftId);
+        return requestedDraft;
+      }
+      console.warn('⚠️ Requested draft not found, falling back to latest draft:', draftId);
+    }
+
+    // Try to find a draft in localStorage first, the most recently updated one if there are several
     try {
-      if (typeof window !== 'undefined') {
-        // Look for any localStorage keys that might contain this user's draft
-        const possibleKeys: string[] = [];
-        
-        // Scan localStorage for potential draft keys
-        for (let i = 0; i < localStorage.length; i++) {
-          const key = localStorage.key(i);
-          if (key?.startsWith('application_draft_')) {
-            possibleKeys.push(key);
-          }
-        }
-        
-        // Check each possible draft for matching email
-        for (const key of possibleKeys) {
-          try {
-            const savedDraft = JSON.parse(localStorage.getItem(key) || '{}');
-            if (savedDraft?.formData?.email === normalizedEmail || 
-                savedDraft?.email === normalizedEmail) {
-              
-              // Found a matching draft
-              draftFromLocalStorage = {
-                id: key.replace('application_draft_', ''),
-                email: normalizedEmail,
-                uid: effectiveUid,
-                status: 'draft',
-                formData: savedDraft.formData || {},
-                activeSection: savedDraft.activeSection || 'personal',
-                lastSavedAt: savedDraft.lastSavedAt || now,
-                createdAt: savedDraft.createdAt || now,
-                updatedAt: now,
-                documents: savedDraft.documents || { academicDocuments: [] },
-              };
-              break;
-            }
-          } catch (parseError) {
-            console.warn('Failed to parse localStorage draft:', parseError);
-          }
-        }
+      const localDraft = this.getLocalDraftsByEmail(normalizedEmail)[0];
+      if (localDraft) {
+        const { id, savedDraft } = localDraft;
+        draftFromLocalStorage = {
+          id,
+          email: normalizedEmail,
+          uid: effectiveUid,
+          status: 'draft',
+          formData: savedDraft.formData || {},
+          activeSection: savedDraft.activeSection || 'personal',
+          lastSavedAt: savedDraft.lastSavedAt || now,
+          createdAt: savedDraft.createdAt || now,
+          updatedAt: now,
+          documents: savedDraft.documents || { academicDocuments: [] },
+        };
       }
     } catch (localStorageError) {
       console.warn('Error accessing localStorage:', localStorageError);
@@ -280,13 +287,14 @@ class StudentApplicationService {
     if (isAuthenticated) {
       try {
         const draftsRef = collection(db, 'applicationDrafts');
-        const draftQuery = query(draftsRef, where('email', '==', normalizedEmail), where('uid', '==', effectiveUid), limit(1));
+        const draftQuery = query(draftsRef, where('email', '==', normalizedEmail), where('uid', '==', effectiveUid));
         
         try {
           const snapshot = await getDocs(draftQuery);
           
           if (!snapshot.empty) {
-            const draftDoc = snapshot.docs[0];
+            // Without a requested draft, open the one worked on last
+            const draftDoc = this.getLatestDraftDoc(snapshot.docs);
             const draftData = draftDoc.data();
             draftFromFirestore = this.mapDraftSnapshot(draftDoc.id, draftData);
             
@@ -354,6 +362,8 @@ class StudentApplicationService {
       email: normalizedEmail,
       uid: effectiveUid,
       status: 'draft',
+      revision: 0,
+      submissionKey: this.generateSubmissionKey(),
       formData: {},
       activeSection: 'personal',
       lastSavedAt: now,
@@ -403,7 +413,7 @@ class StudentApplicationService {
       const normalizedEmail = email.toLowerCase();
       const draftsRef = collection(db, 'applicationDrafts');
       // Only query drafts owned by current user
-      const draftQuery = query(draftsRef, where('email', '==', normalizedEmail), where('uid', '==', auth.currentUser?.uid), limit(1));
+      const draftQuery = query(draftsRef, where('email', '==', normalizedEmail), where('uid', '==', auth.currentUser?.uid));
       const snapshot = await getDocs(draftQuery);
 
       if (snapshot.empty) {
@@ -411,7 +421,7 @@ class StudentApplicationService {
         return this.loadDraftFromLocalStorageByEmail(email);
       }
 
-      const draftDoc = snapshot.docs[0];
+      const draftDoc = this.getLatestDraftDoc(snapshot.docs);
       return this.mapDraftSnapshot(draftDoc.id, draftDoc.data());
     } catch {
       // On any Firestore error, fall back to localStorage
@@ -425,57 +435,209 @@ class StudentApplicationService {
     }
     
     const normalizedEmail = email.toLowerCase();
-    
-    // Look for any localStorage keys that might contain this user's draft
-    const possibleKeys: string[] = [];
-    
-    // Scan localStorage for potential draft keys
+    const localDraft = this.getLocalDraftsByEmail(normalizedEmail)[0];
+    if (!localDraft) {
+      return null;
+    }
+
+    const { id, savedDraft } = localDraft;
+    const now = new Date().toISOString();
+    return {
+      id,
+      email: normalizedEmail,
+      uid: auth.currentUser?.uid,
+      status: 'draft',
+      formData: savedDraft.formData || {},
+      activeSection: savedDraft.activeSection || 'personal',
+      lastSavedAt: savedDraft.lastSavedAt || now,
+      createdAt: savedDraft.createdAt || now,
+      updatedAt: now,
+      documents: savedDraft.documents || { academicDocuments: [] },
+    };
+  }
+
+  /**
+   * Drafts backed up in localStorage for this email, most recently updated first
+   */
+  private getLocalDraftsByEmail(normalizedEmail: string): Array<{ id: string; savedDraft: Partial<ApplicationDraft> }> {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    const drafts: Array<{ id: string; savedDraft: Partial<ApplicationDraft> }> = [];
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i);
-      if (key?.startsWith('application_draft_')) {
-        possibleKeys.push(key);
+      if (!key?.startsWith('application_draft_')) {
+        continue;
       }
-    }
-    
-    // Check each possible draft for matching email
-    for (const key of possibleKeys) {
+
       try {
         const savedDraft = JSON.parse(localStorage.getItem(key) || '{}');
-        if (savedDraft?.formData?.email === normalizedEmail || 
-            savedDraft?.email === normalizedEmail) {
-          
-          const now = new Date().toISOString();
-          // Found a matching draft
-          return {
-            id: key.replace('application_draft_', ''),
-            email: normalizedEmail,
-            uid: auth.currentUser?.uid,
-            status: 'draft',
-            formData: savedDraft.formData || {},
-            activeSection: savedDraft.activeSection || 'personal',
-            lastSavedAt: savedDraft.lastSavedAt || now,
-            createdAt: savedDraft.createdAt || now,
-            updatedAt: now,
-            documents: savedDraft.documents || { academicDocuments: [] },
-          };
+        if (savedDraft?.formData?.email === normalizedEmail || savedDraft?.email === normalizedEmail) {
+          drafts.push({ id: key.replace('application_draft_', ''), savedDraft });
         }
       } catch (parseError) {
         console.warn('Failed to parse localStorage draft:', parseError);
       }
     }
-    
-    return null;
+
+    const updatedTime = (savedDraft: Partial<ApplicationDraft>) =>
+      new Date(savedDraft.updatedAt || savedDraft.lastSavedAt || 0).getTime() || 0;
+    return drafts.sort((a, b) => updatedTime(b.savedDraft) - updatedTime(a.savedDraft));
+  }
+
+  /**
+   * The most recently updated of several draft documents
+   */
+  private getLatestDraftDoc<T extends { data(): DocumentData }>(draftDocs: T[]): T {
+    const updatedTime = (draftDoc: T) => new Date(draftDoc.data().updatedAt || 0).getTime() || 0;
+    return [...draftDocs].sort((a, b) => updatedTime(b) - updatedTime(a))[0];
+  }
+
+  /**
+   * Load a specific draft owned by the current user, from Firestore or the localStorage backup
+   */
+  private async loadDraftById(draftId: string, uid?: string): Promise<ApplicationDraft | null> {
+    const isAuthenticated = await this.ensureAuthenticated(true);
+    if (isAuthenticated) {
+      try {
+        const draftSnapshot = await getDoc(this.getDraftRef(draftId));
+        if (draftSnapshot.exists() && draftSnapshot.data().uid === uid) {
+          return this.mapDraftSnapshot(draftId, draftSnapshot.data());
+        }
+      } catch {
+        // Silent fail - we'll fall back to localStorage
+      }
+    }
+
+    if (typeof window === 'undefined') {
+      return null;
+    }
+
+    try {
+      const savedDraft = JSON.parse(localStorage.getItem(`application_draft_${draftId}`) || 'null');
+      return savedDraft ? this.mapDraftSnapshot(draftId, { ...savedDraft, uid: savedDraft.uid ?? uid }) : null;
+    } catch (parseError) {
+      console.warn('Failed to parse localStorage draft:', parseError);
+      return null;
+    }
+  }
+
+  /**
+   * All drafts owned by the current user, most recently updated first
+   */
+  async getDraftsByEmail(email: string): Promise<ApplicationDraft[]> {
+    const isAuthenticated = await this.ensureAuthenticated(true);
+    if (!isAuthenticated) {
+      return [];
+    }
+
+    try {
+      const draftsRef = collection(db, 'applicationDrafts');
+      const draftQuery = query(draftsRef, where('email', '==', email.toLowerCase()), where('uid', '==', auth.currentUser?.uid));
+      const snapshot = await getDocs(draftQuery);
+
+      return snapshot.docs
+        .map((draftDoc) => this.mapDraftSnapshot(draftDoc.id, draftDoc.data()))
+        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+    } catch (error) {
+      console.warn('⚠️ Failed to load drafts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Start another application, e.g. for a later intake after an expired one. Personal details,
+   * education history and reusable documents are copied from `source`. Files are duplicated into
+   * the new draft's own storage folder so each application keeps its documents separate.
+   */
+  async createDraftFromApplication(
+    email: string,
+    source?: Application | null
+  ): Promise<{ draft: ApplicationDraft; failedDocuments: DocumentType[] }> {
+    await this.ensureAuthenticated();
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const draftId = this.generateApplicationId();
+    const now = new Date().toISOString();
+
+    const formData: Partial<StudentApplicationData> = source
+      ? {
+          firstName: source.name.split(' ')[0] || '',
+          lastName: source.name.split(' ').slice(1).join(' ') || '',
+          email: normalizedEmail,
+          phone: source.phoneNumber || '',
+          countryOfBirth: source.countryOfBirth || '',
+          dateOfBirth: source.dateOfBirth || '',
+          gender: source.gender || '',
+          postalAddress: source.postalAddress || '',
+          educationHistory: cleanEducationHistory(source.educationHistory || []),
+        }
+      : {};
+
+    const draft: ApplicationDraft = {
+      id: draftId,
+      email: normalizedEmail,
+      uid: auth.currentUser?.uid,
+      status: 'draft',
+      formData,
+      activeSection: 'personal',
+      lastSavedAt: now,
+      createdAt: now,
+      updatedAt: now,
+      sourceApplicationId: source?.id ?? null,
+      revision: 0,
+      submissionKey: this.generateSubmissionKey(),
+      documents: {
+        academicDocuments: [],
+      },
+    };
+
+    await setDoc(this.getDraftRef(draftId), {
+      email: draft.email,
+      uid: draft.uid,
+      status: draft.status,
+      formData,
+      activeSection: draft.activeSection,
+      lastSavedAt: now,
+      createdAt: now,
+      updatedAt: now,
+      sourceApplicationId: draft.sourceApplicationId,
+      revision: 0,
+      submissionKey: draft.submissionKey,
+      documents: draft.documents,
+    });
+    console.log('✅ Created new draft:', draftId, source ? `(copied from ${source.id})` : '');
+
+    // Copy files one at a time: each upload rewrites the draft's documents map
+    const failedDocuments: DocumentType[] = [];
+    if (source) {
+      for (const type of REUSABLE_DOCUMENT_TYPES) {
+        for (const url of getUploadedDocumentUrls(source, type)) {
+          try {
+            const sourceRef = ref(storage, url);
+            const blob = await getBlob(sourceRef);
+            const file = new File([blob], sourceRef.name, { type: blob.type });
+            await this.uploadDraftDocument({ file, type, applicationId: draftId, studentEmail: normalizedEmail });
+          } catch (error) {
+            console.warn(`⚠️ Could not copy ${type} into the new application:`, error);
+            if (!failedDocuments.includes(type)) {
+              failedDocuments.push(type);
+            }
+          }
+        }
+      }
+    }
+
+    const documents = await this.getDraftDocuments(draftId);
+    return { draft: { ...draft, documents: documents || draft.documents }, failedDocuments };
   }
 
   /**
    * Get draft document metadata from a draft application
    * This allows the UI to display previously uploaded documents after page refresh
    */
-  async getDraftDocuments(draftId: string): Promise<{
-    academicDocuments: DraftDocumentMetadata[];
-    passportPhoto?: DraftDocumentMetadata;
-    identificationDocument?: DraftDocumentMetadata;
-  } | null> {
+  async getDraftDocuments(draftId: string): Promise<ApplicationDraft['documents'] | null> {
     try {
       // First check if the draft exists
       const draftRef = this.getDraftRef(draftId);
@@ -495,7 +657,8 @@ class StudentApplicationService {
           ? documents.academicDocuments 
           : [],
         passportPhoto: documents.passportPhoto || undefined,
-        identificationDocument: documents.identificationDocument || undefined
+        identificationDocument: documents.identificationDocument || undefined,
+        supportingDocuments: normalizeSupportingDocuments<DraftDocumentMetadata>(documents.supportingDocuments),
       };
     } catch (error) {
       console.error('❌ Failed to get draft documents:', error);
@@ -503,11 +666,17 @@ class StudentApplicationService {
     }
   }
   
+  /**
+   * Autosave the draft form. With `baseRevision` the save only goes through if nobody else has
+   * saved since that revision; otherwise the other device's version is returned so the caller
+   * can merge instead of overwriting it.
+   */
   async saveDraft(applicationId: string, payload: {
     formData: Partial<StudentApplicationData>;
     activeSection?: string;
     lastSavedAt?: string;
-  }): Promise<void> {
+    baseRevision?: number;
+  }): Promise<DraftSaveResult> {
     // Try to save to both Firestore (if possible) and localStorage
     const now = new Date().toISOString();
     
@@ -538,56 +707,78 @@ class StudentApplicationService {
     const isAuthenticated = await this.ensureAuthenticated(true);
     if (!isAuthenticated) {
       // Silently exit after localStorage save - no need for console warnings
-      return;
+      return this.isOffline()
+        ? { status: 'local' }
+        : { status: 'error', message: 'Please sign in again to save your draft' };
     }
     
-    try {
-      // Validate applicationId
-      if (!applicationId || applicationId.trim().length === 0) {
-        return; // Exit silently after localStorage save
-      }
+    // Validate applicationId
+    if (!applicationId || applicationId.trim().length === 0) {
+      return { status: 'error', message: 'Draft could not be saved: missing draft ID' };
+    }
 
+    try {
       const draftRef = this.getDraftRef(applicationId);
-      let data: DocumentData = {};
-      let currentFormData = {};
-      
-      try {
-        const draftSnapshot = await getDoc(draftRef);
-        if (draftSnapshot.exists()) {
-          data = draftSnapshot.data();
-          currentFormData = (data.formData as Partial<StudentApplicationData>) || {};
+
+      // Read and write in one transaction so two devices can't both save on the same revision
+      const result = await runTransaction(db, async (transaction): Promise<DraftSaveResult> => {
+        const draftSnapshot = await transaction.get(draftRef);
+
+        // Drafts are only created by `ensureDraftApplication`; a missing one was submitted or
+        // deleted elsewhere, and writing it here would bring it back as a new draft
+        if (!draftSnapshot.exists()) {
+          return {
+            status: 'error',
+            message: 'This draft no longer exists. It may have been submitted or deleted on another device.',
+          };
         }
-      } catch {
-        // Silently handle this error - it's expected with permission issues
-        // and we've already saved to localStorage
-      }
 
-      const updatePayload = {
-        formData: { ...currentFormData, ...payload.formData },
-        activeSection: payload.activeSection ?? data.activeSection ?? 'personal',
-        lastSavedAt: payload.lastSavedAt ?? now,
-        updatedAt: now,
-        email: data.email || auth.currentUser?.email?.toLowerCase(),
-        uid: data.uid || auth.currentUser?.uid,
-      };
+        const data: DocumentData = draftSnapshot.data();
+        const currentRevision = typeof data.revision === 'number' ? data.revision : 0;
 
-      try {
-        await updateDoc(draftRef, updatePayload);
-        console.log('✅ Draft saved to Firestore');
-      } catch {
-        // If update fails, try to create the document
-        try {
-          await setDoc(draftRef, updatePayload);
-          console.log('✅ Created new draft in Firestore');
-        } catch {
-          // Silently handle this error - localStorage backup already worked
+        if (payload.baseRevision !== undefined && currentRevision !== payload.baseRevision) {
+          return { status: 'conflict', remote: this.mapDraftSnapshot(applicationId, data) };
         }
+
+        const currentFormData = (data.formData as Partial<StudentApplicationData>) || {};
+        transaction.update(draftRef, {
+          formData: { ...currentFormData, ...payload.formData },
+          activeSection: payload.activeSection ?? data.activeSection ?? 'personal',
+          lastSavedAt: payload.lastSavedAt ?? now,
+          updatedAt: now,
+          email: data.email || auth.currentUser?.email?.toLowerCase(),
+          uid: data.uid || auth.currentUser?.uid,
+          revision: currentRevision + 1,
+        });
+
+        return { status: 'saved', revision: currentRevision + 1 };
+      });
+
+      if (result.status === 'conflict') {
+        console.warn('⚠️ Draft was saved on another device, revision', result.remote.revision);
+      } else if (result.status === 'error') {
+        console.warn('⚠️ Draft not saved:', result.message);
+      } else {
+        console.log('✅ Draft saved to Firestore');
       }
-    } catch {
-      // Silently handle Firestore errors - localStorage backup already worked
+      return result;
+    } catch (error) {
+      // Network failures are retried once back online - the localStorage backup already worked
+      const code = (error as { code?: string })?.code;
+      if (this.isOffline() || code === 'unavailable' || code === 'deadline-exceeded') {
+        return { status: 'local' };
+      }
+
+      // Anything else (permission-denied, failed-precondition, aborted...) fails the same way again
+      console.error('❌ Error saving draft to Firestore:', error);
+      return { status: 'error', message: error instanceof Error ? error.message : 'Draft could not be saved' };
     }
   }
 
+  private isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
   private async deleteExistingDraftDocumentFile(applicationId: string, metadata?: DraftDocumentMetadata) {
     if (!metadata) return;
 
@@ -639,29 +830,24 @@ class StudentApplicationService {
       throw new Error('No file provided or file is empty');
     }
 
-    const maxSize = 10 * 1024 * 1024;
-    if (upload.file.size > maxSize) {
-      throw new Error('File size must be less than 10MB');
-    }
-
-    const allowedTypes = {
-      passportPhoto: ['image/jpeg', 'image/jpg', 'image/png'],
-      academicDocuments: ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png'],
-      identificationDocument: ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png'],
-    } satisfies Record<DocumentUpload['type'], string[]>;
-
-    if (!allowedTypes[upload.type].includes(upload.file.type)) {
-      throw new Error(`Invalid file type for ${upload.type}. Allowed: ${allowedTypes[upload.type].join(', ')}`);
-    }
-
+    const definition = this.validateDocumentFile(upload);
     const draftData = this.mapDraftSnapshot(upload.applicationId, draftSnapshot.data());
+    const existingSupporting = isCoreDocumentType(upload.type)
+      ? []
+      : draftData.documents.supportingDocuments?.[upload.type] || [];
 
-    if (upload.type === 'academicDocuments' && draftData.documents.academicDocuments.length >= 5) {
-      throw new Error('Maximum of 5 academic documents allowed. Please remove some documents before uploading new ones.');
-    }
+    if (definition.maxFiles > 1) {
+      const currentCount = upload.type === 'academicDocuments'
+        ? draftData.documents.academicDocuments.length
+        : existingSupporting.length;
 
-    if (upload.type !== 'academicDocuments') {
+      if (currentCount >= definition.maxFiles) {
+        throw new Error(`Maximum of ${definition.maxFiles} ${definition.label.toLowerCase()} allowed. Please remove some documents before uploading new ones.`);
+      }
+    } else if (upload.type === 'passportPhoto' || upload.type === 'identificationDocument') {
       await this.deleteExistingDraftDocumentFile(upload.applicationId, draftData.documents[upload.type]);
+    } else {
+      await Promise.all(existingSupporting.map((item) => this.deleteExistingDraftDocumentFile(upload.applicationId, item)));
     }
 
     const timestamp = Date.now();
@@ -688,9 +874,11 @@ class StudentApplicationService {
       academicDocuments: DraftDocumentMetadata[];
       passportPhoto?: DraftDocumentMetadata | null;
       identificationDocument?: DraftDocumentMetadata | null;
+      supportingDocuments: Partial<Record<SupportingDocumentType, DraftDocumentMetadata[]>>;
     } = {
       // Always include academicDocuments as an array
       academicDocuments: [...(draftData.documents.academicDocuments || [])],
+      supportingDocuments: { ...(draftData.documents.supportingDocuments || {}) },
     };
     
     // Only include defined properties for passport photo and ID document
@@ -709,6 +897,10 @@ class StudentApplicationService {
     // Add the new document to the appropriate collection
     if (upload.type === 'academicDocuments') {
       documentsUpdate.academicDocuments.push(metadata);
+    } else if (!isCoreDocumentType(upload.type)) {
+      documentsUpdate.supportingDocuments[upload.type] = definition.maxFiles > 1
+        ? [...existingSupporting, metadata]
+        : [metadata];
     }
 
     await updateDoc(draftRef, {
@@ -719,7 +911,7 @@ class StudentApplicationService {
     return metadata;
   }
 
-  async deleteDraftDocument(applicationId: string, documentType: 'passportPhoto' | 'academicDocuments' | 'identificationDocument', downloadUrl?: string): Promise<void> {
+  async deleteDraftDocument(applicationId: string, documentType: DocumentType, downloadUrl?: string): Promise<void> {
     // Check for authentication
     const isAuthenticated = await this.ensureAuthenticated(true);
     if (!isAuthenticated) {
@@ -754,6 +946,19 @@ class StudentApplicationService {
       return;
     }
 
+    if (!isCoreDocumentType(documentType)) {
+      // Supporting documents are arrays; without a URL every file of the type is removed
+      const existing = draftData.documents.supportingDocuments?.[documentType] || [];
+      const removedItems = existing.filter((item) => !downloadUrl || item.downloadUrl === downloadUrl);
+      await Promise.all(removedItems.map((item) => this.deleteExistingDraftDocumentFile(applicationId, item)));
+
+      await updateDoc(draftRef, {
+        [`documents.supportingDocuments.${documentType}`]: existing.filter((item) => !removedItems.includes(item)),
+        updatedAt: new Date().toISOString(),
+      });
+      return;
+    }
+
     // Handle single document types (passportPhoto, identificationDocument)
     const metadata = draftData.documents[documentType];
     await this.deleteExistingDraftDocumentFile(applicationId, metadata);
@@ -793,6 +998,9 @@ class StudentApplicationService {
       draftData.documents.academicDocuments.forEach((item) => {
         deletions.push(this.deleteExistingDraftDocumentFile(applicationId, item));
       });
+      Object.values(draftData.documents.supportingDocuments || {}).flat().forEach((item) => {
+        deletions.push(this.deleteExistingDraftDocumentFile(applicationId, item));
+      });
 
       await Promise.all(deletions);
     }
@@ -800,219 +1008,68 @@ class StudentApplicationService {
     await deleteDoc(draftRef);
   }
 
-  async promoteDraftToSubmitted(applicationId: string, data: StudentApplicationData): Promise<DirectApplicationResponse> {
-    await this.ensureAuthenticated();
-
-    const draftRef = this.getDraftRef(applicationId);
-    const draftSnapshot = await getDoc(draftRef);
-
-    if (!draftSnapshot.exists()) {
-      throw new Error('Draft application not found');
-    }
-
-    const draft = this.mapDraftSnapshot(applicationId, draftSnapshot.data());
-
-    const response = await this.createApplicationAndLead(data, {
-      applicationId,
-      documents: draft.documents,
-      createdAt: draft.createdAt,
-      submittedAt: new Date().toISOString(),
+  /**
+   * Submit a draft. Drafts created before submission keys existed use one derived from their id,
+   * which is just as stable since a draft is only ever submitted once.
+   */
+  async promoteDraftToSubmitted(
+    applicationId: string,
+    data: StudentApplicationData,
+    submissionKey?: string
+  ): Promise<DirectApplicationResponse> {
+    // The server attaches the draft's documents and removes the draft once the application exists
+    return this.createApplicationAndLead(data, {
+      draftId: applicationId,
+      submissionKey: submissionKey || `draft_${applicationId}`,
     });
-
-    // Remove draft document but keep files as they are now referenced by the submitted application
-    await this.deleteDraft(applicationId, { removeFiles: false });
-
-    return response;
   }
 
   /**
-   * Create application and lead directly in Firestore
-   * Uses Firebase client SDK with proper authentication
-   * Updates existing leads from INTERESTED to APPLIED if they exist
+   * Submit an application through the portal's submission route, which validates it and writes
+   * the application and lead with Firebase Admin. Updates an existing lead to APPLIED.
+   * Sending the same `submissionKey` again returns the first response with `replayed` set.
    */
   async createApplicationAndLead(
     data: StudentApplicationData,
-    options?: {
-      applicationId?: string;
-      documents?: ApplicationDraft['documents'];
-      status?: keyof typeof APPLICATION_STATUSES;
-      createdAt?: string;
-      submittedAt?: string;
-    }
+    options?: { draftId?: string; submissionKey?: string }
   ): Promise<DirectApplicationResponse> {
     try {
-      console.log('🎯 Creating application and checking for existing lead...');
-      
-      // Ensure user is authenticated before proceeding
-      await this.ensureAuthenticated();
-      
-      const currentTime = new Date();
-      const applicationId = options?.applicationId ?? this.generateApplicationId();
-      const applicationStatus = options?.status ?? APPLICATION_STATUSES.APPLIED;
-      const createdAt = options?.createdAt ?? currentTime.toISOString();
-      const submittedAt = options?.submittedAt ?? currentTime.toISOString();
-      
-      // 🔍 Check if a lead already exists for this email or phone
-      const existingLead = await this.findExistingLead(data.email, data.phone);
-      
-      let leadId: string;
-      let isUpdatingExistingLead = false;
-      
-      if (existingLead) {
-        leadId = existingLead.id;
-        isUpdatingExistingLead = true;
-        console.log(`📋 Found existing lead ${leadId} with status: ${existingLead.status}`);
-      } else {
-        leadId = this.generateLeadId();
-        console.log(`✨ Creating new lead ${leadId}`);
-      }
-      
-      // Prepare application data (matching backend structure exactly)
-      const applicationData = {
-        // Authentication/Ownership fields (required for Firestore security rules)
-        uid: auth.currentUser?.uid,
-        email: data.email.toLowerCase(),
-
-        // Personal Information
-        name: `${data.firstName} ${data.lastName}`,
-        countryOfBirth: data.countryOfBirth,
-        dateOfBirth: data.dateOfBirth || null,
-        gender: data.gender,
-        phoneNumber: data.phone,
-        passportPhoto: options?.documents?.passportPhoto?.downloadUrl ?? null,
-        postalAddress: data.postalAddress || null,
-
-        // Initially null - will be populated with user information by the service
-        // if the application is submitted manually or by an admin user
-        submittedBy: null,
-
-        // Academic Information
-        modeOfStudy: data.modeOfStudy,
-        preferredIntake: data.preferredIntake,
-        preferredProgram: data.preferredProgram,
-        secondaryProgram: null,
-        academicDocuments: options?.documents?.academicDocuments?.map((doc) => doc.downloadUrl) ?? [],
-        identificationDocument: options?.documents?.identificationDocument?.downloadUrl ?? null,
-
-        // Sponsorship Information
-        sponsor: null,
-        sponsorTelephone: data.sponsorTelephone || null,
-        sponsorEmail: data.sponsorEmail || null,
-        howDidYouHear: data.howDidYouHear || null,
-        additionalNotes: data.additionalNotes || null,
-
-        // Application Meta
-        status: applicationStatus,
-        submittedAt,
-        createdAt,
-        updatedAt: currentTime.toISOString(),
-
-        // Application stage - defaults to "new"
-        stage: "new",
-
-        // Simple status note instead of timeline
-        statusNote: "Application submitted",
-
-        // Additional Fields
-        notes: "",
-
-        // Integration
-        leadId: leadId, // Link to existing or new lead
-        whatsappMessageSent: false,
-      };
-
-      // Create timeline entry based on whether we're updating or creating
-      const timelineEntry = {
-        date: currentTime.toISOString(),
-        action: isUpdatingExistingLead ? "APPLICATION_SUBMITTED" : "CREATED",
-        status: LEAD_STATUSES.APPLIED,
-        notes: isUpdatingExistingLead 
-          ? `Lead status updated from ${existingLead?.status} to APPLIED - Application submitted`
-          : `Lead created from APPLICATION_FORM with APPLIED status`,
-      };
+      console.log('🎯 Submitting application...');
 
-      // Prepare lead data (matching backend structure exactly)
-      const leadData = {
-        // Authentication/Ownership fields (required for Firestore security rules)
-        uid: auth.currentUser?.uid,
-        email: data.email.toLowerCase(),
-
-        // Basic Info
-        status: LEAD_STATUSES.APPLIED,
-        source: existingLead?.source || LEAD_SOURCES.APPLICATION_FORM,
-        createdAt: existingLead?.createdAt || currentTime.toISOString(),
-        updatedAt: currentTime.toISOString(),
-
-        // Contact Info
-        name: `${data.firstName} ${data.lastName}`,
-        phone: data.phone,
-        whatsappNumber: data.phone,
-
-        // Application Info
-        program: data.preferredProgram,
-        applicationSubmitted: true,
-        applicationDate: currentTime.toISOString(),
-        
-        // Additional Information
-        sponsorTelephone: data.sponsorTelephone || null,
-        sponsorEmail: data.sponsorEmail || null,
-        howDidYouHear: data.howDidYouHear || null,
-        additionalNotes: data.additionalNotes || null,
-
-        // Assignment
-        assignedTo: existingLead?.assignedTo || null,
-        priority: existingLead?.priority || "MEDIUM",
-
-        // Tracking
-        totalInteractions: existingLead?.totalInteractions || 0,
-        lastInteractionAt: existingLead?.lastInteractionAt || null,
-        nextFollowUpDate: null,
-
-        // Timeline - preserve existing timeline and add new entry
-        timeline: [
-          ...(Array.isArray(existingLead?.timeline) ? existingLead.timeline : []),
-          timelineEntry
-        ],
-
-        // Notes
-        notes: existingLead?.notes || "",
-        tags: Array.isArray(existingLead?.tags) ? existingLead.tags : [],
-      };
+      const user = auth.currentUser;
+      if (!user) {
+        throw new Error('Please sign in to submit your application');
+      }
 
-      console.log('📋 Application data prepared:', applicationData);
-      console.log(`🔄 Lead data prepared - ${isUpdatingExistingLead ? 'UPDATING' : 'CREATING'} with APPLIED status:`, leadData);
+      const response = await fetch('/api/applications/submit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${await user.getIdToken()}`,
+          'Idempotency-Key': options?.submissionKey || this.generateSubmissionKey(),
+        },
+        body: JSON.stringify({ draftId: options?.draftId ?? null, data }),
+      });
 
-      // Use Firestore batch to ensure atomicity
-      const batch = writeBatch(db);
-      
-      // Add application document
-      const applicationRef = doc(collection(db, 'applications'), applicationId);
-      batch.set(applicationRef, applicationData);
-      
-      // Add or update lead document
-      const leadRef = doc(collection(db, 'leads'), leadId);
-      batch.set(leadRef, leadData);
-      
-      // Commit both documents atomically
-      await batch.commit();
+      let result;
+      try {
+        result = await response.json();
+      } catch {
+        result = { message: `Server responded with ${response.status}: ${response.statusText}` };
+      }
 
-      const actionMessage = isUpdatingExistingLead 
-        ? `Application created and existing lead ${leadId} updated from ${existingLead?.status} to APPLIED`
-        : `Application and new lead created successfully`;
+      if (!response.ok || !result.success) {
+        const details = Array.isArray(result.errors)
+          ? `: ${(result.errors as FieldError[]).map((fieldError) => fieldError.message).join('; ')}`
+          : '';
+        throw new Error(`${result.message || 'Failed to submit application'}${details}`);
+      }
 
-      console.log(`✅ ${actionMessage}`);
-      console.log('📄 Application ID:', applicationId);
-      console.log('👤 Lead ID:', leadId);
-
-      return {
-        success: true,
-        message: actionMessage,
-        applicationId: applicationId,
-        leadId: leadId,
-        application: applicationData,
-        lead: leadData,
-      };
+      console.log(result.replayed ? '♻️ Application was already submitted with this key' : `✅ ${result.message}`);
+      console.log('📄 Application ID:', result.applicationId, result.reference ? `(${result.reference})` : '');
+      console.log('👤 Lead ID:', result.leadId);
 
+      return result as DirectApplicationResponse;
     } catch (error) {
       console.error('❌ Error creating application and lead:', error);
       throw error;
@@ -1077,49 +1134,39 @@ class StudentApplicationService {
   }
 
   /**
-   * Find existing lead by email or phone number (for signup flow)
+   * Find the lead a signup belongs to (for signup flow)
    * This PUBLIC method is specifically designed for the signup flow where we need to:
    * 1. Find leads created by agents/chatbots (not filtered by UID)
    * 2. Update existing leads from CONTACTED -> INTERESTED when user signs up
    * 3. Avoid creating duplicate leads
    * 
-   * Unlike the private findExistingLead method, this does NOT filter by UID
-   * because we want to find leads regardless of who created them.
+   * Leads are looked up by every stored format of the email and phone, then `matchLead` decides
+   * whether to merge into one of them, flag a possible duplicate, or create a new lead.
+   * Returns null when the lookup itself fails.
    */
-  async findExistingLeadForSignup(email: string, phone: string): Promise<{
-    id: string;
-    status: string;
-    source: string;
-    createdAt: string;
-    assignedTo?: string;
-    priority?: string;
-    totalInteractions?: number;
-    lastInteractionAt?: string;
-    timeline?: Array<{
-      date: string;
-      action: string;
-      status: string;
-      notes: string;
-    }>;
-    notes?: string;
-    tags?: string[];
-  } | null> {
+  async findExistingLeadForSignup(applicant: LeadMatchApplicant): Promise<LeadMatchResult<ExistingLeadRecord> | null> {
+    const { email, phone } = applicant;
     try {
       console.log(`🔍 [SIGNUP] Searching for existing lead with email: ${email} or phone: ${phone}`);
       
       // For signup flow, we do a more permissive check to find any existing lead
-      // regardless of who created it (agent, chatbot, etc.)
-      const leadsRef = collection(db, 'leads');
-      
-      // First, try to find by email (primary identifier) - NO UID FILTER
-      const emailQuery = query(
-        leadsRef,
-        where('email', '==', email.toLowerCase())
+      // regardless of who created it (agent, chatbot, etc.) - NO UID FILTER
+      const phones = phoneLookupValues(phone);
+      const e164 = normalizePhone(phone);
+      const leadsQuery = query(
+        collection(db, 'leads'),
+        or(
+          where('email', 'in', emailLookupValues(email)),
+          where('normalizedEmail', '==', normalizeEmail(email)),
+          ...(phones.length > 0 ? [where('phone', 'in', phones), where('whatsappNumber', 'in', phones)] : []),
+          ...(e164 ? [where('phoneE164', '==', e164)] : [])
+        ),
+        limit(20)
       );
       
-      let emailSnapshot;
+      let snapshot;
       try {
-        emailSnapshot = await getDocs(emailQuery);
+        snapshot = await getDocs(leadsQuery);
       } catch (error: unknown) {
         // Handle permission errors gracefully
         if (error && typeof error === 'object' && 'code' in error) {
@@ -1132,14 +1179,17 @@ class StudentApplicationService {
         throw error;
       }
       
-      if (!emailSnapshot.empty) {
-        const leadDoc = emailSnapshot.docs[0];
+      const leads: ExistingLeadRecord[] = snapshot.docs.map((leadDoc) => {
         const leadData = leadDoc.data();
-        
-        console.log(`✅ [SIGNUP] Found existing lead by email: ${leadDoc.id} with status: ${leadData.status}`);
-        
         return {
           id: leadDoc.id,
+          uid: leadData.uid,
+          name: leadData.name,
+          email: leadData.email,
+          normalizedEmail: leadData.normalizedEmail,
+          phone: leadData.phone,
+          whatsappNumber: leadData.whatsappNumber,
+          phoneE164: leadData.phoneE164,
           status: leadData.status,
           source: leadData.source,
           createdAt: leadData.createdAt,
@@ -1147,56 +1197,14 @@ class StudentApplicationService {
           priority: leadData.priority,
           totalInteractions: leadData.totalInteractions,
           lastInteractionAt: leadData.lastInteractionAt,
-          timeline: leadData.timeline,
           notes: leadData.notes,
           tags: leadData.tags,
         };
-      }
-      
-      // If no email match, try to find by phone number - NO UID FILTER
-      const phoneQuery = query(
-        leadsRef,
-        where('phone', '==', phone)
-      );
-      
-      let phoneSnapshot;
-      try {
-        phoneSnapshot = await getDocs(phoneQuery);
-      } catch (error: unknown) {
-        // Handle permission errors gracefully
-        if (error && typeof error === 'object' && 'code' in error) {
-          const firebaseError = error as { code: string };
-          if (firebaseError.code === 'permission-denied') {
-            console.warn('⚠️ [SIGNUP] Permission denied accessing leads by phone. This is expected for new users.');
-            return null;
-          }
-        }
-        throw error;
-      }
-      
-      if (!phoneSnapshot.empty) {
-        const leadDoc = phoneSnapshot.docs[0];
-        const leadData = leadDoc.data();
-        
-        console.log(`✅ [SIGNUP] Found existing lead by phone: ${leadDoc.id} with status: ${leadData.status}`);
-        
-        return {
-          id: leadDoc.id,
-          status: leadData.status,
-          source: leadData.source,
-          createdAt: leadData.createdAt,
-          assignedTo: leadData.assignedTo,
-          priority: leadData.priority,
-          totalInteractions: leadData.totalInteractions,
-          lastInteractionAt: leadData.lastInteractionAt,
-          timeline: leadData.timeline,
-          notes: leadData.notes,
-          tags: leadData.tags,
-        };
-      }
+      });
       
-      console.log(`ℹ️ [SIGNUP] No existing lead found for email: ${email} or phone: ${phone}`);
-      return null;
+      const match = matchLead(applicant, leads);
+      console.log(`✅ [SIGNUP] Lead match for ${email}: ${match.decision} - ${match.reason}`);
+      return match;
       
     } catch (error: unknown) {
       console.error('❌ [SIGNUP] Error searching for existing lead:', {
@@ -1212,131 +1220,47 @@ class StudentApplicationService {
   }
 
   /**
-   * Find existing lead by email or phone number (for authenticated users)
-   * Prioritizes email match, then phone match
-   * Filters by UID for user-owned leads only
+   * Delete old document from Firebase Storage
    */
-  private async findExistingLead(email: string, phone: string): Promise<{
-    id: string;
-    status: string;
-    source: string;
-    createdAt: string;
-    assignedTo?: string;
-    priority?: string;
-    totalInteractions?: number;
-    lastInteractionAt?: string;
-    timeline?: Array<{
-      date: string;
-      action: string;
-      status: string;
-      notes: string;
-    }>;
-    notes?: string;
-    tags?: string[];
-  } | null> {
-    try {
-      console.log(`🔍 Searching for existing lead with email: ${email} or phone: ${phone}`);
-      
-      // Ensure authentication
-      await this.ensureAuthenticated();
-      
-      // Check if user is still authenticated after ensureAuthenticated
-      if (!auth.currentUser) {
-        console.warn('⚠️ User authentication failed, skipping lead search');
-        return null;
-      }
-      
-      const leadsRef = collection(db, 'leads');
-      
-      // First, try to find by email (primary identifier) AND user ownership
-      const emailQuery = query(
-        leadsRef,
-        where('email', '==', email.toLowerCase()),
-        where('uid', '==', auth.currentUser?.uid)
-      );
-      
-      const emailSnapshot = await getDocs(emailQuery);
-      
-      if (!emailSnapshot.empty) {
-        const leadDoc = emailSnapshot.docs[0];
-        const leadData = leadDoc.data();
-        
-        console.log(`✅ Found existing lead by email: ${leadDoc.id} with status: ${leadData.status}`);
-        
-        return {
-          id: leadDoc.id,
-          status: leadData.status,
-          source: leadData.source,
-          createdAt: leadData.createdAt,
-          assignedTo: leadData.assignedTo,
-          priority: leadData.priority,
-          totalInteractions: leadData.totalInteractions,
-          lastInteractionAt: leadData.lastInteractionAt,
-          timeline: leadData.timeline,
-          notes: leadData.notes,
-          tags: leadData.tags,
-        };
-      }
-      
-      // If no email match, try to find by phone number AND user ownership
-      const phoneQuery = query(
-        leadsRef,
-        where('phone', '==', phone),
-        where('uid', '==', auth.currentUser?.uid)
-      );
-      
-      const phoneSnapshot = await getDocs(phoneQuery);
-      
-      if (!phoneSnapshot.empty) {
-        const leadDoc = phoneSnapshot.docs[0];
-        const leadData = leadDoc.data();
-        
-        console.log(`✅ Found existing lead by phone: ${leadDoc.id} with status: ${leadData.status}`);
-        
-        return {
-          id: leadDoc.id,
-          status: leadData.status,
-          source: leadData.source,
-          createdAt: leadData.createdAt,
-          assignedTo: leadData.assignedTo,
-          priority: leadData.priority,
-          totalInteractions: leadData.totalInteractions,
-          lastInteractionAt: leadData.lastInteractionAt,
-          timeline: leadData.timeline,
-          notes: leadData.notes,
-          tags: leadData.tags,
-        };
-      }
-      
-      console.log(`ℹ️ No existing lead found for email: ${email} or phone: ${phone}`);
-      return null;
-      
-    } catch (error: unknown) {
-      console.error('❌ Error searching for existing lead:', error);
-      
-      // Handle specific Firebase permission errors
-      if (error && typeof error === 'object' && 'code' in error) {
-        const firebaseError = error as { code: string };
-        if (firebaseError.code === 'permission-denied') {
-          console.warn('⚠️ Permission denied accessing leads collection. User may not have required permissions.');
-        } else if (firebaseError.code === 'unauthenticated') {
-          console.warn('⚠️ User is not authenticated. Attempting to re-authenticate...');
-          try {
-            await this.ensureAuthenticated();
-          } catch (authError) {
-            console.error('❌ Re-authentication failed:', authError);
-          }
-        }
-      }
-      
-      // Don't throw error, just return null to proceed with creating new lead
-      return null;
+  /**
+   * Validate a file against its document type's rules and return the type definition
+   */
+  private validateDocumentFile(upload: DocumentUpload): DocumentDefinition {
+    const definition = DOCUMENT_DEFINITIONS[upload.type];
+    if (!definition) {
+      throw new Error(`Unknown document type: ${upload.type}`);
+    }
+
+    if (!upload.file || upload.file.size === 0) {
+      throw new Error('No file provided or file is empty');
     }
+
+    if (upload.file.size > MAX_DOCUMENT_SIZE_MB * 1024 * 1024) {
+      throw new Error(`File size must be less than ${MAX_DOCUMENT_SIZE_MB}MB`);
+    }
+
+    if (!definition.acceptedMimeTypes.includes(upload.file.type)) {
+      throw new Error(`Invalid file type for ${definition.label}. Allowed: ${definition.fileTypesLabel}`);
+    }
+
+    return definition;
   }
 
   /**
-   * Delete old document from Firebase Storage
+   * Document URLs stored on an application document for a given type
    */
+  private getStoredDocumentUrls(data: DocumentData, documentType: DocumentType): string[] {
+    const value = isCoreDocumentType(documentType)
+      ? data[documentType]
+      : data.supportingDocuments?.[documentType];
+
+    if (Array.isArray(value)) {
+      return value;
+    }
+
+    return value ? [value] : [];
+  }
+
   async deleteOldDocument(applicationId: string, documentType: string): Promise<void> {
     try {
       // Get current application data to find existing document URL
@@ -1349,7 +1273,9 @@ class StudentApplicationService {
       }
       
       const applicationData = applicationDoc.data();
-      const existingUrl = applicationData[documentType];
+      const existingUrl = isCoreDocumentType(documentType)
+        ? applicationData[documentType]
+        : applicationData.supportingDocuments?.[documentType]?.[0];
       
       if (!existingUrl || existingUrl === '' || existingUrl === null || typeof existingUrl !== 'string') {
         console.log(`ℹ️ No existing ${documentType} found for application ${applicationId} or invalid URL type`);
@@ -1456,8 +1382,10 @@ class StudentApplicationService {
     try {
       console.log(`📤 Uploading ${upload.type} for application ${upload.applicationId}...`);
       
+      const definition = this.validateDocumentFile(upload);
+
       // 0. Delete old document first to save storage space (only for single document types)
-      if (upload.type !== 'academicDocuments') {
+      if (definition.maxFiles === 1) {
         try {
           await this.deleteOldDocument(upload.applicationId, upload.type);
         } catch (deleteError) {
@@ -1466,41 +1394,16 @@ class StudentApplicationService {
         }
       }
       
-      // 1. Validate file
-      if (!upload.file || upload.file.size === 0) {
-        throw new Error('No file provided or file is empty');
-      }
-
-      // Check file size (max 10MB)
-      const maxSize = 10 * 1024 * 1024; // 10MB
-      if (upload.file.size > maxSize) {
-        throw new Error('File size must be less than 10MB');
-      }
-
-      // Check file type
-      const allowedTypes = {
-        passportPhoto: ['image/jpeg', 'image/jpg', 'image/png'],
-        academicDocuments: ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png'],
-        identificationDocument: ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png']
-      };
-
-      if (!allowedTypes[upload.type].includes(upload.file.type)) {
-        throw new Error(`Invalid file type for ${upload.type}. Allowed: ${allowedTypes[upload.type].join(', ')}`);
-      }
-
-      // Check academic documents limit (maximum 5 documents)
-      if (upload.type === 'academicDocuments') {
+      // 1. Check the per-type file limit for multi-file documents
+      if (definition.maxFiles > 1) {
         const applicationRef = doc(db, 'applications', upload.applicationId);
         const applicationDoc = await getDoc(applicationRef);
         
         if (applicationDoc.exists()) {
-          const currentData = applicationDoc.data();
-          const currentAcademicDocs = Array.isArray(currentData.academicDocuments) 
-            ? currentData.academicDocuments 
-            : (currentData.academicDocuments ? [currentData.academicDocuments] : []);
+          const currentDocs = this.getStoredDocumentUrls(applicationDoc.data(), upload.type);
           
-          if (currentAcademicDocs.length >= 5) {
-            throw new Error('Maximum of 5 academic documents allowed. Please remove some documents before uploading new ones.');
+          if (currentDocs.length >= definition.maxFiles) {
+            throw new Error(`Maximum of ${definition.maxFiles} ${definition.label.toLowerCase()} allowed. Please remove some documents before uploading new ones.`);
           }
         }
       }
@@ -1536,39 +1439,76 @@ class StudentApplicationService {
         updatedAt: new Date().toISOString(),
       };
 
-      if (upload.type === 'academicDocuments') {
-        // For academic documents, append to array instead of replacing
-        const applicationRef = doc(db, 'applications', upload.applicationId);
-        const applicationDoc = await getDoc(applicationRef);
-        
-        if (applicationDoc.exists()) {
-          const currentData = applicationDoc.data();
-          const currentAcademicDocs = Array.isArray(currentData.academicDocuments) 
-            ? currentData.academicDocuments 
-            : (currentData.academicDocuments ? [currentData.academicDocuments] : []);
-          
-          console.log(`📎 Current academic documents count: ${currentAcademicDocs.length}`);
-          console.log(`📎 Adding new document: ${downloadUrl}`);
-          updateData.academicDocuments = [...currentAcademicDocs, downloadUrl];
-          console.log(`📎 Total after upload: ${updateData.academicDocuments.length} documents`);
-        } else {
-          console.log(`📎 No existing application found, creating first academic document`);
-          updateData.academicDocuments = [downloadUrl];
-        }
-      } else {
-        // For other document types (passport photo, identification), replace as before
-        updateData[upload.type] = downloadUrl;
-      }
+      let resolvedReviews: DocumentReview[] = [];
+      let applicationReference: string | undefined;
 
       try {
         const applicationRef = doc(db, 'applications', upload.applicationId);
-        await updateDoc(applicationRef, updateData);
+
+        // Read and write in one transaction so a review admissions records meanwhile, or another
+        // upload appending to the same list, is not overwritten
+        resolvedReviews = await runTransaction(db, async (transaction) => {
+          const applicationSnapshot = await transaction.get(applicationRef);
+          if (!applicationSnapshot.exists()) {
+            throw new Error(`Application ${upload.applicationId} not found`);
+          }
+          const currentData = applicationSnapshot.data();
+          applicationReference = currentData.reference;
+          // Rebuilt on each attempt, as the transaction may run more than once
+          const changes: UpdateData = { ...updateData };
+
+          if (upload.type === 'academicDocuments') {
+            // For academic documents, append to array instead of replacing
+            const currentAcademicDocs = Array.isArray(currentData.academicDocuments)
+              ? currentData.academicDocuments
+              : (currentData.academicDocuments ? [currentData.academicDocuments] : []);
+
+            console.log(`📎 Current academic documents count: ${currentAcademicDocs.length}`);
+            console.log(`📎 Adding new document: ${downloadUrl}`);
+            changes.academicDocuments = [...currentAcademicDocs, downloadUrl];
+            console.log(`📎 Total after upload: ${changes.academicDocuments.length} documents`);
+          } else if (!isCoreDocumentType(upload.type)) {
+            // Supporting documents live in the supportingDocuments map
+            const currentDocs = this.getStoredDocumentUrls(currentData, upload.type);
+            changes[`supportingDocuments.${upload.type}`] = definition.maxFiles > 1 ? [...currentDocs, downloadUrl] : [downloadUrl];
+          } else {
+            // For other document types (passport photo, identification), replace as before
+            changes[upload.type] = downloadUrl;
+          }
+
+          // A replacement upload clears any admissions flag on this document type
+          const reviewUpdate = resolveReviews(
+            normalizeDocumentReviews(currentData.documentReviews),
+            upload.type,
+            downloadUrl,
+            updateData.updatedAt
+          );
+          if (reviewUpdate.resolved.length > 0) {
+            changes.documentReviews = reviewUpdate.reviews;
+          }
+
+          transaction.update(applicationRef, changes);
+          return reviewUpdate.resolved;
+        });
         console.log(`✅ Firestore updated with ${upload.type} URL`);
       } catch (firestoreError) {
         console.warn('⚠️ File uploaded but Firestore update failed:', firestoreError);
+        resolvedReviews = [];
         // Don't throw error here as file is already uploaded
       }
 
+      if (resolvedReviews.length > 0) {
+        console.log(`🔁 Cleared ${resolvedReviews.length} review flag(s) on ${upload.type}`);
+        await applicationNotificationService.notifyDocumentResubmitted({
+          applicationId: upload.applicationId,
+          applicationReference,
+          email: upload.studentEmail,
+          documentType: upload.type,
+          downloadUrl,
+          resolvedReviews,
+        });
+      }
+
       return {
         success: true,
         message: `${upload.type} uploaded successfully (previous file cleaned up)`,
@@ -1591,16 +1531,22 @@ class StudentApplicationService {
     passportPhoto?: File;
     academicDocuments: File[];
     identificationDocument?: File; // Changed from array to single file
-  }): Promise<DirectApplicationResponse & { documentProcessing?: Promise<DocumentUploadResponse[]> }> {
+  }, submissionKey?: string): Promise<DirectApplicationResponse & { documentProcessing?: Promise<DocumentUploadResponse[]> }> {
     try {
       console.log('🚀 Starting optimized application submission...');
+      const key = submissionKey || this.generateSubmissionKey();
       
       // 1. Submit application immediately without waiting for documents
-      const applicationResult = await this.createApplicationAndLead(data);
+      const applicationResult = await this.createApplicationAndLead(data, { submissionKey: key });
       
       if (!applicationResult.success) {
         throw new Error(applicationResult.message || 'Failed to create application');
       }
+
+      // A repeated submit: the first one is already uploading documents and sending notifications
+      if (applicationResult.replayed) {
+        return applicationResult;
+      }
       
       // 2. Start document processing in background if files exist
       let documentProcessingPromise: Promise<DocumentUploadResponse[]> | undefined;
@@ -1655,8 +1601,10 @@ class StudentApplicationService {
         console.log('📧 Sending application submission notifications...');
         applicationNotificationService.sendApplicationSubmissionNotifications({
           applicationId: applicationResult.applicationId,
+          applicationReference: applicationResult.reference,
           phoneNumber: data.phone,
           email: data.email,
+          idempotencyKey: key,
         }).then((notificationResult) => {
           if (notificationResult.success) {
             console.log('✅ Application notifications sent successfully');
@@ -1853,10 +1801,19 @@ class StudentApplicationService {
 
   /**
    * Delete a specific academic document by its download URL
-   * - Removes the file from Firebase Storage (best effort)
-   * - Removes the URL from the application's academicDocuments array in Firestore
    */
   async deleteAcademicDocument(applicationId: string, documentUrl: string): Promise<{ success: boolean; message: string }> {
+    return this.deleteDocument(applicationId, 'academicDocuments', documentUrl);
+  }
+
+  /**
+   * Delete a specific document of any type by its download URL
+   * - Removes the file from Firebase Storage (best effort)
+   * - Removes the URL from the application's document field in Firestore
+   */
+  async deleteDocument(applicationId: string, documentType: DocumentType, documentUrl: string): Promise<{ success: boolean; message: string }> {
+    const { label } = DOCUMENT_DEFINITIONS[documentType];
+
     try {
       // Fetch application
       const applicationRef = doc(db, 'applications', applicationId);
@@ -1865,14 +1822,11 @@ class StudentApplicationService {
         return { success: false, message: `Application ${applicationId} not found` };
       }
 
-      const data = applicationDoc.data();
-      const currentAcademicDocs: string[] = Array.isArray(data.academicDocuments)
-        ? data.academicDocuments
-        : (data.academicDocuments ? [data.academicDocuments] : []);
+      const currentDocs = this.getStoredDocumentUrls(applicationDoc.data(), documentType);
 
-      if (!currentAcademicDocs.includes(documentUrl)) {
+      if (!currentDocs.includes(documentUrl)) {
         // Proceed to clean up anyway but inform not found in array
-        console.warn('Academic document URL not present in Firestore array, proceeding to attempt storage cleanup.');
+        console.warn(`${label} URL not present in Firestore, proceeding to attempt storage cleanup.`);
       }
 
       // Attempt to delete storage object (best effort)
@@ -1890,35 +1844,47 @@ class StudentApplicationService {
         if (storagePath) {
           const fileRef = ref(storage, storagePath);
           await deleteObject(fileRef);
-          console.log('✅ Deleted academic document from storage:', storagePath);
+          console.log(`✅ Deleted ${documentType} from storage:`, storagePath);
         } else {
-          console.warn('⚠️ Could not parse storage path from academic document URL:', documentUrl);
+          console.warn(`⚠️ Could not parse storage path from ${documentType} URL:`, documentUrl);
         }
       } catch (storageErr) {
         // Non-fatal: continue to update Firestore
-        console.warn('⚠️ Failed to delete academic document from storage:', storageErr);
+        console.warn(`⚠️ Failed to delete ${documentType} from storage:`, storageErr);
       }
 
-      // Update Firestore to remove the URL from the array
-      const updatedDocs = currentAcademicDocs.filter((u) => u !== documentUrl);
+      // Update Firestore to remove the URL
+      const updatedDocs = currentDocs.filter((u) => u !== documentUrl);
+      const field = isCoreDocumentType(documentType) ? documentType : `supportingDocuments.${documentType}`;
+      const value = documentType === 'passportPhoto' || documentType === 'identificationDocument'
+        ? null
+        : updatedDocs;
+
       try {
         await updateDoc(applicationRef, {
-          academicDocuments: updatedDocs,
+          [field]: value,
           updatedAt: new Date().toISOString(),
         });
-        console.log(`✅ Removed academic document from Firestore array. New count: ${updatedDocs.length}`);
+        console.log(`✅ Removed ${documentType} from Firestore. New count: ${updatedDocs.length}`);
       } catch (firestoreErr) {
-        console.error('❌ Failed to update Firestore academicDocuments array:', firestoreErr);
+        console.error(`❌ Failed to update Firestore ${documentType}:`, firestoreErr);
         return { success: false, message: 'Failed to update application record after deleting document' };
       }
 
-      return { success: true, message: 'Academic document removed successfully' };
+      return { success: true, message: `${label} removed successfully` };
     } catch (err) {
-      console.error('❌ Error deleting academic document:', err);
+      console.error(`❌ Error deleting ${documentType}:`, err);
       return { success: false, message: err instanceof Error ? err.message : 'Unknown error' };
     }
   }
 
+  /**
+   * Generate an idempotency key for one submission
+   */
+  private generateSubmissionKey(): string {
+    return crypto.randomUUID();
+  }
+
   /**
    * Generate a unique application ID
    */
@@ -1926,13 +1892,55 @@ class StudentApplicationService {
     return `app_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-
-
   /**
-   * Generate a unique lead ID
+   * Map a Firestore application document to the portal Application shape. Also used for
+   * raw application data returned by the backend, e.g. in the agent area.
    */
-  private generateLeadId(): string {
-    return `lead_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  mapApplicationSnapshot(id: string, data: DocumentData): Application {
+    return {
+      id,
+      reference: data.reference || undefined,
+      name: data.name || '',
+      email: data.email || '',
+      phoneNumber: data.phoneNumber || '',
+      countryOfBirth: data.countryOfBirth || '',
+      dateOfBirth: data.dateOfBirth || '',
+      gender: data.gender || '',
+      modeOfStudy: data.modeOfStudy || '',
+      preferredIntake: data.preferredIntake || '',
+      intakeId: data.intakeId || undefined,
+      preferredProgram: data.preferredProgram || '',
+      secondaryProgram: data.secondaryProgram || '',
+      postalAddress: data.postalAddress || '',
+      status: data.status || APPLICATION_STATUSES.APPLIED,
+      submittedAt: data.submittedAt || '',
+      updatedAt: data.updatedAt || '',
+      passportPhoto: data.passportPhoto || '',
+      academicDocuments: Array.isArray(data.academicDocuments)
+        ? data.academicDocuments
+        : (data.academicDocuments ? [data.academicDocuments] : []),
+      identificationDocument: data.identificationDocument || '',
+      educationHistory: normalizeEducationHistory(data.educationHistory),
+      sponsorTelephone: data.sponsorTelephone || '',
+      sponsorEmail: data.sponsorEmail || '',
+      howDidYouHear: data.howDidYouHear || '',
+      additionalNotes: data.additionalNotes || '',
+      leadId: data.leadId || undefined,
+      offer: data.offer
+        ? {
+            ...data.offer,
+            terms: Array.isArray(data.offer.terms)
+              ? data.offer.terms
+              : (data.offer.terms ? [data.offer.terms] : []),
+          }
+        : undefined,
+      enrolmentChecklist: Array.isArray(data.enrolmentChecklist) ? data.enrolmentChecklist : undefined,
+      pendingRequest: data.pendingRequest || null,
+      documentReviews: normalizeDocumentReviews(data.documentReviews),
+      supportingDocuments: normalizeSupportingDocuments<string>(data.supportingDocuments),
+      references: normalizeReferences(data.references),
+      sponsorship: normalizeSponsorship(data.sponsorship),
+    };
   }
 
   /**
@@ -1969,35 +1977,9 @@ class StudentApplicationService {
         return [];
       }
 
-      const applications: Application[] = [];
-      querySnapshot.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
-        const data = doc.data();
-        applications.push({
-          id: doc.id,
-          name: data.name || '',
-          email: data.email || '',
-          phoneNumber: data.phoneNumber || '',
-          countryOfBirth: data.countryOfBirth || '',
-          dateOfBirth: data.dateOfBirth || '',
-          gender: data.gender || '',
-          modeOfStudy: data.modeOfStudy || '',
-          preferredIntake: data.preferredIntake || '',
-          preferredProgram: data.preferredProgram || '',
-          postalAddress: data.postalAddress || '',
-          status: data.status || APPLICATION_STATUSES.APPLIED,
-          submittedAt: data.submittedAt || '',
-          updatedAt: data.updatedAt || '',
-          passportPhoto: data.passportPhoto || '',
-          academicDocuments: Array.isArray(data.academicDocuments)
-            ? data.academicDocuments
-            : (data.academicDocuments ? [data.academicDocuments] : []),
-          identificationDocument: data.identificationDocument || '',
-          sponsorTelephone: data.sponsorTelephone || '',
-          sponsorEmail: data.sponsorEmail || '',
-          howDidYouHear: data.howDidYouHear || '',
-          additionalNotes: data.additionalNotes || '',
-        });
-      });
+      const applications: Application[] = querySnapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) =>
+        this.mapApplicationSnapshot(doc.id, doc.data())
+      );
 
       // Sort by submittedAt desc client-side
       applications.sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime());
@@ -2020,6 +2002,78 @@ class StudentApplicationService {
     }
   }
 
+  /**
+   * Subscribe to live updates of the signed-in applicant's applications.
+   * The callback fires with the full, sorted list on every change; `fromLocalWrite`
+   * is true when the change came from this browser and has not reached the server yet.
+   * Returns the unsubscribe function.
+   */
+  subscribeToApplicationsByEmail(
+    email: string,
+    onChange: (applications: Application[], meta: { fromLocalWrite: boolean }) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const currentUser = auth.currentUser;
+    const requestedEmail = email.toLowerCase();
+
+    // Same ownership constraints as getApplicationsByEmail
+    if (!currentUser?.email || currentUser.isAnonymous || currentUser.email.toLowerCase() !== requestedEmail) {
+      onChange([], { fromLocalWrite: false });
+      return () => {};
+    }
+
+    const applicationsRef = collection(db, 'applications');
+    const q = query(applicationsRef, where('email', '==', requestedEmail), where('uid', '==', currentUser.uid));
+
+    console.log('👂 Subscribing to application updates for', requestedEmail);
+
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const applications = snapshot.docs.map((doc) => this.mapApplicationSnapshot(doc.id, doc.data()));
+        applications.sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime());
+        onChange(applications, { fromLocalWrite: snapshot.metadata.hasPendingWrites });
+      },
+      (error) => {
+        if (error.code === 'permission-denied') {
+          console.info('ℹ️ Applications subscription denied by Firestore rules.');
+        } else {
+          console.error('❌ Applications subscription error:', error);
+        }
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Get the applicant-facing status history for an application from the portal's timeline
+   * route, which reads the lead timeline on the server and returns only public entries
+   */
+  async getApplicationTimeline(application: Application): Promise<ApplicantTimelineEntry[]> {
+    const fallback = buildApplicantTimeline([buildSubmissionTimelineEntry(application.submittedAt)]);
+
+    try {
+      const isAuthenticated = await this.ensureAuthenticated(true);
+      if (!isAuthenticated || !auth.currentUser) {
+        return fallback;
+      }
+
+      const response = await fetch(`/api/applications/${encodeURIComponent(application.id)}/timeline`, {
+        headers: { Authorization: `Bearer ${await auth.currentUser.getIdToken()}` },
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || `Server responded with ${response.status}`);
+      }
+
+      return result.timeline as ApplicantTimelineEntry[];
+    } catch (error) {
+      console.error('❌ Error loading application timeline:', error);
+      return fallback;
+    }
+  }
+
   /**
    * Calculate application progress based on stage and available data
    */
@@ -2093,7 +2147,9 @@ class StudentApplicationService {
         status = 'Admitted';
         statusColor = 'text-green-800';
         statusBgColor = 'bg-green-100';
-        nextAction = 'Complete Enrollment';
+        nextAction = application.offer && !application.offer.response
+          ? 'Respond to Admission Offer'
+          : 'Complete Enrollment';
         break;
       
       case 'enrolled':
@@ -2159,106 +2215,45 @@ class StudentApplicationService {
     };
   }
 
-  // Update existing application data by email
-  async updateApplicationDataByEmail(email: string, data: StudentApplicationData): Promise<{ success: boolean; message: string }> {
-    try {
-      // Ensure authentication
-      if (!auth.currentUser) {
-        await signInAnonymously(auth);
-      }
-
-      // Get applications by email to find the most recent one
-      const applications = await this.getApplicationsByEmail(email);
-      
-      if (applications.length === 0) {
-        return {
-          success: false,
-          message: 'No applications found for the provided email'
-        };
-      }
-
-      // Use the most recent application
-      const latestApplication = applications[0];
-      const applicationRef = doc(db, 'applications', latestApplication.id);
-
-      // Prepare update data
-      const updateData = {
-        name: `${data.firstName} ${data.lastName}`,
-        email: data.email,
-        phoneNumber: data.phone,
-        countryOfBirth: data.countryOfBirth,
-        dateOfBirth: data.dateOfBirth || null,
-        gender: data.gender,
-        postalAddress: data.postalAddress,
-        preferredProgram: data.preferredProgram,
-        modeOfStudy: data.modeOfStudy,
-        preferredIntake: data.preferredIntake,
-        sponsorTelephone: data.sponsorTelephone || null,
-        sponsorEmail: data.sponsorEmail || null,
-        howDidYouHear: data.howDidYouHear || null,
-        additionalNotes: data.additionalNotes || null,
-        updatedAt: new Date().toISOString(),
-      };
-
-      // Update the application document
-      await updateDoc(applicationRef, updateData);
-
-      console.log(`✅ Successfully updated application: ${latestApplication.id} by email: ${email}`);
-
-      return {
-        success: true,
-        message: 'Application updated successfully'
-      };
-
-    } catch (error) {
-      console.error('❌ Error updating application by email:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      
-      return {
-        success: false,
-        message: `Failed to update application: ${errorMessage}`
-      };
-    }
-  }
-
-  // Update existing application data
+  /**
+   * Save edits to a submitted application through the portal's update route, which validates
+   * them as on submission and checks the program choices and intake on the server
+   */
   async updateApplicationData(applicationId: string, data: StudentApplicationData): Promise<{ success: boolean; message: string }> {
     try {
-      // Ensure authentication
-      if (!auth.currentUser) {
-        await signInAnonymously(auth);
+      const user = auth.currentUser;
+      if (!user) {
+        throw new Error('Please sign in to update your application');
       }
 
-      // Reference to the specific application document
-      const applicationRef = doc(db, 'applications', applicationId);
+      const response = await fetch(`/api/applications/${encodeURIComponent(applicationId)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${await user.getIdToken()}`,
+        },
+        body: JSON.stringify({ data }),
+      });
 
-      // Prepare update data
-      const updateData = {
-        name: `${data.firstName} ${data.lastName}`,
-        email: data.email,
-        phoneNumber: data.phone,
-        countryOfBirth: data.countryOfBirth,
-        dateOfBirth: data.dateOfBirth || null,
-        gender: data.gender,
-        postalAddress: data.postalAddress,
-        preferredProgram: data.preferredProgram,
-        modeOfStudy: data.modeOfStudy,
-        preferredIntake: data.preferredIntake,
-        sponsorTelephone: data.sponsorTelephone || null,
-        sponsorEmail: data.sponsorEmail || null,
-        howDidYouHear: data.howDidYouHear || null,
-        additionalNotes: data.additionalNotes || null,
-        updatedAt: new Date().toISOString(),
-      };
+      let result;
+      try {
+        result = await response.json();
+      } catch {
+        result = { message: `Server responded with ${response.status}: ${response.statusText}` };
+      }
 
-      // Update the application document
-      await updateDoc(applicationRef, updateData);
+      if (!response.ok || !result.success) {
+        const details = Array.isArray(result.errors)
+          ? `: ${(result.errors as FieldError[]).map((fieldError) => fieldError.message).join('; ')}`
+          : '';
+        throw new Error(`${result.message || 'Failed to update application'}${details}`);
+      }
 
       console.log(`✅ Successfully updated application: ${applicationId}`);
 
       return {
         success: true,
-        message: 'Application updated successfully'
+        message: result.message || 'Application updated successfully'
       };
 
     } catch (error) {
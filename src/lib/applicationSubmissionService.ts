@@ -0,0 +1,586 @@
+/**
+ * Application Submission Service (server only)
+ * Writes a submitted application and its lead with Firebase Admin on behalf of the submission
+ * route, and applicants' later edits on behalf of the update route. The status, lead source and
+ * lead timeline entry are decided here rather than by the browser, and documents are taken from
+ * the stored draft instead of the request.
+ */
+import { Filter, type DocumentData, type Transaction } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from './firebaseAdmin';
+import {
+  formatIntakeLabel,
+  INTAKE_CALENDAR_UNAVAILABLE,
+  normalizeIntake,
+  resolveSubmissionIntake,
+  sortIntakes,
+  type IntakeCalendarEntry,
+} from './intakeCalendar';
+import {
+  APPLICATION_STATUSES,
+  LEAD_SOURCES,
+  LEAD_STATUSES,
+  formatApplicationReference,
+  type DirectApplicationResponse,
+  type ExistingLeadRecord,
+} from './applicationRecords';
+import type { ApplicationDraft, DraftDocumentMetadata, StudentApplicationData } from './applicationService';
+import { validateProgramChoices, type ApplicationSubmissionPayload, type FieldError } from './formValidation';
+import { filterPrograms, getSeedPrograms, normalizeProgram, sortPrograms } from './programCatalog';
+import { LEAD_TIMELINE_COLLECTION, type LeadTimelineEntry } from './applicationTimeline';
+import { LeadTransitionError, transitionLead } from './leadLifecycle';
+import { normalizeSupportingDocuments } from './documentRequirements';
+import {
+  buildDuplicateReview,
+  buildLeadMatchTimelineEntry,
+  emailLookupValues,
+  leadMatchFields,
+  matchLead,
+  normalizeEmail,
+  normalizePhone,
+  phoneLookupValues,
+  type DuplicateReview,
+  type LeadMatchResult,
+} from './leadMatching';
+
+// Rejected submissions; `status` is the HTTP status the route responds with and `errors` the
+// fields to correct, if any
+export class ApplicationSubmissionError extends Error {
+  constructor(message: string, readonly status: number = 400, readonly errors?: FieldError[]) {
+    super(message);
+    this.name = 'ApplicationSubmissionError';
+  }
+}
+
+// The signed-in applicant, from their verified ID token
+export interface ApplicationSubmitter {
+  uid: string;
+  email?: string;
+}
+
+/**
+ * The applicant behind a request's bearer token. Anonymous sessions and unverified emails are
+ * refused, since applications are written under the account's email. `action` completes
+ * messages such as "Please sign in to submit your application".
+ */
+export const authenticateApplicant = async (
+  authorization: string | null,
+  action: string
+): Promise<ApplicationSubmitter> => {
+  const token = authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) {
+    throw new ApplicationSubmissionError(`Please sign in to ${action}`, 401);
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await getAdminAuth().verifyIdToken(token);
+  } catch (error) {
+    console.warn('⚠️ Rejected application request with invalid token:', error);
+    throw new ApplicationSubmissionError('Your session has expired. Please sign in again.', 401);
+  }
+
+  if (decodedToken.firebase.sign_in_provider === 'anonymous') {
+    throw new ApplicationSubmissionError(`Please sign in with your account to ${action}`, 403);
+  }
+  if (!decodedToken.email_verified) {
+    throw new ApplicationSubmissionError(`Please verify your email address before you ${action}`, 403);
+  }
+  return { uid: decodedToken.uid, email: decodedToken.email };
+};
+
+// The application and lead are written under the email, so it has to be the signed-in account's
+export const assertApplicantEmail = (submitter: ApplicationSubmitter, data: StudentApplicationData): void => {
+  if (data.email !== submitter.email?.trim().toLowerCase()) {
+    throw new ApplicationSubmissionError('The email address on your application must match the account you are signed in with', 403);
+  }
+};
+
+// Record in `applicationSubmissions/{idempotencyKey}` of a completed submission
+interface SubmissionRecord {
+  uid: string;
+  applicationId: string;
+  leadId: string;
+  createdAt: string;
+  response: DirectApplicationResponse;
+}
+
+// `applicationReferenceCounters/{intakeId}` holds the last reference number issued for the intake
+const REFERENCE_COUNTERS_COLLECTION = 'applicationReferenceCounters';
+
+// Keys are generated by the portal (UUIDs or `draft_<id>`); anything else is rejected
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+export const isValidIdempotencyKey = (key: string | null | undefined): key is string =>
+  Boolean(key) && IDEMPOTENCY_KEY_PATTERN.test(key as string);
+
+interface SubmittedDraft {
+  documents: ApplicationDraft['documents'];
+  createdAt: string;
+}
+
+class ApplicationSubmissionService {
+  private generateApplicationId(): string {
+    return `app_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  private generateLeadId(): string {
+    return `lead_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  /**
+   * Check the program choices against the Firestore catalogue or the bundled one, offering only
+   * the programs the application form lists for the chosen mode of study and intake
+   */
+  private async validatePrograms(data: StudentApplicationData): Promise<void> {
+    const snapshot = await getAdminDb().collection('programs').where('active', '==', true).get();
+    const programs = snapshot.empty
+      ? getSeedPrograms().filter((program) => program.active)
+      : snapshot.docs.map((programDoc) => normalizeProgram({ id: programDoc.id, ...programDoc.data() }));
+
+    const offeredPrograms = filterPrograms(sortPrograms(programs), data.modeOfStudy, data.preferredIntake);
+    const errors = validateProgramChoices(data, offeredPrograms);
+    if (errors.length > 0) {
+      throw new ApplicationSubmissionError('Please correct the following and submit again', 400, errors);
+    }
+  }
+
+  /**
+   * The open intake of the chosen name from the Firestore calendar; submissions are refused while
+   * the calendar is empty rather than checked against made-up dates
+   */
+  private async resolveIntake(name: string, now: Date): Promise<IntakeCalendarEntry> {
+    const snapshot = await getAdminDb().collection('intakes').where('active', '==', true).get().catch((error) => {
+      console.error('❌ Error loading intake calendar:', error);
+      throw new ApplicationSubmissionError(INTAKE_CALENDAR_UNAVAILABLE, 503);
+    });
+    if (snapshot.empty) {
+      console.error('❌ Intake calendar is empty in Firestore');
+      throw new ApplicationSubmissionError(INTAKE_CALENDAR_UNAVAILABLE, 503);
+    }
+    const intakes = snapshot.docs.map((intakeDoc) => normalizeIntake({ id: intakeDoc.id, ...intakeDoc.data() }));
+
+    try {
+      return resolveSubmissionIntake(sortIntakes(intakes), name, now);
+    } catch (error) {
+      throw new ApplicationSubmissionError(error instanceof Error ? error.message : 'This intake is not accepting applications', 409);
+    }
+  }
+
+  /**
+   * Load the draft being submitted, making sure it belongs to the applicant
+   */
+  private async loadDraft(transaction: Transaction, draftId: string, submitter: ApplicationSubmitter): Promise<SubmittedDraft> {
+    const snapshot = await transaction.get(getAdminDb().collection('applicationDrafts').doc(draftId));
+    const data = snapshot.data();
+
+    if (!snapshot.exists || !data) {
+      throw new ApplicationSubmissionError('Draft application not found', 404);
+    }
+
+    const isOwner = data.uid
+      ? data.uid === submitter.uid
+      : Boolean(submitter.email) && String(data.email || '').toLowerCase() === submitter.email?.toLowerCase();
+    if (!isOwner) {
+      throw new ApplicationSubmissionError('You can only submit your own application', 403);
+    }
+
+    const documents = data.documents || {};
+    const asMetadata = (value: unknown) =>
+      value && typeof value === 'object' ? (value as DraftDocumentMetadata) : undefined;
+
+    return {
+      createdAt: String(data.createdAt || new Date().toISOString()),
+      documents: {
+        passportPhoto: asMetadata(documents.passportPhoto),
+        identificationDocument: asMetadata(documents.identificationDocument),
+        academicDocuments: Array.isArray(documents.academicDocuments) ? documents.academicDocuments : [],
+        supportingDocuments: normalizeSupportingDocuments<DraftDocumentMetadata>(documents.supportingDocuments),
+      },
+    };
+  }
+
+  private toExistingLead(id: string, data: DocumentData): ExistingLeadRecord {
+    return {
+      id,
+      uid: data.uid,
+      name: data.name,
+      email: data.email,
+      normalizedEmail: data.normalizedEmail,
+      phone: data.phone,
+      whatsappNumber: data.whatsappNumber,
+      phoneE164: data.phoneE164,
+      status: data.status,
+      source: data.source,
+      createdAt: data.createdAt,
+      assignedTo: data.assignedTo,
+      priority: data.priority,
+      totalInteractions: data.totalInteractions,
+      lastInteractionAt: data.lastInteractionAt,
+      notes: data.notes,
+      tags: data.tags,
+    };
+  }
+
+  /**
+   * Leads sharing the applicant's email or phone in any stored format, whoever created them,
+   * and which of them (if any) the application belongs to
+   */
+  private async findExistingLead(
+    transaction: Transaction,
+    uid: string,
+    data: StudentApplicationData
+  ): Promise<LeadMatchResult<ExistingLeadRecord>> {
+    const emails = emailLookupValues(data.email);
+    const phones = phoneLookupValues(data.phone);
+    const filters = [
+      Filter.where('email', 'in', emails),
+      Filter.where('normalizedEmail', '==', normalizeEmail(data.email)),
+      ...(phones.length > 0 ? [Filter.where('phone', 'in', phones), Filter.where('whatsappNumber', 'in', phones)] : []),
+      ...(normalizePhone(data.phone) ? [Filter.where('phoneE164', '==', normalizePhone(data.phone))] : []),
+    ];
+
+    const snapshot = await transaction.get(getAdminDb().collection('leads').where(Filter.or(...filters)).limit(20));
+    const leads = snapshot.docs.map((leadDoc) => this.toExistingLead(leadDoc.id, leadDoc.data()));
+
+    return matchLead({ name: `${data.firstName} ${data.lastName}`, email: data.email, phone: data.phone, uid }, leads);
+  }
+
+  private buildApplicationRecord(
+    data: StudentApplicationData,
+    context: {
+      uid: string;
+      leadId: string;
+      reference: string;
+      intake: IntakeCalendarEntry;
+      draft: SubmittedDraft | null;
+      now: string;
+    }
+  ) {
+    const documents = context.draft?.documents;
+
+    return {
+      // Reference quoted by the applicant; the document ID stays the key
+      reference: context.reference,
+
+      // Authentication/Ownership fields (required for Firestore security rules)
+      uid: context.uid,
+      email: data.email.toLowerCase(),
+
+      // Personal Information
+      name: `${data.firstName} ${data.lastName}`,
+      countryOfBirth: data.countryOfBirth,
+      dateOfBirth: data.dateOfBirth || null,
+      gender: data.gender,
+      phoneNumber: data.phone,
+      passportPhoto: documents?.passportPhoto?.downloadUrl ?? null,
+      postalAddress: data.postalAddress || null,
+
+      // Populated by the backend when admissions submits on an applicant's behalf
+      submittedBy: null,
+
+      // Academic Information
+      modeOfStudy: data.modeOfStudy,
+      preferredIntake: data.preferredIntake,
+      intakeId: context.intake.id,
+      intakeYear: context.intake.year,
+      preferredProgram: data.preferredProgram,
+      secondaryProgram: data.secondaryProgram || null,
+      academicDocuments: documents?.academicDocuments.map((item) => item.downloadUrl) ?? [],
+      identificationDocument: documents?.identificationDocument?.downloadUrl ?? null,
+      supportingDocuments: Object.fromEntries(
+        Object.entries(documents?.supportingDocuments || {}).map(([type, items]) => [
+          type,
+          items.map((item) => item.downloadUrl),
+        ])
+      ),
+      educationHistory: data.educationHistory || [],
+
+      // Sponsorship Information
+      sponsor: null,
+      sponsorTelephone: data.sponsorTelephone || null,
+      sponsorEmail: data.sponsorEmail || null,
+      howDidYouHear: data.howDidYouHear || null,
+      additionalNotes: data.additionalNotes || null,
+
+      // Application Meta
+      status: APPLICATION_STATUSES.APPLIED,
+      submittedAt: context.now,
+      createdAt: context.draft?.createdAt ?? context.now,
+      updatedAt: context.now,
+      stage: 'new',
+      statusNote: 'Application submitted',
+      notes: '',
+
+      // Integration
+      leadId: context.leadId,
+      whatsappMessageSent: false,
+    };
+  }
+
+  private buildLeadRecord(
+    data: StudentApplicationData,
+    context: {
+      uid: string;
+      existingLead: ExistingLeadRecord | null;
+      reference: string;
+      status: string;
+      duplicateReview: DuplicateReview | null;
+      now: string;
+    }
+  ) {
+    const { existingLead } = context;
+
+    return {
+      // Authentication/Ownership fields (required for Firestore security rules)
+      uid: context.uid,
+      email: data.email.toLowerCase(),
+
+      // Basic Info
+      status: context.status,
+      source: existingLead?.source || LEAD_SOURCES.APPLICATION_FORM,
+      createdAt: existingLead?.createdAt || context.now,
+      updatedAt: context.now,
+
+      // Contact Info
+      name: `${data.firstName} ${data.lastName}`,
+      phone: data.phone,
+      whatsappNumber: data.phone,
+      ...leadMatchFields(data),
+
+      // Application Info
+      program: data.preferredProgram,
+      secondaryProgram: data.secondaryProgram || null,
+      applicationSubmitted: true,
+      applicationDate: context.now,
+      applicationReference: context.reference,
+
+      // Additional Information
+      sponsorTelephone: data.sponsorTelephone || null,
+      sponsorEmail: data.sponsorEmail || null,
+      howDidYouHear: data.howDidYouHear || null,
+      additionalNotes: data.additionalNotes || null,
+
+      // Assignment
+      assignedTo: existingLead?.assignedTo || null,
+      priority: existingLead?.priority || 'MEDIUM',
+
+      // Tracking
+      totalInteractions: existingLead?.totalInteractions || 0,
+      lastInteractionAt: existingLead?.lastInteractionAt || null,
+      nextFollowUpDate: null,
+
+      // Possible duplicate left for admissions to merge or dismiss
+      ...(context.duplicateReview ? { duplicateReview: context.duplicateReview } : {}),
+
+      // Notes
+      notes: existingLead?.notes || '',
+      tags: Array.isArray(existingLead?.tags) ? existingLead.tags : [],
+    };
+  }
+
+  /**
+   * Create the application, create or update the applicant's lead, and remove the submitted
+   * draft in one transaction. The idempotency key is recorded with the response, so submitting
+   * again with the same key (a double tap or a retried request) returns the original response
+   * instead of writing a second application or lead timeline entry.
+   */
+  async submit(
+    submitter: ApplicationSubmitter,
+    payload: ApplicationSubmissionPayload,
+    idempotencyKey: string
+  ): Promise<DirectApplicationResponse> {
+    const { data, draftId } = payload;
+    const db = getAdminDb();
+    const currentTime = new Date();
+    const now = currentTime.toISOString();
+
+    await this.validatePrograms(data);
+
+    // 📅 Refuse submissions once the intake's late-application cutoff has passed
+    const intake = await this.resolveIntake(data.preferredIntake, currentTime);
+    const submissionRef = db.collection('applicationSubmissions').doc(idempotencyKey);
+
+    return db.runTransaction(async (transaction) => {
+      const submissionSnapshot = await transaction.get(submissionRef);
+      if (submissionSnapshot.exists) {
+        const record = submissionSnapshot.data() as SubmissionRecord;
+        if (record.uid !== submitter.uid) {
+          throw new ApplicationSubmissionError('This submission key belongs to another applicant', 409);
+        }
+
+        console.log('♻️ Repeated submission, returning the original response:', record.applicationId);
+        return { ...record.response, replayed: true };
+      }
+
+      const draft = draftId ? await this.loadDraft(transaction, draftId, submitter) : null;
+
+      const applicationId = draftId ?? this.generateApplicationId();
+      const applicationRef = db.collection('applications').doc(applicationId);
+      if ((await transaction.get(applicationRef)).exists) {
+        throw new ApplicationSubmissionError('This application has already been submitted', 409);
+      }
+
+      // 🔍 Check if a lead already exists for this email or phone
+      const leadMatch = await this.findExistingLead(transaction, submitter.uid, data);
+      const existingLead = leadMatch.decision === 'merge' ? leadMatch.lead : null;
+      const leadId = existingLead?.id ?? this.generateLeadId();
+      if (leadMatch.decision !== 'create') {
+        console.log(`🔗 Lead match for application ${applicationId}: ${leadMatch.decision} - ${leadMatch.reason}`);
+      }
+
+      // 🔢 Number the application within its intake; the counter is read and written in this
+      // transaction, so concurrent submissions never share a reference
+      const counterRef = db.collection(REFERENCE_COUNTERS_COLLECTION).doc(intake.id);
+      const counterSnapshot = await transaction.get(counterRef);
+      const sequence = (Number(counterSnapshot.data()?.lastSequence) || 0) + 1;
+      const reference = formatApplicationReference(intake, sequence);
+
+      // 🚦 A lead admissions has already moved past APPLIED is not sent back to it: the additional
+      // application is still created and noted on the lead, whose status stays as it is
+      let transition: { status: string; timelineEntry: LeadTimelineEntry };
+      try {
+        transition = transitionLead(existingLead?.status, 'SUBMIT_APPLICATION', {
+          actor: 'applicant',
+          date: now,
+          notes: existingLead
+            ? `Lead status updated from ${existingLead.status} to APPLIED - Application submitted`
+            : 'Lead created from APPLICATION_FORM with APPLIED status',
+          publicNote: `Your application for ${data.preferredProgram} (${formatIntakeLabel(intake)} intake) was submitted. Your reference is ${reference}.`,
+          metadata: { idempotencyKey, applicationId },
+        });
+      } catch (error) {
+        if (!(error instanceof LeadTransitionError) || !existingLead) {
+          throw error;
+        }
+
+        console.log(`ℹ️ Lead ${leadId} keeps ${existingLead.status} status: ${error.message}`);
+        transition = {
+          status: existingLead.status,
+          timelineEntry: {
+            date: now,
+            action: 'ADDITIONAL_APPLICATION_SUBMITTED',
+            status: existingLead.status,
+            notes: `Additional application submitted for ${data.preferredProgram} (${formatIntakeLabel(intake)} intake), reference ${reference}. Lead status stays ${existingLead.status}`,
+            visibility: 'internal',
+            metadata: { idempotencyKey, applicationId },
+          },
+        };
+      }
+
+      const applicationData = this.buildApplicationRecord(data, { uid: submitter.uid, leadId, reference, intake, draft, now });
+      const matchEntries = leadMatch.decision === 'create'
+        ? []
+        : [buildLeadMatchTimelineEntry(leadMatch, {
+          date: now,
+          status: existingLead?.status ?? LEAD_STATUSES.APPLIED,
+          source: 'Application submission',
+        })];
+      const leadData = this.buildLeadRecord(data, {
+        uid: submitter.uid,
+        existingLead,
+        reference,
+        status: transition.status,
+        duplicateReview: leadMatch.decision === 'review' ? buildDuplicateReview(leadMatch, now) : null,
+        now,
+      });
+
+      const message = !existingLead
+        ? 'Application and new lead created successfully'
+        : transition.status === existingLead.status
+          ? `Application created for existing lead ${leadId}, which stays ${existingLead.status}`
+          : `Application created and existing lead ${leadId} updated from ${existingLead.status} to APPLIED`;
+      const response: DirectApplicationResponse = {
+        success: true,
+        message,
+        applicationId,
+        reference,
+        leadId,
+        application: applicationData,
+        lead: leadData,
+      };
+
+      transaction.set(counterRef, { intakeId: intake.id, lastSequence: sequence, updatedAt: now }, { merge: true });
+      transaction.set(applicationRef, applicationData);
+      // Merged so fields written by admissions, and the legacy timeline array, are kept
+      const leadRef = db.collection('leads').doc(leadId);
+      transaction.set(leadRef, leadData, { merge: true });
+      [...matchEntries, transition.timelineEntry].forEach((entry) => {
+        transaction.set(leadRef.collection(LEAD_TIMELINE_COLLECTION).doc(), entry);
+      });
+      if (draftId) {
+        // Files stay in storage: the application now references them
+        transaction.delete(db.collection('applicationDrafts').doc(draftId));
+      }
+      transaction.set(submissionRef, { uid: submitter.uid, applicationId, leadId, createdAt: now, response } satisfies SubmissionRecord);
+
+      console.log(`✅ ${message}`, { applicationId, reference, leadId });
+      return response;
+    });
+  }
+  /**
+   * Apply an applicant's edits to their submitted application. The data has passed the same
+   * schema as a submission; the program choices are checked against the catalogue again, and a
+   * change of intake is only accepted while the new intake takes applications. Keeping the
+   * current intake is allowed after its cutoff so the rest of the application can be corrected.
+   */
+  async update(
+    submitter: ApplicationSubmitter,
+    applicationId: string,
+    data: StudentApplicationData
+  ): Promise<{ success: boolean; message: string }> {
+    const db = getAdminDb();
+    const applicationRef = db.collection('applications').doc(applicationId);
+    const currentTime = new Date();
+
+    await this.validatePrograms(data);
+
+    const snapshot = await applicationRef.get();
+    const current = snapshot.data();
+    if (!snapshot.exists || !current) {
+      throw new ApplicationSubmissionError('Application not found', 404);
+    }
+    if (current.uid !== submitter.uid) {
+      throw new ApplicationSubmissionError('You can only update your own application', 403);
+    }
+
+    const intakeChanged = String(current.preferredIntake || '').toLowerCase() !== data.preferredIntake.toLowerCase();
+    const intake = intakeChanged ? await this.resolveIntake(data.preferredIntake, currentTime) : null;
+
+    await db.runTransaction(async (transaction) => {
+      // Read again so a withdrawal or deferral request made meanwhile is respected
+      const latest = (await transaction.get(applicationRef)).data();
+      if (latest?.pendingRequest?.status === 'pending') {
+        throw new ApplicationSubmissionError(
+          'Your application cannot be changed while admissions reviews your withdrawal or deferral request.',
+          409
+        );
+      }
+
+      transaction.update(applicationRef, {
+        name: `${data.firstName} ${data.lastName}`,
+        email: data.email.toLowerCase(),
+        phoneNumber: data.phone,
+        countryOfBirth: data.countryOfBirth,
+        dateOfBirth: data.dateOfBirth || null,
+        gender: data.gender,
+        postalAddress: data.postalAddress || null,
+        preferredProgram: data.preferredProgram,
+        secondaryProgram: data.secondaryProgram || null,
+        modeOfStudy: data.modeOfStudy,
+        preferredIntake: data.preferredIntake,
+        ...(intake ? { intakeId: intake.id, intakeYear: intake.year } : {}),
+        educationHistory: data.educationHistory || [],
+        sponsorTelephone: data.sponsorTelephone || null,
+        sponsorEmail: data.sponsorEmail || null,
+        howDidYouHear: data.howDidYouHear || null,
+        additionalNotes: data.additionalNotes || null,
+        updatedAt: currentTime.toISOString(),
+      });
+    });
+
+    console.log(`✅ Successfully updated application: ${applicationId}`);
+    return { success: true, message: 'Application updated successfully' };
+  }
+}
+
+export const applicationSubmissionService = new ApplicationSubmissionService();
@@ -0,0 +1,299 @@
+/**
+ * Application Summary PDF
+ * Builds a branded, printable copy of a submitted application for applicants and their sponsors:
+ * personal details, education, program choices, additional information and an inventory of the
+ * uploaded documents with their upload dates.
+ */
+import type { jsPDF } from 'jspdf';
+import type { Application } from './applicationService';
+import { storageService } from './storageService';
+import { programCatalogService } from './programCatalogService';
+import { intakeCalendarService } from './intakeCalendarService';
+import { findApplicationIntake, formatIntakeLabel } from './intakeCalendar';
+import { findProgramByName } from './programCatalog';
+import { describeQualification, EXAMINATION_BODY_LABELS } from './educationHistory';
+import {
+  DOCUMENT_DEFINITIONS,
+  getApplicantNationality,
+  getDocumentRequirements,
+  getUploadedDocumentUrls,
+  type DocumentType,
+} from './documentRequirements';
+import { getLatestReview, isReviewFlagged } from './documentReview';
+
+const BRAND_COLOR: [number, number, number] = [120, 0, 0];
+const TEXT_COLOR: [number, number, number] = [51, 51, 51];
+const MUTED_COLOR: [number, number, number] = [110, 110, 110];
+const LOGO_PATH = '/small logo iuea.png';
+const MARGIN = 18;
+const LABEL_WIDTH = 55;
+
+interface InventoryRow {
+  document: string;
+  fileName: string;
+  uploadedAt: string;
+  status: string;
+}
+
+const formatDate = (value?: string | null, withTime = false) => {
+  if (!value) return 'Not available';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return 'Not available';
+
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    ...(withTime ? { hour: '2-digit', minute: '2-digit' } : {}),
+  });
+};
+
+// Stored names look like `draft_passportPhoto_app_123_user_1700000000000.pdf`
+const toDisplayFileName = (name: string) =>
+  name.replace(/^draft_[a-zA-Z]+_app_\d+_[^_]+_\d+_/, '').replace(/^draft_/, '');
+
+const fileNameFromUrl = (url: string) => {
+  const path = decodeURIComponent(url.split('/o/')[1]?.split('?')[0] || url.split('?')[0]);
+  return path.split('/').pop() || 'document';
+};
+
+class ApplicationSummaryPdfService {
+  private async loadLogo(): Promise<string | null> {
+    try {
+      const response = await fetch(encodeURI(LOGO_PATH));
+      const blob = await response.blob();
+
+      return await new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      });
+    } catch (error) {
+      console.warn('⚠️ Could not load logo for PDF:', error);
+      return null;
+    }
+  }
+
+  private describeReviewStatus(application: Application, type: DocumentType): string {
+    const review = getLatestReview(application.documentReviews, type);
+    if (!review) return 'Awaiting review';
+    if (isReviewFlagged(review)) return 'Replacement requested';
+    return review.outcome === 'accepted' ? 'Accepted' : 'Awaiting review';
+  }
+
+  /**
+   * Every document that applies to the application, one row per uploaded file
+   */
+  private async buildDocumentInventory(application: Application): Promise<InventoryRow[]> {
+    const programs = await programCatalogService.getPrograms();
+    const requirements = getDocumentRequirements({
+      level: findProgramByName(programs, application.preferredProgram)?.level,
+      nationality: getApplicantNationality(application.countryOfBirth),
+    });
+
+    // Include documents uploaded beyond the current requirements, e.g. after a program change
+    const types = new Set<DocumentType>(requirements.map((requirement) => requirement.type));
+    (Object.keys(DOCUMENT_DEFINITIONS) as DocumentType[]).forEach((type) => {
+      if (getUploadedDocumentUrls(application, type).length > 0) types.add(type);
+    });
+
+    const rows: InventoryRow[] = [];
+    for (const type of types) {
+      const label = DOCUMENT_DEFINITIONS[type].label;
+      const urls = getUploadedDocumentUrls(application, type);
+
+      if (urls.length === 0) {
+        const isRequired = requirements.some((requirement) => requirement.type === type && requirement.required);
+        rows.push({ document: label, fileName: '-', uploadedAt: '-', status: isRequired ? 'Not uploaded (required)' : 'Not provided' });
+        continue;
+      }
+
+      const status = this.describeReviewStatus(application, type);
+      const files = await Promise.all(
+        urls.map(async (url) => {
+          try {
+            const metadata = await storageService.getFileMetadata(url);
+            return { fileName: toDisplayFileName(metadata.name), uploadedAt: formatDate(metadata.timeCreated, true) };
+          } catch {
+            return { fileName: toDisplayFileName(fileNameFromUrl(url)), uploadedAt: 'Not available' };
+          }
+        })
+      );
+
+      files.forEach((file) => rows.push({ document: label, ...file, status }));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Build the PDF for a submitted application
+   */
+  async generate(application: Application): Promise<jsPDF> {
+    const [{ jsPDF: JsPDF }, logo, inventory, intakes] = await Promise.all([
+      import('jspdf'),
+      this.loadLogo(),
+      this.buildDocumentInventory(application),
+      // Without the calendar the summary shows the intake name alone
+      intakeCalendarService.getIntakes().catch(() => []),
+    ]);
+
+    const doc = new JsPDF({ unit: 'mm', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - MARGIN * 2;
+    let y = MARGIN;
+
+    const ensureSpace = (height: number) => {
+      if (y + height > pageHeight - MARGIN) {
+        doc.addPage();
+        y = MARGIN;
+      }
+    };
+
+    const addSection = (title: string) => {
+      ensureSpace(14);
+      y += 4;
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor(...BRAND_COLOR);
+      doc.text(title, MARGIN, y);
+      y += 2;
+      doc.setDrawColor(...BRAND_COLOR);
+      doc.line(MARGIN, y, pageWidth - MARGIN, y);
+      y += 6;
+    };
+
+    const addField = (label: string, value?: string | null) => {
+      const lines = doc.splitTextToSize(value || 'Not provided', contentWidth - LABEL_WIDTH) as string[];
+      ensureSpace(lines.length * 5 + 1);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(10);
+      doc.setTextColor(...MUTED_COLOR);
+      doc.text(label, MARGIN, y);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...TEXT_COLOR);
+      doc.text(lines, MARGIN + LABEL_WIDTH, y);
+      y += lines.length * 5 + 1;
+    };
+
+    // Header
+    if (logo) {
+      doc.addImage(logo, 'PNG', MARGIN, y - 4, 18, 18);
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(15);
+    doc.setTextColor(...BRAND_COLOR);
+    doc.text('International University of East Africa', MARGIN + (logo ? 22 : 0), y + 3);
+    doc.setFontSize(11);
+    doc.setTextColor(...TEXT_COLOR);
+    doc.text('Application Summary', MARGIN + (logo ? 22 : 0), y + 10);
+    y += 20;
+
+    doc.setFillColor(247, 247, 247);
+    doc.rect(MARGIN, y, contentWidth, 18, 'F');
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...MUTED_COLOR);
+    // Older applications have no reference, so their document ID is shown instead
+    doc.text(application.reference ? 'Reference' : 'Application ID', MARGIN + 4, y + 6);
+    doc.text('Submitted', MARGIN + contentWidth / 2, y + 6);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...TEXT_COLOR);
+    doc.text(application.reference || application.id, MARGIN + 4, y + 12);
+    doc.text(formatDate(application.submittedAt, true), MARGIN + contentWidth / 2, y + 12);
+    y += 24;
+    addField('Status', application.status.replace(/_/g, ' ').toUpperCase());
+
+    addSection('Personal Details');
+    addField('Full name', application.name);
+    addField('Email', application.email);
+    addField('Phone', application.phoneNumber);
+    addField('Country of birth', application.countryOfBirth);
+    addField('Date of birth', application.dateOfBirth ? formatDate(application.dateOfBirth) : null);
+    addField('Gender', application.gender);
+    addField('Physical address', application.postalAddress);
+
+    if (application.educationHistory && application.educationHistory.length > 0) {
+      addSection('Education History');
+      application.educationHistory.forEach((entry) => {
+        const subjects = entry.subjects
+          .filter((subject) => subject.subject)
+          .map((subject) => `${subject.subject} (${subject.grade})`)
+          .join(', ');
+        addField(
+          `${describeQualification(entry)} ${entry.yearCompleted}`,
+          [entry.institution, entry.examinationBody !== 'OTHER' ? EXAMINATION_BODY_LABELS[entry.examinationBody] : '', subjects]
+            .filter(Boolean)
+            .join(' · ')
+        );
+      });
+    }
+
+    const intake = findApplicationIntake(intakes, application);
+    addSection('Program Choices');
+    addField('First choice', application.preferredProgram);
+    addField('Second choice', application.secondaryProgram);
+    addField('Mode of study', application.modeOfStudy);
+    addField('Intake', intake ? formatIntakeLabel(intake) : application.preferredIntake);
+
+    addSection('Additional Information');
+    addField('Sponsor telephone', application.sponsorTelephone);
+    addField('Sponsor email', application.sponsorEmail);
+    addField('How did you hear about us', application.howDidYouHear);
+    addField('Additional notes', application.additionalNotes);
+
+    addSection('Documents');
+    const columns = [
+      { title: 'Document', width: 48 },
+      { title: 'File', width: 58 },
+      { title: 'Uploaded', width: 40 },
+      { title: 'Status', width: contentWidth - 146 },
+    ];
+    const addRow = (cells: string[], isHeader = false) => {
+      const cellLines = cells.map((cell, index) => doc.splitTextToSize(cell, columns[index].width - 2) as string[]);
+      const rowHeight = Math.max(...cellLines.map((lines) => lines.length)) * 4.5 + 2;
+      ensureSpace(rowHeight);
+      doc.setFont('helvetica', isHeader ? 'bold' : 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(...(isHeader ? MUTED_COLOR : TEXT_COLOR));
+
+      let x = MARGIN;
+      cellLines.forEach((lines, index) => {
+        doc.text(lines, x, y);
+        x += columns[index].width;
+      });
+      y += rowHeight;
+    };
+
+    addRow(columns.map((column) => column.title), true);
+    inventory.forEach((row) => addRow([row.document, row.fileName, row.uploadedAt, row.status]));
+
+    // Footer on every page
+    const generatedAt = formatDate(new Date().toISOString(), true);
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(...MUTED_COLOR);
+      doc.text(`Generated ${generatedAt} · Application ${application.reference || application.id}`, MARGIN, pageHeight - 8);
+      doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 8, { align: 'right' });
+    }
+
+    return doc;
+  }
+
+  /**
+   * Generate the PDF and save it through the browser
+   */
+  async download(application: Application): Promise<void> {
+    console.log('📄 Generating application summary PDF:', application.id);
+    const doc = await this.generate(application);
+    doc.save(application.reference ? `${application.reference}.pdf` : `IUEA-application-${application.id}.pdf`);
+    console.log('✅ Application summary PDF downloaded');
+  }
+}
+
+export const applicationSummaryPdf = new ApplicationSummaryPdfService();
@@ -0,0 +1,183 @@
+/**
+ * Application Timeline
+ * Turns the lead timeline into the status history shown to applicants.
+ * Entries carry a visibility flag so internal admissions notes never reach the portal; the
+ * history is built on the server (`/api/applications/[applicationId]/timeline`), so the
+ * applicant's browser never receives the lead or its internal entries.
+ */
+
+import { LEAD_STATUSES } from './leadLifecycle';
+
+export type TimelineVisibility = 'public' | 'internal';
+
+// Subcollection of `leads/{id}` with one document per timeline entry. Leads created before it
+// existed also keep a `timeline` array on the lead document, which is read but no longer written.
+export const LEAD_TIMELINE_COLLECTION = 'timeline';
+
+// Timeline entry as stored on the lead document
+export interface LeadTimelineEntry {
+  date: unknown; // ISO string, Date or Firestore Timestamp depending on the writer
+  action: string;
+  status: string;
+  notes?: string;
+  visibility?: TimelineVisibility;
+  publicNote?: string; // Applicant-facing wording; `notes` is internal and never shown
+  metadata?: Record<string, unknown>;
+}
+
+// Timeline entry prepared for the applicant dashboard
+export interface ApplicantTimelineEntry {
+  id: string;
+  date: string;
+  status: string;
+  title: string;
+  description: string;
+}
+
+// Applicant-facing wording for each lead/application status
+export const APPLICANT_STATUS_LABELS: Record<string, { title: string; description: string }> = {
+  INTERESTED: {
+    title: 'Account Created',
+    description: 'Your applicant account was created.',
+  },
+  APPLIED: {
+    title: 'Application Submitted',
+    description: 'We have received your application.',
+  },
+  MISSING_DOCUMENT: {
+    title: 'Documents Required',
+    description: 'Some documents are missing or need to be replaced.',
+  },
+  IN_REVIEW: {
+    title: 'Under Review',
+    description: 'The admissions team is reviewing your application.',
+  },
+  QUALIFIED: {
+    title: 'Qualified',
+    description: 'You meet the requirements for your chosen program.',
+  },
+  ADMITTED: {
+    title: 'Admitted',
+    description: 'Congratulations! You have been offered admission.',
+  },
+  ENROLLED: {
+    title: 'Enrolled',
+    description: 'You are enrolled. Welcome to IUEA!',
+  },
+  DEFERRED: {
+    title: 'Deferred',
+    description: 'Your application has been deferred to a later intake.',
+  },
+  EXPIRED: {
+    title: 'Expired',
+    description: 'Your application has expired.',
+  },
+};
+
+/**
+ * Normalise the different date representations written to lead timelines
+ */
+export const toIsoDate = (value: unknown): string | null => {
+  if (!value) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+  }
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+
+  if (typeof value === 'object' && value !== null && 'toDate' in value && typeof value.toDate === 'function') {
+    return (value.toDate() as Date).toISOString();
+  }
+
+  if (typeof value === 'object' && value !== null && 'seconds' in value && typeof value.seconds === 'number') {
+    return new Date(value.seconds * 1000).toISOString();
+  }
+
+  return null;
+};
+
+const describeStatus = (status: string) =>
+  APPLICANT_STATUS_LABELS[status?.toUpperCase()] || {
+    title: status ? status.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, (char) => char.toUpperCase()) : 'Update',
+    description: '',
+  };
+
+/**
+ * Combine the `timeline` array older leads keep on the lead document with the entries in the
+ * lead's timeline subcollection, oldest first
+ */
+export const mergeLeadTimeline = (legacyTimeline: unknown, entries: LeadTimelineEntry[]): LeadTimelineEntry[] => {
+  const legacyEntries = Array.isArray(legacyTimeline) ? (legacyTimeline as LeadTimelineEntry[]) : [];
+  const timeOf = (entry: LeadTimelineEntry) => new Date(toIsoDate(entry.date) ?? 0).getTime();
+
+  return [...legacyEntries, ...entries].sort((a, b) => timeOf(a) - timeOf(b));
+};
+
+/**
+ * Entry standing in for the submission when the lead has none for this application
+ */
+export const buildSubmissionTimelineEntry = (submittedAt: unknown): LeadTimelineEntry => ({
+  date: submittedAt,
+  action: 'APPLICATION_SUBMITTED',
+  status: LEAD_STATUSES.APPLIED,
+  visibility: 'public',
+  publicNote: 'We have received your application.',
+});
+
+/**
+ * Build the applicant-facing history from raw lead timeline entries.
+ * - `internal` entries are dropped entirely
+ * - `public` entries are shown with their public note, or the status description without one
+ * - legacy entries without a flag only contribute their status change
+ * `notes` are admissions' internal wording and are never shown.
+ */
+export const buildApplicantTimeline = (entries: LeadTimelineEntry[]): ApplicantTimelineEntry[] => {
+  const datedEntries = entries
+    .map((entry) => ({ entry, date: toIsoDate(entry.date) }))
+    .filter((item): item is { entry: LeadTimelineEntry; date: string } => item.date !== null)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const timeline: ApplicantTimelineEntry[] = [];
+  let lastStatus: string | null = null;
+
+  datedEntries.forEach(({ entry, date }, index) => {
+    if (entry.visibility === 'internal') {
+      return;
+    }
+
+    const status = (entry.status || '').toUpperCase();
+    const label = describeStatus(status);
+
+    if (entry.visibility === 'public') {
+      timeline.push({
+        id: `${date}_${index}`,
+        date,
+        status,
+        title: label.title,
+        description: entry.publicNote || label.description,
+      });
+      lastStatus = status;
+      return;
+    }
+
+    // Legacy entry: only surface actual status transitions
+    if (status && status !== lastStatus) {
+      timeline.push({
+        id: `${date}_${index}`,
+        date,
+        status,
+        title: label.title,
+        description: label.description,
+      });
+      lastStatus = status;
+    }
+  });
+
+  return timeline.reverse();
+};
@@ -7,25 +7,21 @@ import {
   reload,
   sendPasswordResetEmail
 } from 'firebase/auth';
-import { doc, setDoc, getDoc, collection, addDoc, updateDoc } from 'firebase/firestore';
+import { doc, setDoc, getDoc, collection, writeBatch } from 'firebase/firestore';
 import { auth, db } from './firebase';
 import { studentApplicationService } from './applicationService';
+import type { ExistingLeadRecord } from './applicationRecords';
+import { LEAD_STATUSES, canTransitionLead, transitionLead } from './leadLifecycle';
+import {
+  buildDuplicateReview,
+  buildLeadMatchTimelineEntry,
+  leadMatchFields,
+  type LeadMatchResult,
+} from './leadMatching';
+import { leadTimelineService } from './leadTimelineService';
+import type { LeadTimelineEntry } from './applicationTimeline';
 import authEmailService from '../services/authEmailService';
 
-// Lead status constants (matching backend)
-const LEAD_STATUSES = {
-  CONTACTED: "CONTACTED",
-  INTERESTED: "INTERESTED", 
-  APPLIED: "APPLIED",
-  MISSING_DOCUMENT: "MISSING_DOCUMENT",
-  IN_REVIEW: "IN_REVIEW",
-  QUALIFIED: "QUALIFIED",
-  ADMITTED: "ADMITTED",
-  ENROLLED: "ENROLLED",
-  DEFERRED: "DEFERRED",
-  EXPIRED: "EXPIRED",
-} as const;
-
 // User data interface
 export interface UserData {
   uid: string;
@@ -39,6 +35,18 @@ export interface UserData {
   submittedBy?: string;
 }
 
+// Update a lead and append its timeline entries in one batch, without rewriting existing entries
+const updateLeadWithTimeline = async (
+  leadId: string,
+  updateData: Record<string, unknown>,
+  entries: LeadTimelineEntry[]
+): Promise<void> => {
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'leads', leadId), updateData);
+  leadTimelineService.appendEntries(batch, leadId, entries);
+  await batch.commit();
+};
+
 // Lead creation function with duplicate checking
 const createLeadFromSignup = async (
   user: User,
@@ -54,13 +62,17 @@ const createLeadFromSignup = async (
     const fullName = `${firstName || ""} ${lastName || ""}`.trim();
     
     // 🔍 Step 1: Check for existing leads using the public signup method
-    let existingLead = null;
+    let leadMatch: LeadMatchResult<ExistingLeadRecord> | null = null;
     try {
       console.log(`🔍 Checking for existing lead with email: ${email} or phone: ${whatsappNumber}`);
       
       // Use the new public method specifically designed for signup flow
       // This method does NOT filter by UID, allowing us to find leads created by agents/chatbots
-      existingLead = await studentApplicationService.findExistingLeadForSignup(email, whatsappNumber);
+      leadMatch = await studentApplicationService.findExistingLeadForSignup({
+        name: fullName,
+        email,
+        phone: whatsappNumber,
+      });
       
     } catch (duplicateCheckError) {
       console.error('⚠️ Error checking for existing leads:', {
@@ -73,45 +85,47 @@ const createLeadFromSignup = async (
     }
     
     // 🎯 Step 2: Handle existing lead scenarios
-    if (existingLead) {
+    if (leadMatch?.decision === 'merge' && leadMatch.lead) {
+      const existingLead = leadMatch.lead;
       console.log(`📋 Found existing lead ${existingLead.id} with status: ${existingLead.status}`);
+
+      // Why this signup was merged into the lead, for admissions
+      const mergeEntry = buildLeadMatchTimelineEntry(leadMatch, {
+        date: new Date(),
+        status: existingLead.status,
+        source: 'Applicant portal signup',
+      });
       
       // Scenario: Update CONTACTED leads to INTERESTED
-      if (existingLead.status === LEAD_STATUSES.CONTACTED) {
+      if (canTransitionLead(existingLead.status, 'SIGNUP', 'applicant')) {
         try {
-          console.log(`🔄 Updating existing CONTACTED lead ${existingLead.id} to INTERESTED status`);
-          
-          // Prepare update data
-          const updateData: Record<string, unknown> = {
-            status: LEAD_STATUSES.INTERESTED,
-            updatedAt: new Date(),
-            name: fullName, // Update name in case it's different
-            // 🔧 FIX: Update UID to the new user's UID for proper ownership
-            uid: user.uid,
-          };
+          console.log(`🔄 Updating existing ${existingLead.status} lead ${existingLead.id} to INTERESTED status`);
           
           // Add timeline entry for the status change
-          const newTimelineEntry = {
+          const { status, timelineEntry: newTimelineEntry } = transitionLead(existingLead.status, 'SIGNUP', {
+            actor: 'applicant',
             date: new Date(),
-            action: "STATUS_UPDATED",
-            status: LEAD_STATUSES.INTERESTED,
             notes: submittedBy 
-              ? `Status updated from CONTACTED to INTERESTED due to applicant portal signup - Assisted by: ${submittedBy}`
-              : "Status updated from CONTACTED to INTERESTED due to applicant portal signup",
+              ? `Status updated from ${existingLead.status} to INTERESTED due to applicant portal signup - Assisted by: ${submittedBy}`
+              : `Status updated from ${existingLead.status} to INTERESTED due to applicant portal signup`,
             metadata: {
               source: "APPLICANT_PORTAL_SIGNUP",
               submittedBy: submittedBy || "direct",
-              previousStatus: LEAD_STATUSES.CONTACTED,
               newOwnerUid: user.uid, // Track ownership change
             }
+          });
+
+          // Prepare update data
+          const updateData: Record<string, unknown> = {
+            status,
+            updatedAt: new Date(),
+            name: fullName, // Update name in case it's different
+            // 🔧 FIX: Update UID to the new user's UID for proper ownership
+            uid: user.uid,
           };
           
-          // Append to existing timeline
-          updateData.timeline = [...(existingLead.timeline || []), newTimelineEntry];
-          
-          // Update the lead document
-          const leadRef = doc(db, 'leads', existingLead.id);
-          await updateDoc(leadRef, updateData);
+          // Update the lead document and append to its timeline
+          await updateLeadWithTimeline(existingLead.id, updateData, [mergeEntry, newTimelineEntry]);
           
           console.log(`✅ Successfully updated existing lead ${existingLead.id} from CONTACTED to INTERESTED`);
           return; // Exit early, no need to create new lead
@@ -140,13 +154,14 @@ const createLeadFromSignup = async (
           };
           
           // Add timeline entry for the signup attempt
-          const newTimelineEntry = {
+          const newTimelineEntry: LeadTimelineEntry = {
             date: new Date(),
             action: "SIGNUP_ATTEMPT",
             status: existingLead.status,
             notes: submittedBy 
               ? `Applicant portal signup attempted for existing INTERESTED lead - Assisted by: ${submittedBy}`
               : "Applicant portal signup attempted for existing INTERESTED lead",
+            visibility: "internal",
             metadata: {
               source: "APPLICANT_PORTAL_SIGNUP",
               submittedBy: submittedBy || "direct",
@@ -154,10 +169,7 @@ const createLeadFromSignup = async (
             }
           };
           
-          updateData.timeline = [...(existingLead.timeline || []), newTimelineEntry];
-          
-          const leadRef = doc(db, 'leads', existingLead.id);
-          await updateDoc(leadRef, updateData);
+          await updateLeadWithTimeline(existingLead.id, updateData, [mergeEntry, newTimelineEntry]);
           
           console.log(`✅ Updated existing INTERESTED lead ${existingLead.id} with signup info and ownership`);
           return; // Exit early, no need to create new lead
@@ -183,21 +195,19 @@ const createLeadFromSignup = async (
             uid: user.uid, // Transfer ownership to the new user
           };
           
-          const newTimelineEntry = {
+          const newTimelineEntry: LeadTimelineEntry = {
             date: new Date(),
             action: "OWNERSHIP_TRANSFER",
             status: existingLead.status,
             notes: "Lead ownership transferred to student user account",
+            visibility: "internal",
             metadata: {
               source: "APPLICANT_PORTAL_SIGNUP",
               newOwnerUid: user.uid,
             }
           };
           
-          updateData.timeline = [...(existingLead.timeline || []), newTimelineEntry];
-          
-          const leadRef = doc(db, 'leads', existingLead.id);
-          await updateDoc(leadRef, updateData);
+          await updateLeadWithTimeline(existingLead.id, updateData, [mergeEntry, newTimelineEntry]);
           
           console.log(`✅ Transferred ownership of lead ${existingLead.id} to user ${user.uid}`);
         } catch (updateError) {
@@ -216,9 +226,29 @@ const createLeadFromSignup = async (
     // 🆕 Step 3: Create new lead if no existing lead found or updates failed
     console.log('✨ Creating new lead for signup');
     
+    const possibleDuplicate = leadMatch?.decision === 'review' ? leadMatch : null;
+    if (possibleDuplicate) {
+      console.log(`⚠️ Possible duplicate lead flagged for review: ${possibleDuplicate.reason}`);
+    }
+
+    const created = transitionLead(null, 'SIGNUP', {
+      actor: 'applicant',
+      date: new Date(),
+      notes: submittedBy 
+        ? `Lead created from applicant portal signup - Assisted by: ${submittedBy}`
+        : "Lead created from applicant portal signup",
+      metadata: {
+        whatsappMessageSent: false,
+        emailNotificationSent: false,
+        submittedBy: submittedBy || "direct",
+        source: "APPLICANT_PORTAL_SIGNUP",
+        ownerUid: user.uid, // Track initial owner
+      }
+    });
+
     const leadData = {
       // Required fields
-      status: LEAD_STATUSES.INTERESTED,
+      status: created.status,
       source: "APPLICANT_PORTAL", 
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -228,6 +258,7 @@ const createLeadFromSignup = async (
       email: email,
       phone: whatsappNumber,
       whatsappNumber: whatsappNumber,
+      ...leadMatchFields({ email, phone: whatsappNumber }),
       
       // 🔧 FIX: Set proper UID ownership for new user
       uid: user.uid,
@@ -235,22 +266,8 @@ const createLeadFromSignup = async (
       // Agent/Source attribution
       submittedBy: submittedBy || "direct",
       
-      // Timeline with initial entry
-      timeline: [{
-        date: new Date(),
-        action: "CREATED",
-        status: LEAD_STATUSES.INTERESTED,
-        notes: submittedBy 
-          ? `Lead created from applicant portal signup - Assisted by: ${submittedBy}`
-          : "Lead created from applicant portal signup",
-        metadata: {
-          whatsappMessageSent: false,
-          emailNotificationSent: false,
-          submittedBy: submittedBy || "direct",
-          source: "APPLICANT_PORTAL_SIGNUP",
-          ownerUid: user.uid, // Track initial owner
-        }
-      }],
+      // Possible duplicate left for admissions to merge or dismiss
+      ...(possibleDuplicate ? { duplicateReview: buildDuplicateReview(possibleDuplicate, new Date().toISOString()) } : {}),
       
       // Creation tracking
       createdBy: {
@@ -262,9 +279,21 @@ const createLeadFromSignup = async (
       }
     };
     
-    // Save to Firestore leads collection
-    const leadsCollection = collection(db, 'leads');
-    const leadDocRef = await addDoc(leadsCollection, leadData);
+    // Save to Firestore leads collection, with the initial timeline entries
+    const leadDocRef = doc(collection(db, 'leads'));
+    const batch = writeBatch(db);
+    batch.set(leadDocRef, leadData);
+    leadTimelineService.appendEntries(batch, leadDocRef.id, [
+      created.timelineEntry,
+      ...(possibleDuplicate
+        ? [buildLeadMatchTimelineEntry(possibleDuplicate, {
+          date: new Date(),
+          status: created.status,
+          source: 'Applicant portal signup',
+        })]
+        : []),
+    ]);
+    await batch.commit();
     
     console.log('✅ New lead created with ID:', leadDocRef.id, submittedBy ? `- Assisted by: ${submittedBy}` : '- Direct signup');
     
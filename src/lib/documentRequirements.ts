@@ -0,0 +1,229 @@
+/**
+ * Document Requirements
+ * Which documents an applicant must provide, keyed by program level and nationality.
+ * The three original document types stay top-level fields on the application; every other
+ * type is stored in the application's `supportingDocuments` map as an array of URLs.
+ */
+
+import type { ProgramLevel } from '@/lib/programCatalog';
+
+export type CoreDocumentType = 'passportPhoto' | 'academicDocuments' | 'identificationDocument';
+
+export type SupportingDocumentType =
+  | 'degreeTranscripts'
+  | 'recommendationLetters'
+  | 'englishProficiency'
+  | 'passportBioPage'
+  | 'equivalenceLetter';
+
+export type DocumentType = CoreDocumentType | SupportingDocumentType;
+
+export type ApplicantNationality = 'local' | 'international';
+
+export interface DocumentDefinition {
+  type: DocumentType;
+  label: string;
+  description: string;
+  acceptedMimeTypes: string[];
+  fileTypesLabel: string;
+  maxFiles: number; // 1 means a new upload replaces the previous file
+}
+
+export interface DocumentRequirement extends DocumentDefinition {
+  required: boolean;
+}
+
+// Applicant fields used to decide which documents apply
+export interface DocumentRequirementContext {
+  level?: ProgramLevel;
+  nationality: ApplicantNationality;
+}
+
+export const MAX_DOCUMENT_SIZE_MB = 10;
+
+// Applicants born outside the home country follow the international rules
+export const HOME_COUNTRY = 'Uganda';
+
+export const CORE_DOCUMENT_TYPES: CoreDocumentType[] = ['passportPhoto', 'academicDocuments', 'identificationDocument'];
+
+// Documents that describe the applicant rather than one application, so they can be copied into a
+// new application. Recommendation letters are written for a specific program and are not reused.
+export const REUSABLE_DOCUMENT_TYPES: DocumentType[] = [
+  ...CORE_DOCUMENT_TYPES,
+  'degreeTranscripts',
+  'englishProficiency',
+  'passportBioPage',
+  'equivalenceLetter',
+];
+
+const IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
+const DOCUMENT_FILE_TYPES = ['application/pdf', ...IMAGE_TYPES];
+
+export const DOCUMENT_DEFINITIONS: Record<DocumentType, DocumentDefinition> = {
+  passportPhoto: {
+    type: 'passportPhoto',
+    label: 'Passport Photo',
+    description: 'Upload a recent passport-style photograph. The photo should be clear, with good lighting, showing your full face against a plain background.',
+    acceptedMimeTypes: IMAGE_TYPES,
+    fileTypesLabel: 'JPG, JPEG, PNG',
+    maxFiles: 1,
+  },
+  academicDocuments: {
+    type: 'academicDocuments',
+    label: 'Academic Documents',
+    description: 'Upload transcripts, certificates, diplomas, or academic records from previous institutions.',
+    acceptedMimeTypes: DOCUMENT_FILE_TYPES,
+    fileTypesLabel: 'PDF, JPG, JPEG, PNG',
+    maxFiles: 5,
+  },
+  identificationDocument: {
+    type: 'identificationDocument',
+    label: 'National ID / Passport',
+    description: 'Upload your national ID, passport, or other government-issued identification.',
+    acceptedMimeTypes: DOCUMENT_FILE_TYPES,
+    fileTypesLabel: 'PDF, JPG, JPEG, PNG',
+    maxFiles: 1,
+  },
+  degreeTranscripts: {
+    type: 'degreeTranscripts',
+    label: 'Degree Transcripts',
+    description: 'Upload the transcripts and certificate of your undergraduate degree.',
+    acceptedMimeTypes: DOCUMENT_FILE_TYPES,
+    fileTypesLabel: 'PDF, JPG, JPEG, PNG',
+    maxFiles: 3,
+  },
+  recommendationLetters: {
+    type: 'recommendationLetters',
+    label: 'Recommendation Letters',
+    description: 'Upload two signed recommendation letters from academic or professional referees.',
+    acceptedMimeTypes: DOCUMENT_FILE_TYPES,
+    fileTypesLabel: 'PDF, JPG, JPEG, PNG',
+    maxFiles: 3,
+  },
+  englishProficiency: {
+    type: 'englishProficiency',
+    label: 'English Proficiency',
+    description: 'Upload an IELTS, TOEFL or equivalent result, or proof that your previous studies were taught in English.',
+    acceptedMimeTypes: DOCUMENT_FILE_TYPES,
+    fileTypesLabel: 'PDF, JPG, JPEG, PNG',
+    maxFiles: 1,
+  },
+  passportBioPage: {
+    type: 'passportBioPage',
+    label: 'Passport Bio Page',
+    description: 'Upload the photo page of your passport. It must be valid for the duration of your studies.',
+    acceptedMimeTypes: DOCUMENT_FILE_TYPES,
+    fileTypesLabel: 'PDF, JPG, JPEG, PNG',
+    maxFiles: 1,
+  },
+  equivalenceLetter: {
+    type: 'equivalenceLetter',
+    label: 'Equivalence Letter',
+    description: 'Upload the equivalence letter for qualifications obtained outside Uganda (UNEB for secondary, NCHE for higher education).',
+    acceptedMimeTypes: DOCUMENT_FILE_TYPES,
+    fileTypesLabel: 'PDF, JPG, JPEG, PNG',
+    maxFiles: 1,
+  },
+};
+
+interface DocumentRule {
+  type: DocumentType;
+  required: boolean;
+  levels?: ProgramLevel[]; // Applies to every level when omitted
+  nationality?: ApplicantNationality; // Applies to everyone when omitted
+}
+
+// Later rules override earlier ones for the same document type
+const DOCUMENT_RULES: DocumentRule[] = [
+  { type: 'passportPhoto', required: true },
+  { type: 'academicDocuments', required: true },
+  { type: 'identificationDocument', required: true, nationality: 'local' },
+  { type: 'passportBioPage', required: true, nationality: 'international' },
+  { type: 'degreeTranscripts', required: true, levels: ['master'] },
+  { type: 'recommendationLetters', required: true, levels: ['master'] },
+  { type: 'englishProficiency', required: false, nationality: 'international' },
+  { type: 'englishProficiency', required: true, levels: ['master'], nationality: 'international' },
+  { type: 'equivalenceLetter', required: true, levels: ['diploma', 'bachelor', 'master'], nationality: 'international' },
+];
+
+export const isCoreDocumentType = (type: string): type is CoreDocumentType =>
+  (CORE_DOCUMENT_TYPES as string[]).includes(type);
+
+export const isDocumentType = (type: string): type is DocumentType => type in DOCUMENT_DEFINITIONS;
+
+export const getApplicantNationality = (countryOfBirth?: string | null): ApplicantNationality =>
+  !countryOfBirth || countryOfBirth.trim().toLowerCase() === HOME_COUNTRY.toLowerCase() ? 'local' : 'international';
+
+/**
+ * Documents that apply to an applicant, in display order
+ */
+export const getDocumentRequirements = (context: DocumentRequirementContext): DocumentRequirement[] => {
+  const requirements = new Map<DocumentType, DocumentRequirement>();
+
+  DOCUMENT_RULES.forEach((rule) => {
+    const levelMatches = !rule.levels || (context.level ? rule.levels.includes(context.level) : false);
+    const nationalityMatches = !rule.nationality || rule.nationality === context.nationality;
+
+    if (levelMatches && nationalityMatches) {
+      requirements.set(rule.type, { ...DOCUMENT_DEFINITIONS[rule.type], required: rule.required });
+    }
+  });
+
+  return Array.from(requirements.values());
+};
+
+// Minimal application shape needed to read uploaded documents
+interface ApplicationDocumentFields {
+  passportPhoto?: string;
+  academicDocuments?: string[] | string;
+  identificationDocument?: string;
+  supportingDocuments?: Partial<Record<SupportingDocumentType, string[]>>;
+}
+
+/**
+ * URLs uploaded for a document type, whether stored top-level or in `supportingDocuments`
+ */
+export const getUploadedDocumentUrls = (application: ApplicationDocumentFields | null | undefined, type: DocumentType): string[] => {
+  if (!application) {
+    return [];
+  }
+
+  if (!isCoreDocumentType(type)) {
+    return application.supportingDocuments?.[type] || [];
+  }
+
+  const value = application[type];
+  if (Array.isArray(value)) {
+    return value.filter(Boolean);
+  }
+
+  return value ? [value] : [];
+};
+
+/**
+ * Required documents the applicant has not uploaded yet
+ */
+export const getMissingRequiredDocuments = (
+  application: ApplicationDocumentFields | null | undefined,
+  requirements: DocumentRequirement[]
+): DocumentRequirement[] =>
+  requirements.filter((requirement) => requirement.required && getUploadedDocumentUrls(application, requirement.type).length === 0);
+
+/**
+ * Normalise the raw `supportingDocuments` map from Firestore
+ */
+export const normalizeSupportingDocuments = <T>(value: unknown): Partial<Record<SupportingDocumentType, T[]>> => {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  return Object.entries(value as Record<string, unknown>).reduce<Partial<Record<SupportingDocumentType, T[]>>>(
+    (documents, [type, entries]) => {
+      if (isDocumentType(type) && !isCoreDocumentType(type) && Array.isArray(entries)) {
+        documents[type] = entries as T[];
+      }
+      return documents;
+    },
+    {}
+  );
+};
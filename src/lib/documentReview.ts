@@ -0,0 +1,112 @@
+/**
+ * Document Review
+ * Per-document outcomes recorded by admissions on the application as `documentReviews`.
+ * A rejected or requested document stays flagged until the applicant uploads a replacement.
+ */
+
+import { DOCUMENT_DEFINITIONS, isDocumentType, type DocumentType } from '@/lib/documentRequirements';
+
+export type ReviewedDocumentType = DocumentType;
+
+export type DocumentReviewOutcome = 'accepted' | 'rejected' | 'requested';
+
+export type DocumentRejectionReason = 'blurry' | 'wrong_document' | 'expired' | 'other';
+
+// Review entry as stored in the application's `documentReviews` array
+export interface DocumentReview {
+  documentType: ReviewedDocumentType;
+  outcome: DocumentReviewOutcome;
+  reason?: DocumentRejectionReason | null; // Set when the outcome is `rejected`
+  note?: string | null; // Applicant-facing explanation from admissions
+  documentUrl?: string | null; // The specific file reviewed, for multi-file documents
+  reviewedAt?: string | null;
+  resolvedAt?: string | null; // Set when the applicant uploads a replacement
+  replacementUrl?: string | null;
+}
+
+export const DOCUMENT_TYPE_LABELS = Object.fromEntries(
+  Object.values(DOCUMENT_DEFINITIONS).map((definition) => [definition.type, definition.label])
+) as Record<ReviewedDocumentType, string>;
+
+export const REJECTION_REASON_LABELS: Record<DocumentRejectionReason, string> = {
+  blurry: 'The document is blurry or unreadable',
+  wrong_document: 'This is not the document we asked for',
+  expired: 'The document has expired',
+  other: 'The document could not be accepted',
+};
+
+/**
+ * A review the applicant still has to act on
+ */
+export const isReviewFlagged = (review: DocumentReview): boolean =>
+  review.outcome !== 'accepted' && !review.resolvedAt;
+
+/**
+ * Normalise the raw `documentReviews` field from Firestore
+ */
+export const normalizeDocumentReviews = (value: unknown): DocumentReview[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(
+    (review): review is DocumentReview =>
+      Boolean(review) && isDocumentType(String(review.documentType)) && typeof review.outcome === 'string'
+  );
+};
+
+/**
+ * Latest review for a document type, if admissions has reviewed it
+ */
+export const getLatestReview = (
+  reviews: DocumentReview[] | undefined,
+  documentType: ReviewedDocumentType
+): DocumentReview | undefined => {
+  const matching = (reviews || []).filter((review) => review.documentType === documentType);
+
+  // Open flags take priority over older accepted reviews
+  return matching.find(isReviewFlagged) ?? matching[matching.length - 1];
+};
+
+export const getFlaggedReviews = (reviews: DocumentReview[] | undefined): DocumentReview[] =>
+  (reviews || []).filter(isReviewFlagged);
+
+/**
+ * Applicant-facing explanation of why a document was flagged
+ */
+export const describeReview = (review: DocumentReview): string => {
+  if (review.outcome === 'accepted') {
+    return 'Accepted by admissions';
+  }
+
+  if (review.outcome === 'requested') {
+    return review.note || 'Admissions has requested this document';
+  }
+
+  const reason = REJECTION_REASON_LABELS[review.reason || 'other'];
+  return review.note ? `${reason}: ${review.note}` : reason;
+};
+
+/**
+ * Mark open reviews for a document type as resolved by a newly uploaded file
+ */
+export const resolveReviews = (
+  reviews: DocumentReview[],
+  documentType: ReviewedDocumentType,
+  replacementUrl: string,
+  resolvedAt: string = new Date().toISOString()
+): { reviews: DocumentReview[]; resolved: DocumentReview[] } => {
+  const resolved: DocumentReview[] = [];
+
+  const updated = reviews.map((review) => {
+    if (review.documentType !== documentType || !isReviewFlagged(review)) {
+      return review;
+    }
+
+    const resolvedReview = { ...review, resolvedAt, replacementUrl };
+    resolved.push(resolvedReview);
+    return resolvedReview;
+  });
+
+  return { reviews: updated, resolved };
+};
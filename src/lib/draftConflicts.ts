@@ -0,0 +1,106 @@
+/**
+ * Draft Conflicts
+ * Drafts carry a `revision` counter that `saveDraft` checks in a transaction. When another tab or
+ * device saved first, this device's form is compared with the version it last saved or loaded
+ * (the base) and with the other device's version: fields only one side changed merge on their own,
+ * fields both sides changed to different values are shown to the applicant to choose.
+ */
+import { describeQualification, type QualificationEntry } from './educationHistory';
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface DraftFieldConflict {
+  field: string;
+  label: string;
+  localValue: unknown;
+  remoteValue: unknown;
+}
+
+export const DRAFT_FIELD_LABELS: Record<string, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  email: 'Email',
+  phone: 'Phone number',
+  countryOfBirth: 'Country of birth',
+  dateOfBirth: 'Date of birth',
+  gender: 'Gender',
+  postalAddress: 'Physical address',
+  educationHistory: 'Education history',
+  program: 'First choice program',
+  secondaryProgram: 'Second choice program',
+  modeOfStudy: 'Mode of study',
+  intake: 'Intake',
+  sponsorTelephone: 'Sponsor telephone',
+  sponsorEmail: 'Sponsor email',
+  howDidYouHear: 'How you heard about us',
+  additionalNotes: 'Additional notes',
+};
+
+// Empty strings, null and missing fields are the same thing in a draft form
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+
+const asRecord = (value: object) => value as Record<string, unknown>;
+
+/**
+ * Fields whose values differ between two versions of the form
+ */
+export const getChangedFields = (from: object, to: object): string[] => {
+  const fromValues = asRecord(from);
+  const toValues = asRecord(to);
+  const fields = new Set([...Object.keys(fromValues), ...Object.keys(toValues)]);
+
+  return Array.from(fields).filter((field) => !isSameValue(fromValues[field], toValues[field]));
+};
+
+/**
+ * Fields both devices changed since the base version, to different values
+ */
+export const findDraftConflicts = (base: object, local: object, remote: object): DraftFieldConflict[] => {
+  const remoteChanges = new Set(getChangedFields(base, remote));
+
+  return getChangedFields(base, local)
+    .filter((field) => remoteChanges.has(field) && !isSameValue(asRecord(local)[field], asRecord(remote)[field]))
+    .map((field) => ({
+      field,
+      label: DRAFT_FIELD_LABELS[field] || field,
+      localValue: asRecord(local)[field],
+      remoteValue: asRecord(remote)[field],
+    }));
+};
+
+/**
+ * Combine both versions: this device's edits win where only it changed a field, the other
+ * device's edits win where only it did, and `choices` decides the conflicting fields
+ * (defaulting to this device).
+ */
+export const mergeDraftFormData = <T extends object>(
+  base: object,
+  local: T,
+  remote: object,
+  choices: Record<string, ConflictChoice> = {}
+): T => {
+  const localChanges = new Set(getChangedFields(base, local));
+  const merged = { ...asRecord(local) };
+
+  getChangedFields(base, remote).forEach((field) => {
+    if (!localChanges.has(field) || choices[field] === 'remote') {
+      merged[field] = asRecord(remote)[field];
+    }
+  });
+
+  return merged as T;
+};
+
+export const formatDraftValue = (field: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return '(empty)';
+  }
+
+  if (field === 'educationHistory' && Array.isArray(value)) {
+    return value.length > 0
+      ? (value as QualificationEntry[]).map((entry) => `${describeQualification(entry)} ${entry.yearCompleted || ''}`.trim()).join(', ')
+      : '(empty)';
+  }
+
+  return String(value);
+};
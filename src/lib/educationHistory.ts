@@ -0,0 +1,152 @@
+/**
+ * Education History
+ * Structured record of the applicant's previous qualifications: the school, the examination
+ * body, the year completed and the grade obtained in each subject.
+ */
+
+export type ExaminationBody = 'UNEB_UCE' | 'UNEB_UACE' | 'KCSE' | 'IGCSE' | 'WASSCE' | 'DIPLOMA' | 'DEGREE' | 'OTHER';
+
+export interface SubjectGrade {
+  subject: string;
+  grade: string;
+}
+
+// One qualification entry as stored on the draft and the application as `educationHistory`
+export interface QualificationEntry {
+  id: string;
+  institution: string;
+  examinationBody: ExaminationBody;
+  qualification?: string; // Required for diplomas, degrees and other qualifications
+  indexNumber?: string; // Candidate or registration number on the certificate
+  yearCompleted: string;
+  subjects: SubjectGrade[];
+}
+
+export const EXAMINATION_BODY_LABELS: Record<ExaminationBody, string> = {
+  UNEB_UCE: 'UNEB - Uganda Certificate of Education (UCE / O-Level)',
+  UNEB_UACE: 'UNEB - Uganda Advanced Certificate of Education (UACE / A-Level)',
+  KCSE: 'KNEC - Kenya Certificate of Secondary Education (KCSE)',
+  IGCSE: 'Cambridge IGCSE / International A-Level',
+  WASSCE: 'WAEC - West African Senior School Certificate (WASSCE)',
+  DIPLOMA: 'Diploma',
+  DEGREE: "Bachelor's Degree",
+  OTHER: 'Other Qualification',
+};
+
+// Grading scale shown as a hint next to each grade field
+export const EXAMINATION_BODY_GRADE_HINTS: Record<ExaminationBody, string> = {
+  UNEB_UCE: 'e.g. D1-F9, or A-E',
+  UNEB_UACE: 'e.g. A-F, or O for subsidiary pass',
+  KCSE: 'e.g. A, B+, C-',
+  IGCSE: 'e.g. A*, A, B',
+  WASSCE: 'e.g. A1-F9',
+  DIPLOMA: 'e.g. Credit, Distinction, or GPA',
+  DEGREE: 'e.g. Second Class Upper, or CGPA',
+  OTHER: 'Grade or result',
+};
+
+// Exam bodies that award a named qualification rather than subject results alone
+const NAMED_QUALIFICATION_BODIES: ExaminationBody[] = ['DIPLOMA', 'DEGREE', 'OTHER'];
+
+export const MAX_QUALIFICATION_ENTRIES = 6;
+export const MAX_SUBJECTS_PER_ENTRY = 15;
+
+export const requiresQualificationName = (examinationBody: ExaminationBody): boolean =>
+  NAMED_QUALIFICATION_BODIES.includes(examinationBody);
+
+const isExaminationBody = (value: string): value is ExaminationBody => value in EXAMINATION_BODY_LABELS;
+
+export const createSubjectGrade = (): SubjectGrade => ({ subject: '', grade: '' });
+
+export const createQualificationEntry = (examinationBody: ExaminationBody = 'UNEB_UCE'): QualificationEntry => ({
+  id: `qual_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+  institution: '',
+  examinationBody,
+  qualification: '',
+  indexNumber: '',
+  yearCompleted: '',
+  subjects: [createSubjectGrade()],
+});
+
+/**
+ * Validation errors for the education history, one message per problem
+ */
+export const validateEducationHistory = (entries: QualificationEntry[], now: Date = new Date()): string[] => {
+  const errors: string[] = [];
+
+  if (entries.length === 0) {
+    errors.push('Add at least one qualification to your education history');
+    return errors;
+  }
+
+  entries.forEach((entry, index) => {
+    const label = `Qualification ${index + 1}`;
+    const year = Number(entry.yearCompleted);
+
+    if (!entry.institution.trim()) errors.push(`${label}: School or institution is required`);
+    if (requiresQualificationName(entry.examinationBody) && !entry.qualification?.trim()) {
+      errors.push(`${label}: Qualification name is required`);
+    }
+    if (!entry.yearCompleted.trim()) {
+      errors.push(`${label}: Year completed is required`);
+    } else if (!/^\d{4}$/.test(entry.yearCompleted) || year < 1950 || year > now.getFullYear() + 1) {
+      errors.push(`${label}: Enter a valid year completed`);
+    }
+
+    const filledSubjects = entry.subjects.filter((subject) => subject.subject.trim() || subject.grade.trim());
+    if (!requiresQualificationName(entry.examinationBody) && filledSubjects.length === 0) {
+      errors.push(`${label}: Add at least one subject with its grade`);
+    }
+    if (filledSubjects.some((subject) => !subject.subject.trim() || !subject.grade.trim())) {
+      errors.push(`${label}: Every subject needs both a name and a grade`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Drop empty subject rows and trim values before the history is submitted
+ */
+export const cleanEducationHistory = (entries: QualificationEntry[]): QualificationEntry[] =>
+  entries.map((entry) => ({
+    id: entry.id,
+    institution: entry.institution.trim(),
+    examinationBody: entry.examinationBody,
+    qualification: entry.qualification?.trim() || '',
+    indexNumber: entry.indexNumber?.trim() || '',
+    yearCompleted: entry.yearCompleted.trim(),
+    subjects: entry.subjects
+      .map((subject) => ({ subject: subject.subject.trim(), grade: subject.grade.trim() }))
+      .filter((subject) => subject.subject && subject.grade),
+  }));
+
+/**
+ * Normalise the raw `educationHistory` field from Firestore or a saved draft
+ */
+export const normalizeEducationHistory = (value: unknown): QualificationEntry[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .map((entry, index) => ({
+      id: String(entry.id || `qual_${index}`),
+      institution: String(entry.institution || ''),
+      examinationBody: isExaminationBody(String(entry.examinationBody)) ? (entry.examinationBody as ExaminationBody) : 'OTHER',
+      qualification: String(entry.qualification || ''),
+      indexNumber: String(entry.indexNumber || ''),
+      yearCompleted: String(entry.yearCompleted || ''),
+      subjects: Array.isArray(entry.subjects)
+        ? entry.subjects
+            .filter((subject): subject is Record<string, unknown> => Boolean(subject) && typeof subject === 'object')
+            .map((subject) => ({ subject: String(subject.subject || ''), grade: String(subject.grade || '') }))
+        : [],
+    }));
+};
+
+export const describeQualification = (entry: QualificationEntry): string =>
+  requiresQualificationName(entry.examinationBody) && entry.qualification
+    ? entry.qualification
+    : EXAMINATION_BODY_LABELS[entry.examinationBody];
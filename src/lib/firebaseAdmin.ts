@@ -0,0 +1,27 @@
+/**
+ * Firebase Admin (server only)
+ * Used by route handlers to verify applicants' ID tokens and to write records the browser is not
+ * trusted to write. Credentials come from FIREBASE_SERVICE_ACCOUNT_KEY (the service account JSON)
+ * or, when unset, the hosting environment's application default credentials.
+ */
+import { applicationDefault, cert, getApps, initializeApp, type App } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// Initialised on first use so builds do not need credentials
+const getAdminApp = (): App => {
+  const [existingApp] = getApps();
+  if (existingApp) {
+    return existingApp;
+  }
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+  return initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  });
+};
+
+export const getAdminAuth = () => getAuth(getAdminApp());
+
+export const getAdminDb = () => getFirestore(getAdminApp());
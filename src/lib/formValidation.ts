@@ -0,0 +1,325 @@
+/**
+ * Form Validation
+ * One set of field rules for the signup payload (signup and embed signup) and for
+ * `StudentApplicationData` (the application form and the submission route). Errors are reported
+ * per field with a message key and parameters; the English text comes from a message catalogue
+ * that a translated catalogue can replace.
+ */
+import { isValidPhoneNumber } from 'libphonenumber-js';
+import type { StudentApplicationData } from './applicationService';
+import type { ProgramCatalogEntry } from './programCatalog';
+import { cleanEducationHistory, normalizeEducationHistory, validateEducationHistory } from './educationHistory';
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const PASSWORD_MIN_LENGTH = 6;
+
+export type ValidationMessageKey =
+  | 'required'
+  | 'email'
+  | 'phone'
+  | 'date'
+  | 'minLength'
+  | 'maxLength'
+  | 'different'
+  | 'verified'
+  | 'notOffered'
+  | 'educationHistory';
+
+export interface FieldRules {
+  required?: boolean;
+  email?: boolean;
+  phone?: boolean; // International format with country code
+  pastDate?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  differentFrom?: string; // Another field that must not hold the same value
+  trim?: boolean; // False checks the value as entered, e.g. passwords, where spaces count
+}
+
+export interface FieldError {
+  field: string;
+  key: ValidationMessageKey;
+  params: Record<string, string | number>;
+  message: string; // English text, see `formatFieldError` for other catalogues
+}
+
+// Message templates and field names. `{field}` and `{other}` are replaced with field names.
+export interface ValidationCatalogue {
+  messages: Record<ValidationMessageKey, string>;
+  fields: Record<string, string>;
+}
+
+export const ENGLISH_VALIDATION_CATALOGUE: ValidationCatalogue = {
+  messages: {
+    required: '{field} is required',
+    email: 'Please enter a valid {field}',
+    phone: 'Please enter a valid {field} with country code',
+    date: 'Please enter a valid {field}',
+    minLength: '{field} must be at least {min} characters long',
+    maxLength: '{field} must be at most {max} characters',
+    different: '{field} must be different from your {other}',
+    verified: 'Please verify your {field}',
+    notOffered: 'The selected {field} is not offered for this mode of study and intake',
+    // Education history checks describe the problem themselves
+    educationHistory: '{detail}',
+  },
+  fields: {
+    firstName: 'first name',
+    lastName: 'last name',
+    email: 'email address',
+    phone: 'phone number',
+    countryOfBirth: 'country of birth',
+    dateOfBirth: 'date of birth',
+    gender: 'gender',
+    postalAddress: 'physical address',
+    educationHistory: 'education history',
+    preferredProgram: 'first choice program',
+    secondaryProgram: 'second choice program',
+    modeOfStudy: 'mode of study',
+    preferredIntake: 'intake',
+    sponsorTelephone: 'sponsor phone number',
+    sponsorEmail: 'sponsor email address',
+    howDidYouHear: 'how you heard about us',
+    additionalNotes: 'additional notes',
+    whatsappNumber: 'WhatsApp number',
+    password: 'password',
+  },
+};
+
+// Signup and embed signup form
+export interface SignupPayload {
+  firstName: string;
+  lastName: string;
+  email: string;
+  whatsappNumber: string;
+  password: string;
+}
+
+export const SIGNUP_FIELD_RULES: Record<keyof SignupPayload, FieldRules> = {
+  firstName: { required: true, maxLength: 100 },
+  lastName: { required: true, maxLength: 100 },
+  email: { required: true, email: true, maxLength: 200 },
+  whatsappNumber: { required: true, phone: true },
+  password: { required: true, minLength: PASSWORD_MIN_LENGTH, trim: false },
+};
+
+export const APPLICATION_FIELD_RULES: Record<keyof StudentApplicationData, FieldRules> = {
+  firstName: { required: true, maxLength: 100 },
+  lastName: { required: true, maxLength: 100 },
+  email: { required: true, email: true, maxLength: 200 },
+  phone: { required: true, phone: true },
+  countryOfBirth: { required: true, maxLength: 100 },
+  dateOfBirth: { required: true, pastDate: true },
+  gender: { required: true, maxLength: 50 },
+  postalAddress: { required: true, maxLength: 500 },
+  educationHistory: {}, // Checked by `validateEducationHistory`
+  preferredProgram: { required: true, maxLength: 200 },
+  secondaryProgram: { differentFrom: 'preferredProgram', maxLength: 200 },
+  modeOfStudy: { required: true, maxLength: 100 },
+  preferredIntake: { required: true, maxLength: 50 },
+  sponsorTelephone: { phone: true },
+  sponsorEmail: { email: true, maxLength: 200 },
+  howDidYouHear: { required: true, maxLength: 200 },
+  additionalNotes: { maxLength: 2000 },
+};
+
+// Fields checked by each step of the application form
+export const APPLICATION_SECTION_FIELDS: Record<'personal' | 'education' | 'program' | 'additional', Array<keyof StudentApplicationData>> = {
+  personal: ['firstName', 'lastName', 'email', 'phone', 'countryOfBirth', 'dateOfBirth', 'gender', 'postalAddress'],
+  education: ['educationHistory'],
+  program: ['preferredProgram', 'secondaryProgram', 'modeOfStudy', 'preferredIntake'],
+  additional: ['howDidYouHear', 'sponsorTelephone', 'sponsorEmail', 'additionalNotes'],
+};
+
+/**
+ * Render an error in a catalogue, English by default
+ */
+export const formatFieldError = (
+  error: Pick<FieldError, 'field' | 'key' | 'params'>,
+  catalogue: ValidationCatalogue = ENGLISH_VALIDATION_CATALOGUE
+): string => {
+  const fieldName = (field: string | number) => catalogue.fields[String(field)] || String(field);
+  const values: Record<string, string | number> = { ...error.params, field: fieldName(error.field) };
+  if (error.params.other !== undefined) {
+    values.other = fieldName(error.params.other);
+  }
+
+  const text = catalogue.messages[error.key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    values[name] !== undefined ? String(values[name]) : placeholder
+  );
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const createFieldError = (field: string, key: ValidationMessageKey, params: Record<string, string | number> = {}): FieldError => ({
+  field,
+  key,
+  params,
+  message: formatFieldError({ field, key, params }),
+});
+
+/**
+ * Check values against field rules, in the order the fields are listed
+ */
+export const validateFields = <T extends object>(
+  values: T,
+  rules: Partial<Record<keyof T, FieldRules>>,
+  fields: Array<keyof T> = Object.keys(rules) as Array<keyof T>,
+  now: Date = new Date()
+): FieldError[] => {
+  const errors: FieldError[] = [];
+  const record = values as Record<keyof T, unknown>;
+
+  fields.forEach((field) => {
+    const fieldRules = rules[field];
+    if (!fieldRules) return;
+
+    const name = String(field);
+    const readValue = (key: keyof T) => {
+      const raw = typeof record[key] === 'string' ? (record[key] as string) : '';
+      return fieldRules.trim === false ? raw : raw.trim();
+    };
+    const value = readValue(field);
+
+    if (!value) {
+      if (fieldRules.required) errors.push(createFieldError(name, 'required'));
+      return;
+    }
+
+    if (fieldRules.email && !EMAIL_PATTERN.test(value)) {
+      errors.push(createFieldError(name, 'email'));
+    } else if (fieldRules.phone && !isValidPhoneNumber(value)) {
+      errors.push(createFieldError(name, 'phone'));
+    } else if (fieldRules.pastDate && (isNaN(new Date(value).getTime()) || new Date(value).getTime() > now.getTime())) {
+      errors.push(createFieldError(name, 'date'));
+    } else if (fieldRules.minLength && value.length < fieldRules.minLength) {
+      errors.push(createFieldError(name, 'minLength', { min: fieldRules.minLength }));
+    } else if (fieldRules.maxLength && value.length > fieldRules.maxLength) {
+      errors.push(createFieldError(name, 'maxLength', { max: fieldRules.maxLength }));
+    } else if (fieldRules.differentFrom && value === readValue(fieldRules.differentFrom as keyof T)) {
+      errors.push(createFieldError(name, 'different', { other: fieldRules.differentFrom }));
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * First error message per field, for forms that show one message under each input
+ */
+export const toFieldErrorMap = (errors: FieldError[]): Record<string, string> =>
+  errors.reduce<Record<string, string>>((map, error) => {
+    if (!map[error.field]) map[error.field] = error.message;
+    return map;
+  }, {});
+
+/**
+ * Signup form errors. The WhatsApp number also has to be verified before an account is created.
+ */
+export const validateSignupPayload = (payload: SignupPayload, options: { whatsappVerified: boolean }): FieldError[] => {
+  const errors = validateFields(payload, SIGNUP_FIELD_RULES);
+
+  if (!options.whatsappVerified && !errors.some((error) => error.field === 'whatsappNumber')) {
+    errors.push(createFieldError('whatsappNumber', 'verified'));
+  }
+
+  return errors;
+};
+
+/**
+ * Application errors, for all fields or only those of one form step
+ */
+export const validateStudentApplicationData = (
+  data: StudentApplicationData,
+  fields: Array<keyof StudentApplicationData> = Object.keys(APPLICATION_FIELD_RULES) as Array<keyof StudentApplicationData>,
+  now: Date = new Date()
+): FieldError[] => {
+  const errors = validateFields(data, APPLICATION_FIELD_RULES, fields, now);
+
+  if (fields.includes('educationHistory')) {
+    validateEducationHistory(data.educationHistory || [], now).forEach((detail) => {
+      errors.push(createFieldError('educationHistory', 'educationHistory', { detail }));
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Program choice errors against the catalogue. `offeredPrograms` are the programs offered for the
+ * chosen mode of study and intake, as listed by `filterPrograms`.
+ */
+export const validateProgramChoices = (
+  data: Pick<StudentApplicationData, 'preferredProgram' | 'secondaryProgram' | 'modeOfStudy'>,
+  offeredPrograms: ProgramCatalogEntry[]
+): FieldError[] => {
+  if (offeredPrograms.length === 0) {
+    return [createFieldError('modeOfStudy', 'notOffered')];
+  }
+
+  const isOffered = (name: string) =>
+    offeredPrograms.some((program) => program.name.toLowerCase() === name.trim().toLowerCase());
+
+  const errors: FieldError[] = [];
+  if (!isOffered(data.preferredProgram)) {
+    errors.push(createFieldError('preferredProgram', 'notOffered'));
+  }
+  if (data.secondaryProgram && !isOffered(data.secondaryProgram)) {
+    errors.push(createFieldError('secondaryProgram', 'notOffered'));
+  }
+
+  return errors;
+};
+
+// Body of a POST to /api/applications/submit
+export interface ApplicationSubmissionPayload {
+  draftId: string | null; // Draft being submitted; its documents are attached to the application
+  data: StudentApplicationData;
+}
+
+const readString = (source: Record<string, unknown>, field: string) =>
+  typeof source[field] === 'string' ? (source[field] as string).trim() : '';
+
+/**
+ * Read application data from untrusted input, keeping only known fields as trimmed strings
+ */
+export const parseStudentApplicationData = (input: unknown): StudentApplicationData => {
+  const source = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+
+  return {
+    firstName: readString(source, 'firstName'),
+    lastName: readString(source, 'lastName'),
+    email: readString(source, 'email').toLowerCase(),
+    phone: readString(source, 'phone'),
+    countryOfBirth: readString(source, 'countryOfBirth'),
+    dateOfBirth: readString(source, 'dateOfBirth'),
+    gender: readString(source, 'gender'),
+    modeOfStudy: readString(source, 'modeOfStudy'),
+    preferredIntake: readString(source, 'preferredIntake'),
+    preferredProgram: readString(source, 'preferredProgram'),
+    secondaryProgram: readString(source, 'secondaryProgram') || undefined,
+    postalAddress: readString(source, 'postalAddress'),
+    educationHistory: cleanEducationHistory(normalizeEducationHistory(source.educationHistory)),
+    sponsorTelephone: readString(source, 'sponsorTelephone') || undefined,
+    sponsorEmail: readString(source, 'sponsorEmail').toLowerCase() || undefined,
+    howDidYouHear: readString(source, 'howDidYouHear') || undefined,
+    additionalNotes: readString(source, 'additionalNotes') || undefined,
+  };
+};
+
+/**
+ * Parse and validate a submission request body
+ */
+export const parseApplicationSubmission = (
+  input: unknown
+): { payload: ApplicationSubmissionPayload; errors: FieldError[] } => {
+  const source = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const data = parseStudentApplicationData(source.data);
+
+  return {
+    payload: {
+      draftId: readString(source, 'draftId') || null,
+      data,
+    },
+    errors: validateStudentApplicationData(data),
+  };
+};
@@ -0,0 +1,141 @@
+/**
+ * Intake Calendar
+ * Intake windows (opening date, closing date and late-application cutoff) and the rules that
+ * decide which year's intake of a month name is accepting applications and when it closes. Free
+ * of the Firebase SDKs so the browser (through `intakeCalendarService`) and the submission route
+ * apply the same cutoffs.
+ */
+
+// Intake document stored in the `intakes` collection, e.g. id "2027-JAN"
+export interface IntakeCalendarEntry {
+  id: string;
+  name: string; // Month name, matches the intakes listed on programs
+  year: number;
+  opensAt: string;
+  closesAt: string;
+  lateCutoffAt: string; // Late applications are accepted until this date
+  active: boolean;
+}
+
+export type IntakeWindowStatus = 'upcoming' | 'open' | 'late' | 'closed';
+
+export interface IntakeDeadline {
+  date: string;
+  isLate: boolean; // True once the regular closing date has passed
+  daysRemaining: number;
+}
+
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+
+// Shown when the calendar cannot be read. There is deliberately no bundled calendar to fall back
+// to: its dates would expire and quietly close every intake. `intakes.seed.json` only seeds the
+// Firestore emulator.
+export const INTAKE_CALENDAR_UNAVAILABLE = 'The intake calendar is unavailable at the moment. Please try again later.';
+
+export const normalizeIntake = (data: Record<string, unknown>): IntakeCalendarEntry => ({
+  id: String(data.id || ''),
+  name: String(data.name || ''),
+  year: Number(data.year) || 0,
+  opensAt: String(data.opensAt || ''),
+  closesAt: String(data.closesAt || ''),
+  // Without an explicit cutoff, applications close on the closing date
+  lateCutoffAt: String(data.lateCutoffAt || data.closesAt || ''),
+  active: data.active !== false,
+});
+
+export const sortIntakes = (intakes: IntakeCalendarEntry[]): IntakeCalendarEntry[] =>
+  [...intakes].sort((a, b) => new Date(a.closesAt).getTime() - new Date(b.closesAt).getTime());
+
+export const getIntakeWindowStatus = (intake: IntakeCalendarEntry, now: Date = new Date()): IntakeWindowStatus => {
+  const time = now.getTime();
+
+  if (time < new Date(intake.opensAt).getTime()) return 'upcoming';
+  if (time <= new Date(intake.closesAt).getTime()) return 'open';
+  if (time <= new Date(intake.lateCutoffAt).getTime()) return 'late';
+  return 'closed';
+};
+
+export const isAcceptingApplications = (intake: IntakeCalendarEntry, now: Date = new Date()): boolean => {
+  const status = getIntakeWindowStatus(intake, now);
+  return status === 'open' || status === 'late';
+};
+
+/**
+ * Intakes currently accepting applications (regular or late), earliest deadline first
+ */
+export const getOpenIntakes = (intakes: IntakeCalendarEntry[], now: Date = new Date()): IntakeCalendarEntry[] =>
+  intakes.filter((intake) => isAcceptingApplications(intake, now));
+
+/**
+ * The intake of a given month name that is currently accepting applications
+ */
+export const findOpenIntake = (
+  intakes: IntakeCalendarEntry[],
+  name: string,
+  now: Date = new Date()
+): IntakeCalendarEntry | undefined =>
+  getOpenIntakes(intakes, now).find((intake) => intake.name.toLowerCase() === name?.toLowerCase());
+
+/**
+ * The intake an application belongs to: by stored id, otherwise the first intake of that
+ * name that was still accepting applications when it was submitted
+ */
+export const findApplicationIntake = (
+  intakes: IntakeCalendarEntry[],
+  application: { intakeId?: string | null; preferredIntake: string; submittedAt?: string }
+): IntakeCalendarEntry | undefined => {
+  // Ignore a stored id that no longer matches the intake the applicant has chosen
+  const byId = intakes.find((intake) => intake.id === application.intakeId);
+  if (byId && byId.name.toLowerCase() === application.preferredIntake?.toLowerCase()) {
+    return byId;
+  }
+
+  const submittedAt = application.submittedAt ? new Date(application.submittedAt) : new Date();
+  return intakes.find(
+    (intake) =>
+      intake.name.toLowerCase() === application.preferredIntake?.toLowerCase() &&
+      new Date(intake.lateCutoffAt).getTime() >= submittedAt.getTime()
+  );
+};
+
+/**
+ * Next deadline for an intake: the closing date, or the late cutoff once it has closed
+ */
+export const getIntakeDeadline = (intake: IntakeCalendarEntry, now: Date = new Date()): IntakeDeadline => {
+  const isLate = now.getTime() > new Date(intake.closesAt).getTime();
+  const date = isLate ? intake.lateCutoffAt : intake.closesAt;
+
+  return {
+    date,
+    isLate,
+    daysRemaining: Math.ceil((new Date(date).getTime() - now.getTime()) / DAY_IN_MS),
+  };
+};
+
+export const formatIntakeLabel = (intake: IntakeCalendarEntry): string => `${intake.name} ${intake.year}`;
+
+/**
+ * Resolve the intake a new application is submitted to, refusing submissions after the
+ * late-application cutoff. Takes the calendar so the submission route can pass the one it loads.
+ */
+export const resolveSubmissionIntake = (
+  intakes: IntakeCalendarEntry[],
+  name: string,
+  now: Date = new Date()
+): IntakeCalendarEntry => {
+  const intake = findOpenIntake(intakes, name, now);
+
+  if (!intake) {
+    const lastIntake = [...intakes]
+      .reverse()
+      .find((entry) => entry.name.toLowerCase() === name?.toLowerCase() && getIntakeWindowStatus(entry, now) === 'closed');
+
+    throw new Error(
+      lastIntake
+        ? `Applications for the ${formatIntakeLabel(lastIntake)} intake closed on ${new Date(lastIntake.lateCutoffAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}. Please choose another intake.`
+        : `The ${name} intake is not accepting applications at the moment. Please choose another intake.`
+    );
+  }
+
+  return intake;
+};
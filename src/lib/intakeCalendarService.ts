@@ -0,0 +1,65 @@
+/**
+ * Intake Calendar Service
+ * Loads intake windows (opening date, closing date and late-application cutoff) from the
+ * Firestore `intakes` collection. Programs list intakes by month name; the calendar decides
+ * which year's intake of that name is currently accepting applications and when it closes.
+ */
+
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { INTAKE_CALENDAR_UNAVAILABLE, normalizeIntake, sortIntakes, type IntakeCalendarEntry } from '@/lib/intakeCalendar';
+
+class IntakeCalendarService {
+  private cache: IntakeCalendarEntry[] | null = null;
+  private cacheTimestamp = 0;
+  private pendingLoad: Promise<IntakeCalendarEntry[]> | null = null;
+  private readonly CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
+
+  /**
+   * Get all active intakes, served from cache when fresh.
+   * Throws `INTAKE_CALENDAR_UNAVAILABLE` when Firestore is unreachable or has no active intakes.
+   */
+  async getIntakes(options: { forceRefresh?: boolean } = {}): Promise<IntakeCalendarEntry[]> {
+    const isFresh = this.cache && Date.now() - this.cacheTimestamp < this.CACHE_DURATION;
+    if (!options.forceRefresh && isFresh && this.cache) {
+      return this.cache;
+    }
+
+    if (this.pendingLoad) {
+      return this.pendingLoad;
+    }
+
+    this.pendingLoad = this.loadIntakes().finally(() => {
+      this.pendingLoad = null;
+    });
+
+    return this.pendingLoad;
+  }
+
+  private async loadIntakes(): Promise<IntakeCalendarEntry[]> {
+    let intakes: IntakeCalendarEntry[];
+    try {
+      const intakesQuery = query(collection(db, 'intakes'), where('active', '==', true));
+      const snapshot = await getDocs(intakesQuery);
+
+      intakes = snapshot.docs.map((intakeDoc) =>
+        normalizeIntake({ id: intakeDoc.id, ...intakeDoc.data() })
+      );
+    } catch (error) {
+      console.error('❌ Error loading intake calendar:', error);
+      throw new Error(INTAKE_CALENDAR_UNAVAILABLE);
+    }
+
+    if (intakes.length === 0) {
+      console.error('❌ Intake calendar is empty in Firestore');
+      throw new Error(INTAKE_CALENDAR_UNAVAILABLE);
+    }
+
+    console.log(`✅ Loaded ${intakes.length} intakes from calendar`);
+    this.cache = sortIntakes(intakes);
+    this.cacheTimestamp = Date.now();
+    return this.cache;
+  }
+}
+
+export const intakeCalendarService = new IntakeCalendarService();
@@ -0,0 +1,202 @@
+/**
+ * Lead Lifecycle
+ * The statuses a lead and its applications move through, which transitions between them are
+ * allowed, who may trigger each one, and the timeline entry each transition writes. Signup and
+ * submission code change a lead's status only through `transitionLead`, so a lead can no longer
+ * be pushed back to APPLIED once admissions has admitted it.
+ */
+import type { LeadTimelineEntry, TimelineVisibility } from './applicationTimeline';
+
+// Lead status constants (matching backend)
+export const LEAD_STATUSES = {
+  CONTACTED: "CONTACTED",
+  INTERESTED: "INTERESTED",
+  APPLIED: "APPLIED",
+  MISSING_DOCUMENT: "MISSING_DOCUMENT",
+  IN_REVIEW: "IN_REVIEW",
+  QUALIFIED: "QUALIFIED",
+  ADMITTED: "ADMITTED",
+  ENROLLED: "ENROLLED",
+  DEFERRED: "DEFERRED",
+  EXPIRED: "EXPIRED",
+} as const;
+
+// Application status constants (matching backend). Applications start at APPLIED, so they are
+// never CONTACTED.
+export const APPLICATION_STATUSES = {
+  INTERESTED: "INTERESTED",
+  APPLIED: "APPLIED",
+  MISSING_DOCUMENT: "MISSING_DOCUMENT",
+  IN_REVIEW: "IN_REVIEW",
+  QUALIFIED: "QUALIFIED",
+  ADMITTED: "ADMITTED",
+  ENROLLED: "ENROLLED",
+  DEFERRED: "DEFERRED",
+  EXPIRED: "EXPIRED",
+} as const;
+
+export type LeadStatus = typeof LEAD_STATUSES[keyof typeof LEAD_STATUSES];
+
+// Who is asking for the change: the applicant in the portal, admissions staff, or an automated job
+export type LifecycleActor = 'applicant' | 'admissions' | 'system';
+
+interface LeadTransition {
+  from: Array<LeadStatus | null>; // null: the lead is created by this transition
+  to: LeadStatus;
+  actors: LifecycleActor[];
+  action: string; // Timeline action; 'CREATED' is used instead when the lead is new
+  visibility: TimelineVisibility;
+  publicNote?: string;
+}
+
+const { CONTACTED, INTERESTED, APPLIED, MISSING_DOCUMENT, IN_REVIEW, QUALIFIED, ADMITTED, ENROLLED, DEFERRED, EXPIRED } =
+  LEAD_STATUSES;
+
+export const LEAD_TRANSITIONS = {
+  CONTACT: {
+    from: [null],
+    to: CONTACTED,
+    actors: ['admissions', 'system'],
+    action: 'CREATED',
+    visibility: 'internal',
+  },
+  SIGNUP: {
+    from: [null, CONTACTED],
+    to: INTERESTED,
+    actors: ['applicant', 'admissions'],
+    action: 'STATUS_UPDATED',
+    visibility: 'public',
+    publicNote: 'Your applicant portal account was created.',
+  },
+  // Re-applying after a deferral or expiry, or a further application while the first is APPLIED
+  SUBMIT_APPLICATION: {
+    from: [null, CONTACTED, INTERESTED, APPLIED, DEFERRED, EXPIRED],
+    to: APPLIED,
+    actors: ['applicant', 'admissions'],
+    action: 'APPLICATION_SUBMITTED',
+    visibility: 'public',
+  },
+  REQUEST_DOCUMENTS: {
+    from: [APPLIED, IN_REVIEW],
+    to: MISSING_DOCUMENT,
+    actors: ['admissions'],
+    action: 'STATUS_UPDATED',
+    visibility: 'public',
+  },
+  START_REVIEW: {
+    from: [APPLIED, MISSING_DOCUMENT],
+    to: IN_REVIEW,
+    actors: ['admissions', 'system'],
+    action: 'STATUS_UPDATED',
+    visibility: 'public',
+  },
+  QUALIFY: {
+    from: [IN_REVIEW],
+    to: QUALIFIED,
+    actors: ['admissions'],
+    action: 'STATUS_UPDATED',
+    visibility: 'public',
+  },
+  ADMIT: {
+    from: [IN_REVIEW, QUALIFIED],
+    to: ADMITTED,
+    actors: ['admissions'],
+    action: 'STATUS_UPDATED',
+    visibility: 'public',
+  },
+  ENROL: {
+    from: [ADMITTED],
+    to: ENROLLED,
+    actors: ['admissions', 'system'],
+    action: 'STATUS_UPDATED',
+    visibility: 'public',
+  },
+  DEFER: {
+    from: [APPLIED, MISSING_DOCUMENT, IN_REVIEW, QUALIFIED, ADMITTED],
+    to: DEFERRED,
+    actors: ['admissions'],
+    action: 'STATUS_UPDATED',
+    visibility: 'public',
+  },
+  EXPIRE: {
+    from: [CONTACTED, INTERESTED, APPLIED, MISSING_DOCUMENT, IN_REVIEW, QUALIFIED, ADMITTED],
+    to: EXPIRED,
+    actors: ['admissions', 'system'],
+    action: 'STATUS_UPDATED',
+    visibility: 'internal',
+  },
+} satisfies Record<string, LeadTransition>;
+
+export type LeadTransitionName = keyof typeof LEAD_TRANSITIONS;
+
+// A transition the lifecycle does not allow from the lead's status or for the actor
+export class LeadTransitionError extends Error {
+  constructor(readonly from: string | null, readonly transition: LeadTransitionName, readonly actor: LifecycleActor) {
+    super(`${actor} cannot ${transition.toLowerCase().replace(/_/g, ' ')} a lead ${from ? `in ${from} status` : 'that does not exist yet'}`);
+    this.name = 'LeadTransitionError';
+  }
+}
+
+const isLeadStatus = (status: string): status is LeadStatus =>
+  (Object.values(LEAD_STATUSES) as string[]).includes(status);
+
+// Stored statuses are sometimes lowercase; missing means the lead is being created
+const toLeadStatus = (status: string | null | undefined): LeadStatus | null | undefined => {
+  if (!status) return null;
+  const normalized = status.toUpperCase();
+  return isLeadStatus(normalized) ? normalized : undefined;
+};
+
+export const canTransitionLead = (
+  from: string | null | undefined,
+  transition: LeadTransitionName,
+  actor: LifecycleActor
+): boolean => {
+  const definition: LeadTransition = LEAD_TRANSITIONS[transition];
+  const current = toLeadStatus(from);
+  return current !== undefined && definition.from.includes(current) && definition.actors.includes(actor);
+};
+
+/**
+ * Apply a transition to a lead in status `from` (null for a new lead). Returns the new status and
+ * the timeline entry to append, or throws `LeadTransitionError` when the transition is not allowed.
+ */
+export const transitionLead = (
+  from: string | null | undefined,
+  transition: LeadTransitionName,
+  context: {
+    actor: LifecycleActor;
+    date: unknown;
+    notes?: string;
+    publicNote?: string;
+    metadata?: Record<string, unknown>;
+  }
+): { status: LeadStatus; timelineEntry: LeadTimelineEntry } => {
+  if (!canTransitionLead(from, transition, context.actor)) {
+    throw new LeadTransitionError(from ?? null, transition, context.actor);
+  }
+
+  const definition: LeadTransition = LEAD_TRANSITIONS[transition];
+  const previousStatus = toLeadStatus(from) ?? null;
+  const publicNote = context.publicNote ?? definition.publicNote;
+
+  return {
+    status: definition.to,
+    timelineEntry: {
+      date: context.date,
+      action: previousStatus ? definition.action : 'CREATED',
+      status: definition.to,
+      notes: context.notes ?? (previousStatus
+        ? `Status updated from ${previousStatus} to ${definition.to}`
+        : `Lead created with ${definition.to} status`),
+      visibility: definition.visibility,
+      ...(publicNote ? { publicNote } : {}),
+      metadata: {
+        ...context.metadata,
+        transition,
+        actor: context.actor,
+        previousStatus,
+      },
+    },
+  };
+};
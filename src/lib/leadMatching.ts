@@ -0,0 +1,273 @@
+/**
+ * Lead Matching
+ * Decides whether a signup or an application belongs to a lead that already exists. Phones are
+ * compared in E.164 and emails after normalisation, so "0772…", "+256772…" and "256 772…" are the
+ * same contact. Each matching lead is scored on the contact points it shares and on how close its
+ * name is; a single clear match is merged, anything less certain is flagged for admissions.
+ */
+import { parsePhoneNumberFromString, type CountryCode } from 'libphonenumber-js';
+import type { LeadTimelineEntry } from './applicationTimeline';
+
+// Numbers entered without a country code are read as Ugandan
+export const DEFAULT_PHONE_COUNTRY: CountryCode = 'UG';
+
+// Name similarity at or above which a phone-only match is treated as the same person
+export const NAME_MATCH_THRESHOLD = 0.8;
+// Name similarity below which an email match is treated as a different person sharing the address
+export const NAME_MISMATCH_THRESHOLD = 0.5;
+
+// Providers that ignore dots and `+tag` suffixes in the local part
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+export type LeadMatchDecision = 'merge' | 'review' | 'create';
+export type LeadMatchField = 'email' | 'phone';
+
+// Contact fields of a stored lead used for matching
+export interface LeadMatchCandidate {
+  id: string;
+  uid?: string | null;
+  name?: string;
+  email?: string;
+  normalizedEmail?: string;
+  phone?: string;
+  whatsappNumber?: string;
+  phoneE164?: string;
+}
+
+// The person signing up or applying
+export interface LeadMatchApplicant {
+  name: string;
+  email: string;
+  phone: string;
+  uid?: string; // Leads owned by another account are never merged into
+}
+
+// How one stored lead compares with the applicant
+export interface LeadMatchCandidateResult {
+  leadId: string;
+  matchedOn: LeadMatchField[];
+  nameScore: number | null; // Null when the lead has no name
+  decision: Exclude<LeadMatchDecision, 'create'>;
+  reason: string;
+}
+
+export interface LeadMatchResult<T extends LeadMatchCandidate = LeadMatchCandidate> {
+  decision: LeadMatchDecision;
+  lead: T | null; // The lead to merge into; only set when `decision` is 'merge'
+  reason: string;
+  candidates: LeadMatchCandidateResult[];
+}
+
+// Stored on a lead created while a possible duplicate awaits admissions
+export interface DuplicateReview {
+  status: 'PENDING';
+  candidateLeadIds: string[];
+  reason: string;
+  flaggedAt: string;
+}
+
+/**
+ * E.164 form of a phone number, or null when it is not a valid number
+ */
+export const normalizePhone = (phone: string | null | undefined): string | null => {
+  if (!phone?.trim()) return null;
+
+  const parsed = parsePhoneNumberFromString(phone.trim(), DEFAULT_PHONE_COUNTRY);
+  return parsed?.isValid() ? parsed.number : null;
+};
+
+/**
+ * Formats the same number may have been stored in by older leads, for equality lookups
+ */
+export const phoneLookupValues = (phone: string | null | undefined): string[] => {
+  const e164 = normalizePhone(phone);
+  if (!e164) {
+    return phone?.trim() ? [phone.trim()] : [];
+  }
+
+  const parsed = parsePhoneNumberFromString(e164);
+  const values = [
+    e164,
+    e164.slice(1),
+    parsed?.formatNational().replace(/\s/g, ''),
+    parsed?.formatNational(),
+    parsed?.formatInternational(),
+    phone?.trim(),
+  ];
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+};
+
+/**
+ * Lowercased email; Gmail addresses also lose dots and `+tag` suffixes in the local part
+ */
+export const normalizeEmail = (email: string | null | undefined): string => {
+  const trimmed = (email || '').trim().toLowerCase();
+  const at = trimmed.lastIndexOf('@');
+  if (at < 1) return trimmed;
+
+  const domain = trimmed.slice(at + 1);
+  if (!GMAIL_DOMAINS.includes(domain)) return trimmed;
+
+  const localPart = trimmed.slice(0, at).split('+')[0].replace(/\./g, '');
+  return `${localPart}@gmail.com`;
+};
+
+/**
+ * Values an older lead may have stored the same email as, for equality lookups
+ */
+export const emailLookupValues = (email: string | null | undefined): string[] =>
+  Array.from(new Set([(email || '').trim().toLowerCase(), normalizeEmail(email)].filter(Boolean)));
+
+// Matching fields written on every lead so later lookups can compare normalised values directly
+export const leadMatchFields = (contact: { email: string; phone: string }) => ({
+  normalizedEmail: normalizeEmail(contact.email),
+  phoneE164: normalizePhone(contact.phone),
+});
+
+const nameTokens = (name: string | null | undefined): string[] =>
+  (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * How alike two names are, from 0 to 1. Word order is ignored and each word of the shorter name
+ * is compared with its closest word in the other, so "Nakato Sarah" matches "Sarah Nakato" and
+ * "Sara Nakato" scores close to 1. Returns null when either name is empty.
+ */
+export const nameSimilarity = (a: string | null | undefined, b: string | null | undefined): number | null => {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return null;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const total = shorter.reduce((sum, token) => {
+    const best = Math.max(
+      ...longer.map((other) => 1 - editDistance(token, other) / Math.max(token.length, other.length))
+    );
+    return sum + best;
+  }, 0);
+
+  return Math.round((total / shorter.length) * 100) / 100;
+};
+
+const describeMatch = (matchedOn: LeadMatchField[], nameScore: number | null) => {
+  const fields = matchedOn.join(' and ');
+  return nameScore === null ? `same ${fields}, no name on lead` : `same ${fields}, name similarity ${nameScore}`;
+};
+
+const compareLead = (applicant: LeadMatchApplicant, lead: LeadMatchCandidate): LeadMatchCandidateResult | null => {
+  const applicantEmail = normalizeEmail(applicant.email);
+  const applicantPhone = normalizePhone(applicant.phone);
+
+  const matchedOn: LeadMatchField[] = [];
+  if (applicantEmail && (lead.normalizedEmail || normalizeEmail(lead.email)) === applicantEmail) {
+    matchedOn.push('email');
+  }
+  const leadPhones = [lead.phoneE164, normalizePhone(lead.phone), normalizePhone(lead.whatsappNumber)];
+  if (applicantPhone && leadPhones.includes(applicantPhone)) {
+    matchedOn.push('phone');
+  }
+  if (matchedOn.length === 0) return null;
+
+  const nameScore = nameSimilarity(applicant.name, lead.name);
+  const summary = describeMatch(matchedOn, nameScore);
+  const result = (decision: LeadMatchCandidateResult['decision'], reason: string) => ({
+    leadId: lead.id,
+    matchedOn,
+    nameScore,
+    decision,
+    reason,
+  });
+
+  if (applicant.uid && lead.uid && lead.uid !== applicant.uid) {
+    return result('review', `${summary}, but the lead belongs to another account`);
+  }
+  if (matchedOn.length === 2) {
+    return result('merge', summary);
+  }
+  if (matchedOn[0] === 'email') {
+    return nameScore !== null && nameScore < NAME_MISMATCH_THRESHOLD
+      ? result('review', `${summary}, names differ (shared email address?)`)
+      : result('merge', summary);
+  }
+  return nameScore !== null && nameScore < NAME_MATCH_THRESHOLD
+    ? result('review', `${summary}, names differ (shared phone?)`)
+    : result('merge', summary);
+};
+
+/**
+ * Decide which of the leads found for the applicant's email or phone they belong to.
+ * - exactly one lead is a clear match: merge into it
+ * - several clear matches: prefer the only one matching on both email and phone, otherwise review
+ * - only uncertain matches: review, so admissions decide instead of a silent merge
+ * - nothing matches: create a new lead
+ */
+export const matchLead = <T extends LeadMatchCandidate>(applicant: LeadMatchApplicant, leads: T[]): LeadMatchResult<T> => {
+  const uniqueLeads = Array.from(new Map(leads.map((lead) => [lead.id, lead])).values());
+  const candidates = uniqueLeads
+    .map((lead) => compareLead(applicant, lead))
+    .filter((candidate): candidate is LeadMatchCandidateResult => candidate !== null);
+  const leadById = (id: string) => uniqueLeads.find((lead) => lead.id === id) ?? null;
+
+  if (candidates.length === 0) {
+    return { decision: 'create', lead: null, reason: 'No lead with this email or phone', candidates };
+  }
+
+  const clearMatches = candidates.filter((candidate) => candidate.decision === 'merge');
+  const fullMatches = clearMatches.filter((candidate) => candidate.matchedOn.length === 2);
+  const chosen = clearMatches.length === 1 ? clearMatches[0] : fullMatches.length === 1 ? fullMatches[0] : null;
+
+  if (chosen) {
+    return { decision: 'merge', lead: leadById(chosen.leadId), reason: `Matched lead ${chosen.leadId}: ${chosen.reason}`, candidates };
+  }
+
+  const reason = clearMatches.length > 1
+    ? `Matches ${clearMatches.length} leads (${clearMatches.map((candidate) => candidate.leadId).join(', ')})`
+    : candidates.map((candidate) => `Lead ${candidate.leadId}: ${candidate.reason}`).join('; ');
+  return { decision: 'review', lead: null, reason, candidates };
+};
+
+/**
+ * Internal timeline entry recording a merge or a flagged duplicate
+ */
+export const buildLeadMatchTimelineEntry = (
+  match: LeadMatchResult,
+  context: { date: unknown; status: string; source: string }
+): LeadTimelineEntry => ({
+  date: context.date,
+  action: match.decision === 'merge' ? 'LEAD_MERGED' : 'DUPLICATE_REVIEW_REQUESTED',
+  status: context.status,
+  notes: match.decision === 'merge'
+    ? `${context.source} merged into this lead. ${match.reason}`
+    : `Possible duplicate of an existing lead, not merged. ${match.reason}`,
+  visibility: 'internal',
+  metadata: {
+    source: context.source,
+    decision: match.decision,
+    candidates: match.candidates,
+  },
+});
+
+export const buildDuplicateReview = (match: LeadMatchResult, flaggedAt: string): DuplicateReview => ({
+  status: 'PENDING',
+  candidateLeadIds: match.candidates.map((candidate) => candidate.leadId),
+  reason: match.reason,
+  flaggedAt,
+});
@@ -0,0 +1,29 @@
+/**
+ * Lead Timeline Service
+ * Appends entries to `leads/{id}/timeline` as one document each, in the same batch as the lead
+ * update they belong to, so concurrent writers (signup, an agent, admissions) never overwrite
+ * each other's entries. Applicants read their history through the timeline route instead.
+ */
+
+import { collection, doc, type DocumentReference } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { LEAD_TIMELINE_COLLECTION, type LeadTimelineEntry } from '@/lib/applicationTimeline';
+
+// A write batch or transaction the entries are written with
+interface TimelineWriter {
+  set(documentRef: DocumentReference, data: LeadTimelineEntry): unknown;
+}
+
+class LeadTimelineService {
+  /**
+   * Queue timeline entries for a lead on a write batch or transaction
+   */
+  appendEntries(writer: TimelineWriter, leadId: string, entries: LeadTimelineEntry[]): void {
+    const timelineRef = collection(db, 'leads', leadId, LEAD_TIMELINE_COLLECTION);
+    entries.forEach((entry) => {
+      writer.set(doc(timelineRef), entry);
+    });
+  }
+}
+
+export const leadTimelineService = new LeadTimelineService();
@@ -0,0 +1,202 @@
+/**
+ * Offline Draft Queue
+ * Many applicants fill the form on unstable mobile data. Draft autosaves and document uploads that
+ * cannot reach Firebase are kept in IndexedDB (files included) and replayed in the order they were
+ * made once the connection returns, so nothing typed or attached offline is lost on a reload.
+ */
+import type { StudentApplicationData } from './applicationService';
+import type { DocumentType } from './documentRequirements';
+
+const DATABASE_NAME = 'iuea-portal-offline';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'draftQueue';
+
+export interface QueuedDraftSave {
+  id?: number;
+  kind: 'draft-save';
+  draftId: string;
+  queuedAt: string;
+  payload: {
+    formData: Partial<StudentApplicationData>;
+    activeSection?: string;
+    lastSavedAt?: string;
+  };
+}
+
+export interface QueuedDocumentUpload {
+  id?: number;
+  kind: 'document-upload';
+  draftId: string;
+  queuedAt: string;
+  documentType: DocumentType;
+  file: Blob;
+  fileName: string;
+  studentEmail: string;
+}
+
+export type QueuedDraftChange = QueuedDraftSave | QueuedDocumentUpload;
+
+// `done` removes the entry; `retry` stops the replay and keeps it and everything after it queued
+export type ReplayOutcome = 'done' | 'retry';
+
+class OfflineDraftQueue {
+  private databasePromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<() => void>();
+  private replaying = false;
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+  }
+
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('draftId', 'draftId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.databasePromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.databasePromise;
+  }
+
+  private async runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Listen for changes to the queue; returns an unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Pending changes for a draft, oldest first
+   */
+  async getEntries(draftId: string): Promise<QueuedDraftChange[]> {
+    if (!this.isSupported()) {
+      return [];
+    }
+
+    const entries = await this.runRequest<QueuedDraftChange[]>('readonly', (store) =>
+      store.index('draftId').getAll(draftId)
+    );
+    return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  }
+
+  async getPendingCount(draftId: string): Promise<number> {
+    if (!this.isSupported()) {
+      return 0;
+    }
+
+    return this.runRequest<number>('readonly', (store) => store.index('draftId').count(draftId));
+  }
+
+  /**
+   * Queue the latest form state. Consecutive saves collapse into one entry, since each holds the
+   * whole form; a save queued after an upload is kept separately to preserve their order.
+   */
+  async enqueueDraftSave(draftId: string, payload: QueuedDraftSave['payload']): Promise<void> {
+    const entries = await this.getEntries(draftId);
+    const lastEntry = entries[entries.length - 1];
+    const entry: QueuedDraftSave = { kind: 'draft-save', draftId, queuedAt: new Date().toISOString(), payload };
+
+    if (lastEntry?.kind === 'draft-save') {
+      await this.runRequest('readwrite', (store) => store.put({ ...entry, id: lastEntry.id }));
+    } else {
+      await this.runRequest('readwrite', (store) => store.add(entry));
+    }
+
+    console.log('📥 Draft changes queued for when the connection returns');
+    this.notify();
+  }
+
+  async enqueueDocumentUpload(draftId: string, documentType: DocumentType, file: File, studentEmail: string): Promise<void> {
+    const entry: QueuedDocumentUpload = {
+      kind: 'document-upload',
+      draftId,
+      queuedAt: new Date().toISOString(),
+      documentType,
+      file,
+      fileName: file.name,
+      studentEmail,
+    };
+
+    await this.runRequest('readwrite', (store) => store.add(entry));
+    console.log('📥 Document queued for upload:', file.name);
+    this.notify();
+  }
+
+  /**
+   * Drop everything queued for a draft, e.g. once it has been submitted
+   */
+  async clear(draftId: string): Promise<void> {
+    const entries = await this.getEntries(draftId);
+    await Promise.all(
+      entries.map((entry) => this.runRequest('readwrite', (store) => store.delete(entry.id as number)))
+    );
+    this.notify();
+  }
+
+  /**
+   * Replay a draft's queued changes in order. Stops at the first entry that has to be retried.
+   */
+  async replay(draftId: string, process: (entry: QueuedDraftChange) => Promise<ReplayOutcome>): Promise<number> {
+    if (this.replaying || !this.isSupported() || !this.isOnline()) {
+      return 0;
+    }
+
+    this.replaying = true;
+    let replayed = 0;
+
+    try {
+      for (const entry of await this.getEntries(draftId)) {
+        const outcome = await process(entry);
+        if (outcome === 'retry') {
+          break;
+        }
+
+        await this.runRequest('readwrite', (store) => store.delete(entry.id as number));
+        replayed += 1;
+        this.notify();
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    if (replayed > 0) {
+      console.log(`✅ Replayed ${replayed} queued draft change(s)`);
+    }
+    return replayed;
+  }
+}
+
+export const offlineDraftQueue = new OfflineDraftQueue();
@@ -0,0 +1,119 @@
+/**
+ * Program Catalogue
+ * Program records and the rules for listing them: which programs are offered for a mode of study
+ * and intake, in what order, and under which faculty. Free of the Firebase SDKs so the browser
+ * (through `programCatalogService`) and the submission route apply the same rules.
+ */
+
+import programSeed from '@/data/programs.seed.json';
+import type { ProgramEntryRequirements } from '@/lib/programEligibility';
+
+export type ProgramLevel = 'certificate' | 'diploma' | 'bachelor' | 'master';
+
+// Program document stored in the `programs` collection
+export interface ProgramCatalogEntry {
+  id: string;
+  name: string;
+  faculty: string;
+  level: ProgramLevel;
+  duration: string;
+  modes: string[];
+  intakes: string[];
+  active: boolean;
+  order?: number;
+  entryRequirements?: ProgramEntryRequirements; // Falls back to the defaults for the program level
+}
+
+export type ProgramsByFaculty = Record<string, ProgramCatalogEntry[]>;
+
+export const PROGRAM_LEVEL_LABELS: Record<ProgramLevel, string> = {
+  certificate: 'Certificate',
+  diploma: 'Diploma',
+  bachelor: "Bachelor's Degree",
+  master: "Master's Degree",
+};
+
+// Calendar order used when listing intakes
+const INTAKE_ORDER = ['January', 'May', 'August'];
+
+export const normalizeProgram = (data: Record<string, unknown>): ProgramCatalogEntry => ({
+  id: String(data.id || ''),
+  name: String(data.name || ''),
+  faculty: String(data.faculty || 'Other Programs'),
+  level: (data.level as ProgramLevel) || 'bachelor',
+  duration: String(data.duration || ''),
+  modes: Array.isArray(data.modes) ? data.modes.map(String) : [],
+  intakes: Array.isArray(data.intakes) ? data.intakes.map(String) : [],
+  active: data.active !== false,
+  order: typeof data.order === 'number' ? data.order : undefined,
+  entryRequirements:
+    data.entryRequirements && typeof data.entryRequirements === 'object'
+      ? (data.entryRequirements as ProgramEntryRequirements)
+      : undefined,
+});
+
+/**
+ * Programs shipped with the portal, also used to seed the Firestore emulator
+ */
+export const getSeedPrograms = (): ProgramCatalogEntry[] =>
+  (programSeed as Array<Record<string, unknown>>).map((program) => normalizeProgram(program));
+
+export const sortPrograms = (programs: ProgramCatalogEntry[]): ProgramCatalogEntry[] =>
+  [...programs].sort((a, b) => {
+    const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
+    const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
+    return orderA !== orderB ? orderA - orderB : a.name.localeCompare(b.name);
+  });
+
+/**
+ * Programs offered for a given mode of study and intake
+ */
+export const filterPrograms = (programs: ProgramCatalogEntry[], modeOfStudy: string, intake: string): ProgramCatalogEntry[] => {
+  if (!modeOfStudy || !intake) {
+    return [];
+  }
+
+  return programs.filter(
+    (program) => program.active && program.modes.includes(modeOfStudy) && program.intakes.includes(intake)
+  );
+};
+
+/**
+ * Group programs by faculty, keeping catalogue order within each faculty
+ */
+export const groupProgramsByFaculty = (programs: ProgramCatalogEntry[]): ProgramsByFaculty =>
+  programs.reduce<ProgramsByFaculty>((groups, program) => {
+    if (!groups[program.faculty]) {
+      groups[program.faculty] = [];
+    }
+    groups[program.faculty].push(program);
+    return groups;
+  }, {});
+
+/**
+ * Find a program by its display name, which is what applications store
+ */
+export const findProgramByName = (programs: ProgramCatalogEntry[], name: string): ProgramCatalogEntry | undefined => {
+  if (!name) {
+    return undefined;
+  }
+
+  const normalized = name.trim().toLowerCase();
+  return programs.find((program) => program.name.toLowerCase() === normalized);
+};
+
+export const getProgramModes = (programs: ProgramCatalogEntry[]): string[] =>
+  Array.from(new Set(programs.flatMap((program) => program.modes)));
+
+export const getProgramIntakes = (programs: ProgramCatalogEntry[], modeOfStudy?: string): string[] => {
+  const relevantPrograms = modeOfStudy
+    ? programs.filter((program) => program.modes.includes(modeOfStudy))
+    : programs;
+
+  const intakes = Array.from(new Set(relevantPrograms.flatMap((program) => program.intakes)));
+  return intakes.sort((a, b) => {
+    const indexA = INTAKE_ORDER.indexOf(a);
+    const indexB = INTAKE_ORDER.indexOf(b);
+    return (indexA === -1 ? INTAKE_ORDER.length : indexA) - (indexB === -1 ? INTAKE_ORDER.length : indexB);
+  });
+};
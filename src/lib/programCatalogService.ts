@@ -0,0 +1,82 @@
+/**
+ * Program Catalogue Service
+ * Loads the programs offered by the university from the Firestore `programs` collection.
+ * Admissions staff maintain the catalogue in Firestore so new programs, closed intakes and
+ * faculty changes no longer require a portal release.
+ */
+
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import {
+  findProgramByName,
+  getSeedPrograms,
+  normalizeProgram,
+  sortPrograms,
+  type ProgramCatalogEntry,
+} from '@/lib/programCatalog';
+
+class ProgramCatalogService {
+  private cache: ProgramCatalogEntry[] | null = null;
+  private cacheTimestamp = 0;
+  private pendingLoad: Promise<ProgramCatalogEntry[]> | null = null;
+  private readonly CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
+
+  /**
+   * Get all active programs, served from cache when fresh.
+   * Falls back to the bundled seed catalogue when Firestore is unreachable or empty.
+   */
+  async getPrograms(options: { forceRefresh?: boolean } = {}): Promise<ProgramCatalogEntry[]> {
+    const isFresh = this.cache && Date.now() - this.cacheTimestamp < this.CACHE_DURATION;
+    if (!options.forceRefresh && isFresh && this.cache) {
+      return this.cache;
+    }
+
+    if (this.pendingLoad) {
+      return this.pendingLoad;
+    }
+
+    this.pendingLoad = this.loadPrograms().finally(() => {
+      this.pendingLoad = null;
+    });
+
+    return this.pendingLoad;
+  }
+
+  private async loadPrograms(): Promise<ProgramCatalogEntry[]> {
+    try {
+      const programsQuery = query(collection(db, 'programs'), where('active', '==', true));
+      const snapshot = await getDocs(programsQuery);
+
+      const programs = snapshot.docs.map((programDoc) =>
+        normalizeProgram({ id: programDoc.id, ...programDoc.data() })
+      );
+
+      if (programs.length === 0) {
+        console.warn('⚠️ Program catalogue is empty in Firestore, using bundled catalogue');
+        return this.useFallbackCatalogue();
+      }
+
+      console.log(`✅ Loaded ${programs.length} programs from catalogue`);
+      this.cache = sortPrograms(programs);
+      this.cacheTimestamp = Date.now();
+      return this.cache;
+    } catch (error) {
+      console.error('❌ Error loading program catalogue, using bundled catalogue:', error);
+      return this.useFallbackCatalogue();
+    }
+  }
+
+  private useFallbackCatalogue(): ProgramCatalogEntry[] {
+    const programs = getSeedPrograms().filter((program) => program.active);
+    this.cache = sortPrograms(programs);
+    this.cacheTimestamp = Date.now();
+    return this.cache;
+  }
+
+  async getProgramByName(name: string): Promise<ProgramCatalogEntry | undefined> {
+    const programs = await this.getPrograms();
+    return findProgramByName(programs, name);
+  }
+}
+
+export const programCatalogService = new ProgramCatalogService();
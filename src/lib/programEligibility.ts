@@ -0,0 +1,268 @@
+/**
+ * Program Eligibility
+ * Checks an applicant's education history against a program's entry requirements.
+ * Results are advisory: admissions makes the final decision, but applicants can see before
+ * applying whether they qualify directly, only through a conditional route, or not at all.
+ */
+
+import type { ProgramCatalogEntry, ProgramLevel } from '@/lib/programCatalog';
+import { EXAMINATION_BODY_LABELS, type ExaminationBody, type QualificationEntry } from '@/lib/educationHistory';
+
+// Entry requirements stored on a program as `entryRequirements`; omitted fields use the level defaults
+export interface ProgramEntryRequirements {
+  minUcePasses?: number; // O-Level subjects passed (P8 or better)
+  requiredUceCredits?: string[]; // O-Level subjects that need a credit (C6 or better)
+  minPrincipalPasses?: number; // A-Level principal passes (A-E)
+  minSubsidiaryPasses?: number;
+  requiredSubjects?: string[][]; // Each group needs a principal pass in at least one of its subjects
+  diplomaRoute?: boolean; // Diploma holders are admissible
+  degreeRequired?: boolean; // Postgraduate programs
+  matureAgeRoute?: boolean; // Applicants of mature age may sit the entry examination
+}
+
+export type EligibilityStatus = 'eligible' | 'conditional' | 'ineligible';
+
+export interface EligibilityResult {
+  status: EligibilityStatus;
+  route: string; // Entry route the status is based on, e.g. "Direct entry (UACE)"
+  reasons: string[];
+}
+
+export const ELIGIBILITY_STATUS_LABELS: Record<EligibilityStatus, string> = {
+  eligible: 'Eligible',
+  conditional: 'Conditional',
+  ineligible: 'Not eligible',
+};
+
+export const MATURE_AGE_MINIMUM = 25;
+
+export const DEFAULT_ENTRY_REQUIREMENTS: Record<ProgramLevel, ProgramEntryRequirements> = {
+  certificate: { minUcePasses: 4 },
+  diploma: { minUcePasses: 5, minPrincipalPasses: 1, minSubsidiaryPasses: 1 },
+  bachelor: { minUcePasses: 5, minPrincipalPasses: 2, minSubsidiaryPasses: 1, diplomaRoute: true, matureAgeRoute: true },
+  master: { degreeRequired: true },
+};
+
+// Secondary certificates from outside Uganda need an equivalence assessment before admission
+const FOREIGN_SECONDARY_BODIES: ExaminationBody[] = ['KCSE', 'IGCSE', 'WASSCE'];
+
+const STATUS_RANK: Record<EligibilityStatus, number> = { ineligible: 0, conditional: 1, eligible: 2 };
+
+const SUBJECT_ALIASES: Record<string, string[]> = {
+  mathematics: ['math', 'maths', 'mathematics'],
+  english: ['english', 'english language'],
+  'computer studies': ['computer', 'ict', 'information technology'],
+  literature: ['literature', 'literature in english'],
+};
+
+const normalizeSubject = (subject: string) => subject.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const matchesSubject = (subject: string, required: string): boolean => {
+  const normalized = normalizeSubject(subject);
+  const requiredName = normalizeSubject(required);
+  const aliases = SUBJECT_ALIASES[requiredName] || [requiredName];
+
+  return aliases.some((alias) => normalized === alias || normalized.startsWith(`${alias} `));
+};
+
+const normalizeGrade = (grade: string) => grade.toUpperCase().replace(/\s+/g, '');
+
+/**
+ * UCE pass: old scale D1-P8, or A-D on the competency-based scale
+ */
+const isUcePass = (grade: string): boolean => /^(D[12]|C[3-6]|P[78]|[A-D])$/.test(normalizeGrade(grade));
+
+/**
+ * UCE credit: old scale D1-C6, or A-C on the competency-based scale
+ */
+const isUceCredit = (grade: string): boolean => /^(D[12]|C[3-6]|[A-C])$/.test(normalizeGrade(grade));
+
+const isPrincipalPass = (grade: string): boolean => /^[A-E]$/.test(normalizeGrade(grade));
+
+// Subsidiary subjects are graded O, or 1-6 (optionally prefixed D/C) on the subsidiary scale
+const isSubsidiaryPass = (grade: string): boolean => /^(O|D?[12]|C?[3-6])$/.test(normalizeGrade(grade));
+
+const getAge = (dateOfBirth: string | undefined, now: Date): number | null => {
+  if (!dateOfBirth) return null;
+
+  const birthDate = new Date(dateOfBirth);
+  if (Number.isNaN(birthDate.getTime())) return null;
+
+  let age = now.getFullYear() - birthDate.getFullYear();
+  const hasHadBirthday =
+    now.getMonth() > birthDate.getMonth() ||
+    (now.getMonth() === birthDate.getMonth() && now.getDate() >= birthDate.getDate());
+  if (!hasHadBirthday) age -= 1;
+  return age;
+};
+
+/**
+ * Requirements for a program: its own `entryRequirements` over the defaults for its level
+ */
+export const getEntryRequirements = (program: ProgramCatalogEntry): ProgramEntryRequirements => ({
+  ...DEFAULT_ENTRY_REQUIREMENTS[program.level],
+  ...(program.entryRequirements || {}),
+});
+
+const checkUce = (history: QualificationEntry[], requirements: ProgramEntryRequirements): string[] => {
+  const reasons: string[] = [];
+  const uce = history.find((entry) => entry.examinationBody === 'UNEB_UCE');
+
+  if (!requirements.minUcePasses && !requirements.requiredUceCredits?.length) {
+    return reasons;
+  }
+
+  if (!uce) {
+    reasons.push('Add your UCE (O-Level) results');
+    return reasons;
+  }
+
+  const passes = uce.subjects.filter((subject) => isUcePass(subject.grade)).length;
+  if (requirements.minUcePasses && passes < requirements.minUcePasses) {
+    reasons.push(`Requires at least ${requirements.minUcePasses} UCE passes (you have ${passes})`);
+  }
+
+  requirements.requiredUceCredits?.forEach((required) => {
+    const hasCredit = uce.subjects.some((subject) => matchesSubject(subject.subject, required) && isUceCredit(subject.grade));
+    if (!hasCredit) {
+      reasons.push(`Requires a credit in ${required} at UCE`);
+    }
+  });
+
+  return reasons;
+};
+
+const checkDirectEntry = (history: QualificationEntry[], requirements: ProgramEntryRequirements): EligibilityResult => {
+  const route = 'Direct entry (UCE and UACE)';
+  const reasons = checkUce(history, requirements);
+  const needsUace = Boolean(requirements.minPrincipalPasses || requirements.requiredSubjects?.length);
+
+  if (needsUace) {
+    const uace = history.find((entry) => entry.examinationBody === 'UNEB_UACE');
+
+    if (!uace) {
+      reasons.push('Add your UACE (A-Level) results');
+    } else {
+      const principalSubjects = uace.subjects.filter((subject) => isPrincipalPass(subject.grade));
+      const subsidiaryPasses = uace.subjects.filter((subject) => isSubsidiaryPass(subject.grade)).length;
+
+      if (requirements.minPrincipalPasses && principalSubjects.length < requirements.minPrincipalPasses) {
+        reasons.push(`Requires at least ${requirements.minPrincipalPasses} UACE principal passes (you have ${principalSubjects.length})`);
+      }
+      if (requirements.minSubsidiaryPasses && subsidiaryPasses < requirements.minSubsidiaryPasses) {
+        reasons.push(`Requires at least ${requirements.minSubsidiaryPasses} UACE subsidiary pass(es)`);
+      }
+
+      requirements.requiredSubjects?.forEach((group) => {
+        const hasSubject = principalSubjects.some((subject) => group.some((required) => matchesSubject(subject.subject, required)));
+        if (!hasSubject) {
+          reasons.push(`Requires a principal pass in ${group.join(' or ')}`);
+        }
+      });
+    }
+  }
+
+  return reasons.length === 0
+    ? { status: 'eligible', route, reasons: ['Your UCE and UACE results meet the entry requirements'] }
+    : { status: 'ineligible', route, reasons };
+};
+
+const checkForeignSecondary = (history: QualificationEntry[]): EligibilityResult | null => {
+  const foreign = history.find((entry) => FOREIGN_SECONDARY_BODIES.includes(entry.examinationBody));
+  if (!foreign) return null;
+
+  return {
+    status: 'conditional',
+    route: 'International secondary certificate',
+    reasons: [
+      `${EXAMINATION_BODY_LABELS[foreign.examinationBody]} results need an equivalence letter from UNEB before admission`,
+    ],
+  };
+};
+
+const checkDiplomaRoute = (history: QualificationEntry[]): EligibilityResult | null => {
+  const diploma = history.find((entry) => entry.examinationBody === 'DIPLOMA' || entry.examinationBody === 'DEGREE');
+  if (!diploma) return null;
+
+  return {
+    status: 'eligible',
+    route: 'Diploma holder entry',
+    reasons: [`Admissible on the strength of your ${diploma.qualification || 'diploma'}`],
+  };
+};
+
+const checkMatureAgeRoute = (dateOfBirth: string | undefined, now: Date): EligibilityResult | null => {
+  const age = getAge(dateOfBirth, now);
+  if (age === null || age < MATURE_AGE_MINIMUM) return null;
+
+  return {
+    status: 'conditional',
+    route: 'Mature age entry',
+    reasons: ['You qualify to sit the mature age entry examination; admission depends on passing it'],
+  };
+};
+
+const checkDegree = (history: QualificationEntry[]): EligibilityResult => {
+  const degree = history.find((entry) => entry.examinationBody === 'DEGREE');
+
+  if (degree) {
+    return {
+      status: 'eligible',
+      route: 'Postgraduate entry',
+      reasons: [`Admissible with your ${degree.qualification || "bachelor's degree"}`],
+    };
+  }
+
+  const otherQualification = history.find((entry) => entry.examinationBody === 'OTHER');
+  if (otherQualification) {
+    return {
+      status: 'conditional',
+      route: 'Postgraduate entry',
+      reasons: [`Admissions will assess whether your ${otherQualification.qualification || 'qualification'} is equivalent to a bachelor's degree`],
+    };
+  }
+
+  return { status: 'ineligible', route: 'Postgraduate entry', reasons: ["Requires a recognised bachelor's degree"] };
+};
+
+/**
+ * Check an applicant against a program's entry requirements, returning the most favourable route.
+ * Returns null when there is no education history to check against.
+ */
+export const evaluateEligibility = (
+  program: ProgramCatalogEntry,
+  applicant: { educationHistory: QualificationEntry[]; dateOfBirth?: string },
+  now: Date = new Date()
+): EligibilityResult | null => {
+  const history = applicant.educationHistory;
+  if (history.length === 0) {
+    return null;
+  }
+
+  const requirements = getEntryRequirements(program);
+
+  if (requirements.degreeRequired) {
+    return checkDegree(history);
+  }
+
+  const direct = checkDirectEntry(history, requirements);
+  const candidates: EligibilityResult[] = [direct];
+
+  const foreign = checkForeignSecondary(history);
+  if (foreign) candidates.push(foreign);
+
+  if (requirements.diplomaRoute) {
+    const diploma = checkDiplomaRoute(history);
+    if (diploma) candidates.push(diploma);
+  }
+
+  if (requirements.matureAgeRoute) {
+    const matureAge = checkMatureAgeRoute(applicant.dateOfBirth, now);
+    if (matureAge) candidates.push(matureAge);
+  }
+
+  // Candidates are in preference order, so ties keep the direct route
+  return candidates.reduce((best, candidate) =>
+    STATUS_RANK[candidate.status] > STATUS_RANK[best.status] ? candidate : best
+  );
+};
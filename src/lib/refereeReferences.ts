@@ -0,0 +1,118 @@
+/**
+ * Referee References
+ * Recommendation letters collected directly from referees. The applicant names their referees,
+ * the backend emails each one a time-limited, single-use upload link, and the application's
+ * `references` array tracks every request from sent to received.
+ */
+
+export type ReferenceStatus = 'requested' | 'opened' | 'received' | 'expired';
+
+// Reference request as stored on the application's `references` array by the backend
+export interface RefereeReference {
+  id: string;
+  refereeName: string;
+  refereeEmail: string;
+  relationship?: string | null;
+  status: Exclude<ReferenceStatus, 'expired'>; // Expiry is derived from `expiresAt`
+  requestedAt: string;
+  expiresAt: string;
+  openedAt?: string | null;
+  receivedAt?: string | null;
+  documentUrl?: string | null; // Also added to `supportingDocuments.recommendationLetters`
+}
+
+export interface RefereeInput {
+  refereeName: string;
+  refereeEmail: string;
+  relationship: string;
+}
+
+// What the public upload page is allowed to see about a request
+export interface ReferenceRequestDetails {
+  refereeName: string;
+  applicantName: string;
+  programName: string;
+  expiresAt: string;
+}
+
+export const MAX_REFEREES = 3;
+
+export const REFERENCE_STATUS_LABELS: Record<ReferenceStatus, string> = {
+  requested: 'Requested',
+  opened: 'Opened by referee',
+  received: 'Letter received',
+  expired: 'Link expired',
+};
+
+export const REFERENCE_STATUS_STYLES: Record<ReferenceStatus, string> = {
+  requested: 'bg-blue-100 text-blue-700',
+  opened: 'bg-amber-100 text-amber-700',
+  received: 'bg-green-100 text-green-700',
+  expired: 'bg-slate-200 text-slate-700',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Status shown to the applicant; unreceived requests past their expiry show as expired
+ */
+export const getReferenceStatus = (reference: RefereeReference, now: Date = new Date()): ReferenceStatus =>
+  reference.status !== 'received' && new Date(reference.expiresAt).getTime() < now.getTime()
+    ? 'expired'
+    : reference.status;
+
+/**
+ * Validate new referees against the applicant and the references already requested
+ */
+export const validateReferees = (
+  referees: RefereeInput[],
+  context: { applicantEmail: string; existing: RefereeReference[] }
+): string[] => {
+  const errors: string[] = [];
+  const activeEmails = context.existing
+    .filter((reference) => getReferenceStatus(reference) !== 'expired')
+    .map((reference) => reference.refereeEmail.toLowerCase());
+  const seenEmails = new Set<string>();
+
+  if (referees.length === 0) {
+    errors.push('Add at least one referee');
+  }
+
+  if (activeEmails.length + referees.length > MAX_REFEREES) {
+    errors.push(`You can request at most ${MAX_REFEREES} references`);
+  }
+
+  referees.forEach((referee, index) => {
+    const label = `Referee ${index + 1}`;
+    const email = referee.refereeEmail.trim().toLowerCase();
+
+    if (!referee.refereeName.trim()) errors.push(`${label}: Name is required`);
+    if (!EMAIL_PATTERN.test(email)) {
+      errors.push(`${label}: Enter a valid email address`);
+      return;
+    }
+    if (email === context.applicantEmail.toLowerCase()) {
+      errors.push(`${label}: A referee cannot be yourself`);
+    }
+    if (activeEmails.includes(email) || seenEmails.has(email)) {
+      errors.push(`${label}: A reference has already been requested from ${email}`);
+    }
+    seenEmails.add(email);
+  });
+
+  return errors;
+};
+
+/**
+ * Normalise the raw `references` field from Firestore
+ */
+export const normalizeReferences = (value: unknown): RefereeReference[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(
+    (reference): reference is RefereeReference =>
+      Boolean(reference) && typeof reference.id === 'string' && typeof reference.refereeEmail === 'string'
+  );
+};
@@ -0,0 +1,126 @@
+/**
+ * Sponsor Confirmation
+ * The sponsor named in the Additional Information section is invited through a link to confirm
+ * (or decline) that they will pay the applicant's fees. The backend sends the invitation, records
+ * the sponsor's answer on the application as `sponsorship` and on the lead record and timeline.
+ */
+
+export type SponsorshipStatus = 'invited' | 'opened' | 'confirmed' | 'declined';
+
+export type SponsorRelationship = 'parent' | 'guardian' | 'relative' | 'spouse' | 'employer' | 'scholarship' | 'other';
+
+// Sponsorship record stored on the application (and mirrored on the lead) as `sponsorship`
+export interface SponsorConfirmation {
+  status: SponsorshipStatus;
+  sponsorEmail?: string | null;
+  sponsorTelephone?: string | null;
+  invitedAt: string;
+  expiresAt: string;
+  openedAt?: string | null;
+  respondedAt?: string | null;
+  sponsorName?: string | null;
+  relationship?: SponsorRelationship | null;
+  organisation?: string | null;
+  note?: string | null;
+}
+
+export type FeePaymentStatus = 'not_due' | 'unpaid' | 'partially_paid' | 'paid';
+
+// Fee position shown to the sponsor, computed by the backend from the applicant's payments
+export interface SponsorFeeStatus {
+  status: FeePaymentStatus;
+  description: string;
+  amountDue?: number | null;
+  currency?: string | null;
+  dueDate?: string | null;
+}
+
+// What the public sponsor page is allowed to see about an invitation
+export interface SponsorInvitationDetails {
+  applicantName: string;
+  programName: string;
+  intake: string;
+  applicationStatus: string;
+  feeStatus: SponsorFeeStatus;
+  expiresAt: string;
+  response?: Pick<SponsorConfirmation, 'status' | 'sponsorName' | 'relationship' | 'organisation'> | null;
+}
+
+export interface SponsorResponseInput {
+  confirmed: boolean;
+  sponsorName: string;
+  relationship: SponsorRelationship | '';
+  organisation: string;
+  note: string;
+}
+
+export const SPONSORSHIP_STATUS_LABELS: Record<SponsorshipStatus, string> = {
+  invited: 'Invitation sent',
+  opened: 'Viewed by sponsor',
+  confirmed: 'Sponsorship confirmed',
+  declined: 'Sponsor declined',
+};
+
+export const SPONSOR_RELATIONSHIP_LABELS: Record<SponsorRelationship, string> = {
+  parent: 'Parent',
+  guardian: 'Guardian',
+  relative: 'Other relative',
+  spouse: 'Spouse',
+  employer: 'Employer',
+  scholarship: 'Scholarship or bursary body',
+  other: 'Other',
+};
+
+export const FEE_STATUS_LABELS: Record<FeePaymentStatus, string> = {
+  not_due: 'No fees due yet',
+  unpaid: 'Unpaid',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+};
+
+// Sponsors that pay on behalf of an organisation must name it
+const ORGANISATION_RELATIONSHIPS: SponsorRelationship[] = ['employer', 'scholarship'];
+
+export const requiresOrganisation = (relationship: SponsorRelationship | '' | null | undefined): boolean =>
+  Boolean(relationship) && ORGANISATION_RELATIONSHIPS.includes(relationship as SponsorRelationship);
+
+/**
+ * An invitation that has not been answered and is still within its validity window
+ */
+export const isInvitationActive = (sponsorship: SponsorConfirmation | null | undefined, now: Date = new Date()): boolean =>
+  Boolean(sponsorship) &&
+  (sponsorship?.status === 'invited' || sponsorship?.status === 'opened') &&
+  new Date(sponsorship.expiresAt).getTime() >= now.getTime();
+
+export const canInviteSponsor = (application: {
+  sponsorEmail?: string;
+  sponsorTelephone?: string;
+  sponsorship?: SponsorConfirmation | null;
+}): boolean =>
+  Boolean(application.sponsorEmail || application.sponsorTelephone) &&
+  application.sponsorship?.status !== 'confirmed' &&
+  !isInvitationActive(application.sponsorship);
+
+export const validateSponsorResponse = (input: SponsorResponseInput): string[] => {
+  const errors: string[] = [];
+
+  if (!input.sponsorName.trim()) errors.push('Please enter your full name');
+  if (input.confirmed && !input.relationship) errors.push('Please tell us your relationship to the applicant');
+  if (input.confirmed && requiresOrganisation(input.relationship) && !input.organisation.trim()) {
+    errors.push('Please enter the name of the organisation sponsoring the applicant');
+  }
+
+  return errors;
+};
+
+/**
+ * Normalise the raw `sponsorship` field from Firestore
+ */
+export const normalizeSponsorship = (value: unknown): SponsorConfirmation | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const sponsorship = value as SponsorConfirmation;
+  return typeof sponsorship.status === 'string' && typeof sponsorship.invitedAt === 'string' ? sponsorship : null;
+};
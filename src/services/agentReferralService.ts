@@ -0,0 +1,115 @@
+/**
+ * Agent Referral Service for Student Portal
+ * Loads the referrals attributed to the signed-in agent or counsellor from the agent referrals
+ * route, which resolves the agent from the Firebase ID token and only returns leads whose
+ * `submittedBy` matches their code, so an agent can never request another agent's referrals.
+ */
+import { auth } from "../lib/firebase";
+import { studentApplicationService } from "../lib/applicationService";
+import type { AgentProfile, AgentReferral } from "../lib/agentReferrals";
+import { toIsoDate } from "../lib/applicationTimeline";
+
+interface AgentResponse<T = unknown> {
+  success: boolean;
+  message: string;
+  data?: T;
+  error?: string;
+  notAgent?: boolean; // The signed-in account is not registered as an agent
+}
+
+interface RawReferral {
+  leadId: string;
+  name?: string;
+  email?: string;
+  phone?: string | null;
+  leadStatus?: string;
+  program?: string | null;
+  createdAt?: unknown;
+  application?: ({ id: string } & Record<string, unknown>) | null;
+}
+
+class AgentReferralService {
+  /**
+   * Get auth headers with Firebase ID token
+   */
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("Please sign in to view your referrals");
+    }
+
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${await user.getIdToken()}`,
+    };
+  }
+
+  private mapReferral(raw: RawReferral): AgentReferral {
+    return {
+      leadId: raw.leadId,
+      name: raw.name || '',
+      email: raw.email || '',
+      phone: raw.phone || null,
+      leadStatus: (raw.leadStatus || '').toUpperCase(),
+      program: raw.program || null,
+      createdAt: toIsoDate(raw.createdAt) || '',
+      application: raw.application
+        ? studentApplicationService.mapApplicationSnapshot(raw.application.id, raw.application)
+        : null,
+    };
+  }
+
+  /**
+   * Referrals attributed to the signed-in agent, with their applications
+   */
+  async getMyReferrals(): Promise<AgentResponse<{ agent: AgentProfile; referrals: AgentReferral[] }>> {
+    try {
+      console.log('🤝 Loading agent referrals');
+
+      const response = await fetch('/api/agents/me/referrals', {
+        headers: await this.getAuthHeaders(),
+      });
+
+      if (response.status === 403) {
+        return {
+          success: false,
+          notAgent: true,
+          message: "This account is not registered as an agent",
+        };
+      }
+
+      let responseData;
+      try {
+        responseData = await response.json();
+      } catch {
+        // If response is not JSON (like HTML error page), create a generic error
+        responseData = {
+          error: `Server responded with ${response.status}: ${response.statusText}`,
+        };
+      }
+
+      if (!response.ok) {
+        throw new Error(responseData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const referrals = ((responseData.referrals || []) as RawReferral[]).map((raw) => this.mapReferral(raw));
+      console.log(`✅ Loaded ${referrals.length} referrals`);
+
+      return {
+        success: true,
+        message: "Referrals loaded",
+        data: { agent: responseData.agent as AgentProfile, referrals },
+      };
+    } catch (error) {
+      console.error("❌ Agent referrals error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load referrals",
+        message: "Failed to load referrals",
+      };
+    }
+  }
+}
+
+const agentReferralService = new AgentReferralService();
+export default agentReferralService;
@@ -3,14 +3,26 @@
  * Handles sending email and WhatsApp notifications when applications are submitted
  */
 import { auth } from "../lib/firebase";
+import type { DocumentReview } from "../lib/documentReview";
 
 const API_BASE_URL =
   process.env.NEXT_PUBLIC_BACKEND_URL || "https://api.nyotafusionai.com";
 
 interface ApplicationNotificationData {
   applicationId: string;
+  applicationReference?: string; // Reference the applicant quotes, e.g. IUEA-2027AUG-000123
   phoneNumber: string;
   email: string;
+  idempotencyKey?: string; // Submission key; the same key is only notified once
+}
+
+interface DocumentResubmissionData {
+  applicationId: string;
+  applicationReference?: string;
+  email: string;
+  documentType: DocumentReview["documentType"];
+  downloadUrl: string;
+  resolvedReviews: DocumentReview[];
 }
 
 interface NotificationResponse {
@@ -21,6 +33,9 @@ interface NotificationResponse {
 }
 
 class ApplicationNotificationService {
+  // Submission keys already notified in this session
+  private notifiedSubmissions = new Set<string>();
+
   /**
    * Get auth headers with Firebase ID token
    */
@@ -54,16 +69,26 @@ class ApplicationNotificationService {
   async sendApplicationSubmissionNotifications(
     data: ApplicationNotificationData
   ): Promise<NotificationResponse> {
+    if (data.idempotencyKey && this.notifiedSubmissions.has(data.idempotencyKey)) {
+      console.log('♻️ Submission notifications already sent for:', data.applicationId);
+      return { success: true, message: "Application notifications already sent" };
+    }
+
     try {
       console.log('📧 Sending application submission notifications...', data);
+      if (data.idempotencyKey) {
+        this.notifiedSubmissions.add(data.idempotencyKey);
+      }
       
       const headers = await this.getAuthHeaders();
 
       const response = await fetch(`${API_BASE_URL}/api/applications/notify-application-submitted`, {
         method: "POST",
-        headers,
+        // Lets the backend recognise a repeated request for the same submission
+        headers: data.idempotencyKey ? { ...headers, "Idempotency-Key": `notify_${data.idempotencyKey}` } : headers,
         body: JSON.stringify({
           applicationId: data.applicationId,
+          applicationReference: data.applicationReference ?? null,
           phoneNumber: data.phoneNumber,
           email: data.email,
         }),
@@ -93,6 +118,10 @@ class ApplicationNotificationService {
       };
     } catch (error) {
       console.error("❌ Application notification API error:", error);
+      // Let a later retry send them
+      if (data.idempotencyKey) {
+        this.notifiedSubmissions.delete(data.idempotencyKey);
+      }
       return {
         success: false,
         error: error instanceof Error ? error.message : "Failed to send application notifications",
@@ -118,6 +147,7 @@ class ApplicationNotificationService {
         headers,
         body: JSON.stringify({
           applicationId: data.applicationId,
+          applicationReference: data.applicationReference ?? null,
           email: data.email,
         }),
       });
@@ -171,6 +201,7 @@ class ApplicationNotificationService {
         headers,
         body: JSON.stringify({
           applicationId: data.applicationId,
+          applicationReference: data.applicationReference ?? null,
           phoneNumber: data.phoneNumber,
         }),
       });
@@ -206,6 +237,56 @@ class ApplicationNotificationService {
       };
     }
   }
+
+  /**
+   * Tell admissions that a flagged document has been replaced
+   * @param {DocumentResubmissionData} data - Replaced document and the review flags it clears
+   */
+  async notifyDocumentResubmitted(
+    data: DocumentResubmissionData
+  ): Promise<NotificationResponse> {
+    try {
+      console.log('📧 Notifying admissions of resubmitted document...', data.documentType);
+
+      const headers = await this.getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/api/applications/notify-document-resubmitted`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(data),
+      });
+
+      let responseData;
+      try {
+        responseData = await response.json();
+      } catch {
+        // If response is not JSON (like HTML error page), create a generic error
+        responseData = { 
+          error: `Server responded with ${response.status}: ${response.statusText}`,
+          details: "Response was not valid JSON"
+        };
+      }
+
+      if (!response.ok) {
+        throw new Error(responseData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      console.log('✅ Admissions notified of resubmitted document:', responseData);
+
+      return {
+        success: true,
+        message: "Admissions notified of resubmitted document",
+        data: responseData,
+      };
+    } catch (error) {
+      console.error("❌ Document resubmission notification error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to notify admissions",
+        message: "Failed to notify admissions of resubmitted document",
+      };
+    }
+  }
 }
 
 const applicationNotificationService = new ApplicationNotificationService();
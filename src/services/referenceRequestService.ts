@@ -0,0 +1,161 @@
+/**
+ * Reference Request Service for Student Portal
+ * Asks the backend to email referees their upload links, and backs the public upload page.
+ * Tokens are issued, checked and consumed by the backend, which stores received letters in
+ * the application's Storage folder and updates the application's `references`.
+ */
+import { auth } from "../lib/firebase";
+import type { ReferenceRequestDetails, RefereeInput } from "../lib/refereeReferences";
+
+const API_BASE_URL =
+  process.env.NEXT_PUBLIC_BACKEND_URL || "https://api.nyotafusionai.com";
+
+interface ReferenceResponse<T = unknown> {
+  success: boolean;
+  message: string;
+  data?: T;
+  error?: string;
+}
+
+class ReferenceRequestService {
+  /**
+   * Get auth headers with Firebase ID token
+   */
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("Please sign in to request references");
+    }
+
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${await user.getIdToken()}`,
+    };
+  }
+
+  private async parseResponse(response: Response) {
+    let responseData;
+    try {
+      responseData = await response.json();
+    } catch {
+      // If response is not JSON (like HTML error page), create a generic error
+      responseData = {
+        error: `Server responded with ${response.status}: ${response.statusText}`,
+      };
+    }
+
+    if (!response.ok) {
+      throw new Error(responseData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return responseData;
+  }
+
+  /**
+   * Email each referee a single-use upload link for the application
+   */
+  async requestReferences(applicationId: string, referees: RefereeInput[]): Promise<ReferenceResponse> {
+    try {
+      console.log(`📧 Requesting ${referees.length} reference(s) for application:`, applicationId);
+
+      const response = await fetch(`${API_BASE_URL}/api/references/request`, {
+        method: "POST",
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({
+          applicationId,
+          referees: referees.map((referee) => ({
+            refereeName: referee.refereeName.trim(),
+            refereeEmail: referee.refereeEmail.trim().toLowerCase(),
+            relationship: referee.relationship.trim() || null,
+          })),
+        }),
+      });
+
+      const data = await this.parseResponse(response);
+      console.log('✅ Reference requests sent:', data);
+
+      return { success: true, message: "Reference requests sent", data };
+    } catch (error) {
+      console.error("❌ Reference request error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to request references",
+        message: "Failed to request references",
+      };
+    }
+  }
+
+  /**
+   * Issue a fresh link to a referee whose link expired or was lost
+   */
+  async resendReference(applicationId: string, referenceId: string): Promise<ReferenceResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/references/${referenceId}/resend`, {
+        method: "POST",
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({ applicationId }),
+      });
+
+      const data = await this.parseResponse(response);
+      console.log('✅ Reference link resent:', referenceId);
+
+      return { success: true, message: "Reference link resent", data };
+    } catch (error) {
+      console.error("❌ Reference resend error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to resend reference link",
+        message: "Failed to resend reference link",
+      };
+    }
+  }
+
+  /**
+   * Look up an upload link from the public page. The backend marks the request as opened.
+   */
+  async getRequestByToken(token: string): Promise<ReferenceResponse<ReferenceRequestDetails>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/references/token/${encodeURIComponent(token)}`);
+      const data = await this.parseResponse(response);
+
+      return { success: true, message: "Reference request found", data: data.request as ReferenceRequestDetails };
+    } catch (error) {
+      console.error("❌ Reference link lookup error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "This link is invalid or has expired",
+        message: "This link is invalid or has expired",
+      };
+    }
+  }
+
+  /**
+   * Upload the recommendation letter; the link cannot be used again afterwards
+   */
+  async submitReference(token: string, file: File): Promise<ReferenceResponse> {
+    try {
+      const formData = new FormData();
+      formData.append("letter", file);
+
+      const response = await fetch(`${API_BASE_URL}/api/references/token/${encodeURIComponent(token)}/upload`, {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await this.parseResponse(response);
+      console.log('✅ Recommendation letter uploaded');
+
+      return { success: true, message: "Recommendation letter received", data };
+    } catch (error) {
+      console.error("❌ Recommendation letter upload error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to upload recommendation letter",
+        message: "Failed to upload recommendation letter",
+      };
+    }
+  }
+}
+
+const referenceRequestService = new ReferenceRequestService();
+export default referenceRequestService;
@@ -0,0 +1,133 @@
+/**
+ * Sponsor Invitation Service for Student Portal
+ * Asks the backend to invite the applicant's sponsor by email and WhatsApp, and backs the
+ * public sponsor page. The backend issues and checks the invitation token and records the
+ * sponsor's answer on the application and the lead.
+ */
+import { auth } from "../lib/firebase";
+import type { SponsorInvitationDetails, SponsorResponseInput } from "../lib/sponsorConfirmation";
+
+const API_BASE_URL =
+  process.env.NEXT_PUBLIC_BACKEND_URL || "https://api.nyotafusionai.com";
+
+interface SponsorResponse<T = unknown> {
+  success: boolean;
+  message: string;
+  data?: T;
+  error?: string;
+}
+
+class SponsorInvitationService {
+  /**
+   * Get auth headers with Firebase ID token
+   */
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("Please sign in to invite your sponsor");
+    }
+
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${await user.getIdToken()}`,
+    };
+  }
+
+  private async parseResponse(response: Response) {
+    let responseData;
+    try {
+      responseData = await response.json();
+    } catch {
+      // If response is not JSON (like HTML error page), create a generic error
+      responseData = {
+        error: `Server responded with ${response.status}: ${response.statusText}`,
+      };
+    }
+
+    if (!response.ok) {
+      throw new Error(responseData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return responseData;
+  }
+
+  /**
+   * Send the sponsor a link to confirm sponsorship, using the sponsor contact details on the application
+   */
+  async inviteSponsor(applicationId: string): Promise<SponsorResponse> {
+    try {
+      console.log('📧 Inviting sponsor for application:', applicationId);
+
+      const response = await fetch(`${API_BASE_URL}/api/sponsors/invite`, {
+        method: "POST",
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({ applicationId }),
+      });
+
+      const data = await this.parseResponse(response);
+      console.log('✅ Sponsor invitation sent:', data);
+
+      return { success: true, message: "Sponsor invitation sent", data };
+    } catch (error) {
+      console.error("❌ Sponsor invitation error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to invite sponsor",
+        message: "Failed to invite sponsor",
+      };
+    }
+  }
+
+  /**
+   * Look up an invitation from the public sponsor page. The backend marks it as opened.
+   */
+  async getInvitationByToken(token: string): Promise<SponsorResponse<SponsorInvitationDetails>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/sponsors/token/${encodeURIComponent(token)}`);
+      const data = await this.parseResponse(response);
+
+      return { success: true, message: "Sponsor invitation found", data: data.invitation as SponsorInvitationDetails };
+    } catch (error) {
+      console.error("❌ Sponsor invitation lookup error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "This link is invalid or has expired",
+        message: "This link is invalid or has expired",
+      };
+    }
+  }
+
+  /**
+   * Record the sponsor's confirmation or refusal
+   */
+  async respondToInvitation(token: string, input: SponsorResponseInput): Promise<SponsorResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/sponsors/token/${encodeURIComponent(token)}/respond`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          confirmed: input.confirmed,
+          sponsorName: input.sponsorName.trim(),
+          relationship: input.relationship || null,
+          organisation: input.organisation.trim() || null,
+          note: input.note.trim() || null,
+        }),
+      });
+
+      const data = await this.parseResponse(response);
+      console.log('✅ Sponsor response recorded');
+
+      return { success: true, message: input.confirmed ? "Sponsorship confirmed" : "Response recorded", data };
+    } catch (error) {
+      console.error("❌ Sponsor response error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to record your response",
+        message: "Failed to record your response",
+      };
+    }
+  }
+}
+
+const sponsorInvitationService = new SponsorInvitationService();
+export default sponsorInvitationService;